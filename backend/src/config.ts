@@ -2,11 +2,18 @@ import fs from 'fs';
 import path from 'path';
 import dotenv from 'dotenv';
 import { ensureValidAspectRatio } from './constants/aspectRatio';
+import { ensureValidOutputFormat } from './constants/outputFormat';
+import {
+  DEFAULT_MODERATION_THRESHOLD,
+  ensureValidModerationProvider,
+  parseModerationCategories,
+} from './constants/moderation';
 
 dotenv.config();
 
 const FAL_DEFAULT_ENDPOINT = 'https://fal.run/fal-ai/gemini-25-flash-image';
 const FAL_DEFAULT_MODEL_ID = 'fal-ai/gemini-25-flash-image';
+const FAL_DEFAULT_EDIT_ENDPOINT = 'https://fal.run/fal-ai/gemini-25-flash-image/edit';
 
 const resolveCredentialPath = (filePath?: string): string | undefined => {
   if (!filePath) return undefined;
@@ -22,6 +29,19 @@ const resolveCredentialPath = (filePath?: string): string | undefined => {
   return absolutePath;
 };
 
+const resolveAssetPath = (name: string): string | undefined => {
+  const filePath = process.env[name];
+  if (!filePath) return undefined;
+  const absolutePath = path.isAbsolute(filePath)
+    ? filePath
+    : path.join(process.cwd(), filePath);
+
+  if (!fs.existsSync(absolutePath)) {
+    throw new Error(`File not found at ${absolutePath}. Update ${name}.`);
+  }
+  return absolutePath;
+};
+
 const required = (name: string, fallback?: string): string => {
   const value = process.env[name] ?? fallback;
   if (!value) {
@@ -109,12 +129,56 @@ export const config = {
   fal: {
     apiKey: process.env.FAL_API_KEY,
     endpoint: process.env.FAL_GEMINI_ENDPOINT ?? FAL_DEFAULT_ENDPOINT,
+    editEndpoint: process.env.FAL_GEMINI_EDIT_ENDPOINT ?? FAL_DEFAULT_EDIT_ENDPOINT,
     modelId: process.env.FAL_GEMINI_MODEL_ID ?? FAL_DEFAULT_MODEL_ID,
     aspectRatio: ensureValidAspectRatio(process.env.FAL_GEMINI_ASPECT_RATIO),
   },
   image: {
-    outputFormat: process.env.IMAGE_OUTPUT_FORMAT ?? 'png',
+    // Every output is transcoded to this format, so stored bytes match the key extension
+    outputFormat: ensureValidOutputFormat(process.env.IMAGE_OUTPUT_FORMAT),
     maxReferenceImages: Number(process.env.MAX_REFERENCE_IMAGES ?? 2),
+    maxVariantCount: Number(process.env.MAX_VARIANT_COUNT ?? 4),
+    maxRenditions: Number(process.env.MAX_RENDITIONS ?? 6),
+    // Uploaded inputs are downscaled to fit this edge before storage and OpenAI
+    maxInputEdge: Number(process.env.MAX_INPUT_EDGE ?? 2048),
+  },
+  moderation: {
+    // Classifies userPrompt and the input images before Step 1
+    provider: ensureValidModerationProvider(process.env.MODERATION_PROVIDER),
+    policy: {
+      blockedCategories: parseModerationCategories(process.env.MODERATION_BLOCKED_CATEGORIES),
+      threshold: Number(process.env.MODERATION_THRESHOLD ?? DEFAULT_MODERATION_THRESHOLD),
+    },
+  },
+  jobs: {
+    // Finished jobs are kept in memory for polling clients, then pruned
+    ttlMs: Number(process.env.IMAGE_FLOW_JOB_TTL_MS ?? 60 * 60 * 1000),
+  },
+  branding: {
+    // PNG composited onto outputs when a request asks for the logo
+    logoPath: resolveAssetPath('LOGO_PATH'),
+    // TTF/OTF files offered to text overlays
+    fontDir: path.resolve(process.env.FONT_DIR ?? path.join(process.cwd(), 'fonts')),
+  },
+  brandKits: {
+    // JSON file backing the brand kit store
+    filePath: path.resolve(
+      process.env.BRAND_KIT_STORE_PATH ?? path.join(process.cwd(), 'data', 'brand-kits.json'),
+    ),
+  },
+  promptTemplates: {
+    // JSON file backing the versioned system prompt library
+    filePath: path.resolve(
+      process.env.PROMPT_TEMPLATE_STORE_PATH ??
+        path.join(process.cwd(), 'data', 'prompt-templates.json'),
+    ),
+  },
+  experiments: {
+    // JSON file backing prompt template experiments and their recorded runs
+    filePath: path.resolve(
+      process.env.EXPERIMENT_STORE_PATH ??
+        path.join(process.cwd(), 'data', 'experiments.json'),
+    ),
   },
 };
 
@@ -0,0 +1,92 @@
+import { AspectRatioOption } from './aspectRatio';
+import { OutputFormat } from './outputFormat';
+
+export type ChannelPreset = {
+  id: string;
+  channel: string;
+  // Ratio requested from the generator; the output is then cropped to the exact pixel size
+  aspectRatio: AspectRatioOption;
+  width: number;
+  height: number;
+  outputFormat: OutputFormat;
+  // Appended to the final prompt, e.g. to keep room for platform UI
+  promptSuffix?: string;
+};
+
+export const CHANNEL_PRESETS: readonly ChannelPreset[] = [
+  {
+    id: 'instagram-story',
+    channel: 'Instagram Story',
+    aspectRatio: '9:16',
+    width: 1080,
+    height: 1920,
+    outputFormat: 'jpeg',
+    promptSuffix:
+      'Leave a clear safe area at the top and bottom of the frame for UI overlays; keep the subject in the middle.',
+  },
+  {
+    id: 'instagram-feed-portrait',
+    channel: 'Instagram feed (portrait)',
+    aspectRatio: '4:5',
+    width: 1080,
+    height: 1350,
+    outputFormat: 'jpeg',
+  },
+  {
+    id: 'instagram-feed-square',
+    channel: 'Instagram feed (square)',
+    aspectRatio: '1:1',
+    width: 1080,
+    height: 1080,
+    outputFormat: 'jpeg',
+  },
+  {
+    id: 'linkedin-banner',
+    channel: 'LinkedIn banner',
+    aspectRatio: '21:9',
+    width: 1584,
+    height: 396,
+    outputFormat: 'png',
+    promptSuffix:
+      'Compose for a very wide, short banner: keep the key subject on the right and leave the lower left free for the profile photo.',
+  },
+  {
+    id: 'linkedin-post',
+    channel: 'LinkedIn post',
+    aspectRatio: '16:9',
+    width: 1200,
+    height: 627,
+    outputFormat: 'jpeg',
+  },
+  {
+    id: 'display-medium-rectangle',
+    channel: 'Display ad – medium rectangle (300×250)',
+    aspectRatio: '5:4',
+    width: 300,
+    height: 250,
+    outputFormat: 'png',
+    promptSuffix: 'Leave clean negative space for a headline and a call-to-action button.',
+  },
+  {
+    id: 'display-leaderboard',
+    channel: 'Display ad – leaderboard (728×90)',
+    aspectRatio: '21:9',
+    width: 728,
+    height: 90,
+    outputFormat: 'png',
+    promptSuffix:
+      'Keep the key subject small and vertically centred; the frame will be cropped to a very wide strip.',
+  },
+  {
+    id: 'display-half-page',
+    channel: 'Display ad – half page (300×600)',
+    aspectRatio: '9:16',
+    width: 300,
+    height: 600,
+    outputFormat: 'png',
+    promptSuffix: 'Leave clean negative space at the bottom for a call-to-action button.',
+  },
+];
+
+export const getChannelPreset = (id?: string): ChannelPreset | undefined =>
+  id ? CHANNEL_PRESETS.find((preset) => preset.id === id) : undefined;
@@ -0,0 +1,24 @@
+export type CopyChannel = {
+  id: string;
+  label: string;
+  // Hard platform limit or, for ads, the length shown before the text is truncated
+  characterLimit: number;
+};
+
+export const COPY_CHANNELS = [
+  { id: 'instagram', label: 'Instagram caption', characterLimit: 2200 },
+  { id: 'facebook', label: 'Facebook ad primary text', characterLimit: 125 },
+  { id: 'linkedin', label: 'LinkedIn post', characterLimit: 3000 },
+  { id: 'x', label: 'X post', characterLimit: 280 },
+  { id: 'google-ads', label: 'Google Ads description', characterLimit: 90 },
+] as const satisfies readonly CopyChannel[];
+
+export type CopyChannelId = (typeof COPY_CHANNELS)[number]['id'];
+
+export const COPY_CHANNEL_IDS = COPY_CHANNELS.map((channel) => channel.id) as [
+  CopyChannelId,
+  ...CopyChannelId[],
+];
+
+export const getCopyChannel = (id: CopyChannelId): CopyChannel =>
+  COPY_CHANNELS.find((channel) => channel.id === id) as CopyChannel;
@@ -0,0 +1,10 @@
+/**
+ * How Step 3 renders the final prompt:
+ * - reconstruct: text-to-image from the prompt alone
+ * - edit: the base and reference images are sent to the model alongside the prompt
+ */
+export const IMAGE_FLOW_MODES = ['reconstruct', 'edit'] as const;
+
+export type ImageFlowMode = (typeof IMAGE_FLOW_MODES)[number];
+
+export const DEFAULT_IMAGE_FLOW_MODE: ImageFlowMode = 'reconstruct';
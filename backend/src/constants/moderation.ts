@@ -0,0 +1,60 @@
+// Categories reported by OpenAI's omni-moderation models; the local provider uses the same codes
+export const MODERATION_CATEGORIES = [
+  'harassment',
+  'harassment/threatening',
+  'hate',
+  'hate/threatening',
+  'illicit',
+  'illicit/violent',
+  'self-harm',
+  'self-harm/intent',
+  'self-harm/instructions',
+  'sexual',
+  'sexual/minors',
+  'violence',
+  'violence/graphic',
+] as const;
+
+export type ModerationCategory = (typeof MODERATION_CATEGORIES)[number];
+
+// 'off' skips the pre-check entirely
+export const MODERATION_PROVIDERS = ['openai', 'local', 'off'] as const;
+
+export type ModerationProviderName = (typeof MODERATION_PROVIDERS)[number];
+
+export const DEFAULT_MODERATION_PROVIDER: ModerationProviderName = 'openai';
+
+// Category score (0–1) at or above which a blocked category counts as a hit
+export const DEFAULT_MODERATION_THRESHOLD = 0.5;
+
+export const ensureValidModerationProvider = (value?: string): ModerationProviderName => {
+  if (value && (MODERATION_PROVIDERS as readonly string[]).includes(value)) {
+    return value as ModerationProviderName;
+  }
+
+  return DEFAULT_MODERATION_PROVIDER;
+};
+
+/**
+ * Comma-separated category codes; unknown codes are rejected at startup so a
+ * typo cannot silently weaken the policy. Empty means every category is blocked.
+ */
+export const parseModerationCategories = (value?: string): ModerationCategory[] => {
+  const codes = (value ?? '')
+    .split(',')
+    .map((code) => code.trim())
+    .filter(Boolean);
+  if (codes.length === 0) {
+    return [...MODERATION_CATEGORIES];
+  }
+
+  const unknown = codes.filter(
+    (code) => !(MODERATION_CATEGORIES as readonly string[]).includes(code),
+  );
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown moderation categories: ${unknown.join(', ')}. Update MODERATION_BLOCKED_CATEGORIES.`,
+    );
+  }
+  return codes as ModerationCategory[];
+};
@@ -0,0 +1,16 @@
+export const OUTPUT_FORMATS = ['png', 'jpeg', 'webp', 'avif'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = 'png';
+
+// fal.ai cannot return AVIF; those outputs are requested as PNG and transcoded
+export const FAL_OUTPUT_FORMATS: readonly OutputFormat[] = ['png', 'jpeg', 'webp'];
+
+export const ensureValidOutputFormat = (value?: string): OutputFormat => {
+  if (value && (OUTPUT_FORMATS as readonly string[]).includes(value)) {
+    return value as OutputFormat;
+  }
+
+  return DEFAULT_OUTPUT_FORMAT;
+};
@@ -0,0 +1,42 @@
+export const TEXT_OVERLAY_LAYOUT_IDS = ['bottom-band', 'top-band', 'centered'] as const;
+
+export type TextOverlayLayoutId = (typeof TEXT_OVERLAY_LAYOUT_IDS)[number];
+
+export type TextOverlayLayout = {
+  id: TextOverlayLayoutId;
+  label: string;
+  // Text block area as fractions of the image size
+  region: { left: number; top: number; width: number; height: number };
+  align: 'left' | 'centre';
+  // Where the text block sits inside the region
+  anchor: 'top' | 'middle' | 'bottom';
+  // Opacity of the dark scrim drawn behind the region to keep the copy legible
+  scrimOpacity: number;
+};
+
+export const TEXT_OVERLAY_LAYOUTS: Record<TextOverlayLayoutId, TextOverlayLayout> = {
+  'bottom-band': {
+    id: 'bottom-band',
+    label: 'Bottom band',
+    region: { left: 0, top: 0.66, width: 1, height: 0.34 },
+    align: 'left',
+    anchor: 'bottom',
+    scrimOpacity: 0.45,
+  },
+  'top-band': {
+    id: 'top-band',
+    label: 'Top band',
+    region: { left: 0, top: 0, width: 1, height: 0.34 },
+    align: 'left',
+    anchor: 'top',
+    scrimOpacity: 0.45,
+  },
+  centered: {
+    id: 'centered',
+    label: 'Centered',
+    region: { left: 0, top: 0, width: 1, height: 1 },
+    align: 'centre',
+    anchor: 'middle',
+    scrimOpacity: 0.3,
+  },
+};
@@ -1,4 +1,5 @@
 import { NextFunction, Request, Response } from 'express';
+import { MulterError } from 'multer';
 import { ZodError } from 'zod';
 import { createLogger } from '../utils/logger';
 
@@ -23,6 +24,14 @@ export const errorHandler = (
     });
   }
 
+  // Upload limits (file size, file count, unexpected fields) are client errors
+  if (err instanceof MulterError) {
+    return res.status(400).json({
+      message: err.message,
+      details: { field: err.field, reason: err.code },
+    });
+  }
+
   if (err instanceof HttpError) {
     return res.status(err.status).json({
       message: err.message,
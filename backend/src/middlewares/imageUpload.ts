@@ -0,0 +1,182 @@
+import multer from 'multer';
+import { config } from '../config';
+import { HttpError } from './errorHandler';
+import { storageService } from '../services/storageService';
+import { createLogger } from '../utils/logger';
+import { CorruptImageError, ImageHeader, readImageHeader } from '../utils/imageHeader';
+
+const logger = createLogger('imageUpload');
+
+// Image validation constants
+const MAX_PAYLOAD_SIZE = 50 * 1024 * 1024; // 50 MB total per request
+const SUPPORTED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/jpg',
+  'image/webp',
+  'image/gif',
+] as const;
+
+export const imageUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: MAX_PAYLOAD_SIZE,
+    files: 1 + config.image.maxReferenceImages,
+  },
+  fileFilter: (_req, file, cb) => {
+    const isValidMimeType = SUPPORTED_MIME_TYPES.includes(
+      file.mimetype as any,
+    );
+    if (isValidMimeType) {
+      cb(null, true);
+    } else {
+      cb(
+        new HttpError(
+          400,
+          `Unsupported file type: ${file.mimetype}. Supported formats: PNG, JPEG, WEBP, and non-animated GIF.`,
+          { field: file.fieldname, reason: 'unsupported_type', declaredType: file.mimetype },
+        ),
+      );
+    }
+  },
+});
+
+// 'image/jpg' is a common alias clients send for JPEG
+const normalizeMimeType = (mimeType: string) =>
+  mimeType === 'image/jpg' ? 'image/jpeg' : mimeType;
+
+/**
+ * Validates image files against their actual bytes, not the client-provided type:
+ * - Supported formats: PNG, JPEG, WEBP, GIF (non-animated)
+ * - Size limit: Up to 50 MB total payload per request
+ * Failures are 400s whose details name the offending field and the reason.
+ * Returns the decoded header; its mimeType is the one to pass downstream.
+ */
+export const validateImage = (
+  file: Pick<Express.Multer.File, 'buffer' | 'mimetype' | 'size'>,
+  context: string,
+  field: string,
+): ImageHeader => {
+  const reject = (reason: string, message: string, extra?: Record<string, unknown>): never => {
+    throw new HttpError(400, `${context}: ${message}`, {
+      field,
+      reason,
+      declaredType: file.mimetype,
+      ...extra,
+    });
+  };
+
+  if (!SUPPORTED_MIME_TYPES.includes(file.mimetype as any)) {
+    reject(
+      'unsupported_type',
+      `Unsupported image format. Supported: PNG, JPEG, WEBP, GIF. Received: ${file.mimetype}`,
+    );
+  }
+
+  if (file.size > MAX_PAYLOAD_SIZE) {
+    reject(
+      'too_large',
+      `Image size (${(file.size / 1024 / 1024).toFixed(2)} MB) exceeds 50 MB limit.`,
+    );
+  }
+
+  let header: ImageHeader | null;
+  try {
+    header = readImageHeader(file.buffer);
+  } catch (error) {
+    if (!(error instanceof CorruptImageError)) throw error;
+    return reject('corrupt', `Image could not be decoded (${error.message}).`);
+  }
+  if (!header) {
+    return reject('unrecognized_content', 'File content is not a PNG, JPEG, WEBP or GIF image.');
+  }
+
+  if (header.mimeType !== normalizeMimeType(file.mimetype)) {
+    reject(
+      'type_mismatch',
+      `File content is ${header.format.toUpperCase()} but was sent as ${file.mimetype}.`,
+      { detectedType: header.mimeType },
+    );
+  }
+
+  if (header.format === 'gif' && header.frameCount > 1) {
+    reject('animated_gif', `Animated GIFs are not supported (${header.frameCount} frames).`, {
+      frameCount: header.frameCount,
+    });
+  }
+
+  return header;
+};
+
+/**
+ * Validates total payload size for all images in the request
+ */
+export const validateTotalPayloadSize = (
+  baseImage: Pick<Express.Multer.File, 'size'>,
+  referenceImages: Array<Pick<Express.Multer.File, 'size'>>,
+): void => {
+  const totalSize =
+    baseImage.size + referenceImages.reduce((sum, img) => sum + img.size, 0);
+
+  if (totalSize > MAX_PAYLOAD_SIZE) {
+    throw new HttpError(
+      400,
+      `Total image payload size (${(totalSize / 1024 / 1024).toFixed(2)} MB) exceeds 50 MB limit per request.`,
+    );
+  }
+};
+
+/**
+ * Loads an image we stored earlier, given its storage key or public URL.
+ * Only keys inside our own bucket folder are accepted, so callers cannot make
+ * the server fetch arbitrary URLs.
+ */
+export const loadStoredImage = async (
+  keyOrUrl: string,
+  context: string,
+): Promise<{ key: string; buffer: Buffer; mimeType: string }> => {
+  const key = storageService.resolveKey(keyOrUrl);
+  if (!key) {
+    throw new HttpError(
+      400,
+      `${context}: Must be a storage key or a URL under ${config.storage.publicBaseUrl}`,
+    );
+  }
+
+  let stored: { buffer: Buffer; mimeType: string };
+  try {
+    stored = await storageService.downloadBuffer(key);
+  } catch (error) {
+    logger.error('Failed to load stored image', { key, error });
+    throw new HttpError(400, `${context}: Stored image ${key} could not be loaded`);
+  }
+
+  const header = validateImage(
+    { buffer: stored.buffer, mimetype: stored.mimeType, size: stored.buffer.length },
+    context,
+    context,
+  );
+  return { key, buffer: stored.buffer, mimeType: header.mimeType };
+};
+
+/**
+ * Multipart fields repeated once per value arrive as a string or an array
+ */
+export const toStringArray = (value: unknown): string[] => {
+  if (value === undefined || value === null || value === '') return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+};
+
+/**
+ * Structured options sent as a JSON string inside multipart bodies
+ */
+export const parseJsonField = (value: unknown, field: string): unknown => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') return value;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new HttpError(400, `${field} must be valid JSON`);
+  }
+};
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/asyncHandler';
+import { HttpError } from '../middlewares/errorHandler';
+import { brandKitSchema, brandKitUpdateSchema } from '../types/brandKit';
+import { brandKitService } from '../services/brandKitService';
+import { storageService } from '../services/storageService';
+
+const router = Router();
+
+// Reference assets must already live in our bucket; URLs are normalized to keys
+const toAssetKeys = (values: string[]): string[] =>
+  values.map((value, index) => {
+    const key = storageService.resolveKey(value);
+    if (!key) {
+      throw new HttpError(
+        400,
+        `referenceAssets[${index}] must be a storage key or public URL issued by this service`,
+      );
+    }
+    return key;
+  });
+
+router.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    return res.json({ brandKits: await brandKitService.list() });
+  }),
+);
+
+router.post(
+  '/',
+  asyncHandler(async (req, res) => {
+    const { referenceAssets, ...fields } = brandKitSchema.parse(req.body);
+
+    const kit = await brandKitService.create({
+      ...fields,
+      referenceAssetKeys: toAssetKeys(referenceAssets),
+    });
+
+    return res.status(201).json(kit);
+  }),
+);
+
+router.get(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const kit = await brandKitService.get(req.params.id);
+    if (!kit) {
+      throw new HttpError(404, `Brand kit ${req.params.id} not found`);
+    }
+
+    return res.json(kit);
+  }),
+);
+
+router.patch(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const { referenceAssets, ...fields } = brandKitUpdateSchema.parse(req.body);
+
+    const kit = await brandKitService.update(req.params.id, {
+      ...fields,
+      ...(referenceAssets ? { referenceAssetKeys: toAssetKeys(referenceAssets) } : {}),
+    });
+    if (!kit) {
+      throw new HttpError(404, `Brand kit ${req.params.id} not found`);
+    }
+
+    return res.json(kit);
+  }),
+);
+
+router.delete(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const removed = await brandKitService.remove(req.params.id);
+    if (!removed) {
+      throw new HttpError(404, `Brand kit ${req.params.id} not found`);
+    }
+
+    return res.status(204).end();
+  }),
+);
+
+export const brandKitsRouter = router;
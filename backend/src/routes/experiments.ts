@@ -0,0 +1,100 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/asyncHandler';
+import { HttpError } from '../middlewares/errorHandler';
+import {
+  experimentRatingSchema,
+  experimentSchema,
+  experimentUpdateSchema,
+} from '../types/experiment';
+import { experimentService } from '../services/experimentService';
+
+const router = Router();
+
+router.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    return res.json({ experiments: await experimentService.list() });
+  }),
+);
+
+router.post(
+  '/',
+  asyncHandler(async (req, res) => {
+    const experiment = await experimentService.create(experimentSchema.parse(req.body));
+
+    return res.status(201).json(experiment);
+  }),
+);
+
+/**
+ * Rates the output of an image-flow job that was assigned to an experiment arm
+ */
+router.post(
+  '/runs/:jobId/rating',
+  asyncHandler(async (req, res) => {
+    const { rating } = experimentRatingSchema.parse(req.body);
+    const rated = await experimentService.rate(req.params.jobId, rating);
+    if (!rated) {
+      throw new HttpError(404, `No experiment run was recorded for job ${req.params.jobId}`);
+    }
+
+    return res.status(204).end();
+  }),
+);
+
+router.get(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const experiment = await experimentService.get(req.params.id);
+    if (!experiment) {
+      throw new HttpError(404, `Experiment ${req.params.id} not found`);
+    }
+
+    return res.json(experiment);
+  }),
+);
+
+// Only the name and status change; arms are fixed once created
+router.patch(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const experiment = await experimentService.update(
+      req.params.id,
+      experimentUpdateSchema.parse(req.body),
+    );
+    if (!experiment) {
+      throw new HttpError(404, `Experiment ${req.params.id} not found`);
+    }
+
+    return res.json(experiment);
+  }),
+);
+
+router.delete(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const removed = await experimentService.remove(req.params.id);
+    if (!removed) {
+      throw new HttpError(404, `Experiment ${req.params.id} not found`);
+    }
+
+    return res.status(204).end();
+  }),
+);
+
+/**
+ * Recorded runs aggregated per arm: refusal rate, judge score and user rating
+ */
+router.get(
+  '/:id/report',
+  asyncHandler(async (req, res) => {
+    const report = await experimentService.report(req.params.id);
+    if (!report) {
+      throw new HttpError(404, `Experiment ${req.params.id} not found`);
+    }
+
+    return res.json(report);
+  }),
+);
+
+export const experimentsRouter = router;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/asyncHandler';
+import { textOverlayService } from '../services/textOverlayService';
+
+const router = Router();
+
+/**
+ * Fonts in FONT_DIR usable by the text overlay `font` field
+ */
+router.get(
+  '/',
+  asyncHandler(async (_req, res) => {
+    const fonts = await textOverlayService.listFonts();
+    return res.json({ fonts });
+  }),
+);
+
+export const fontsRouter = router;
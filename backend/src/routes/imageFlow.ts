@@ -1,343 +1,349 @@
 import { Router } from 'express';
-import multer from 'multer';
 import { asyncHandler } from '../middlewares/asyncHandler';
-import { imageFlowSchema } from '../types/imageFlow';
-import { storageService } from '../services/storageService';
-import { geminiService } from '../services/geminiService';
-import { createOpenAIService, PromptGenerationResponse } from '../services/openaiService';
+import {
+  imageFlowSchema,
+  imageOverlaySchema,
+  imageRenderSchema,
+  ImageFlowEventRecord,
+} from '../types/imageFlow';
+import { imageFlowJobService } from '../services/imageFlowJobService';
 import { config } from '../config';
 import { HttpError } from '../middlewares/errorHandler';
+import {
+  imageUpload,
+  loadStoredImage,
+  parseJsonField,
+  toStringArray,
+  validateImage,
+  validateTotalPayloadSize,
+} from '../middlewares/imageUpload';
+import {
+  ImageInput,
+  imageFlowPipeline,
+  usedPromptTemplateRoles,
+} from '../services/imageFlowPipeline';
+import { brandKitService } from '../services/brandKitService';
+import { experimentService } from '../services/experimentService';
+import { moderationService } from '../services/moderationService';
+import { BrandKitContext } from '../types/brandKit';
+import { imageProcessingService } from '../services/imageProcessingService';
+import { textOverlayService } from '../services/textOverlayService';
+import { LogoOverlayOptions } from '../types/logoOverlay';
+import { TextOverlaySpec } from '../types/textOverlay';
+import { ModerationInput } from '../types/moderation';
+import { renderScenePrompt } from '../utils/scenePrompt';
+import { ExperimentArmAssignment, experimentUserIdSchema } from '../types/experiment';
 import { createLogger } from '../utils/logger';
 
-// Image validation constants
-const MAX_PAYLOAD_SIZE = 50 * 1024 * 1024; // 50 MB total per request
-const SUPPORTED_MIME_TYPES = [
-  'image/png',
-  'image/jpeg',
-  'image/jpg',
-  'image/webp',
-  'image/gif',
-] as const;
-
-const upload = multer({
-  storage: multer.memoryStorage(),
-  limits: {
-    fileSize: MAX_PAYLOAD_SIZE,
-    files: 1 + config.image.maxReferenceImages,
-  },
-  fileFilter: (_req, file, cb) => {
-    const isValidMimeType = SUPPORTED_MIME_TYPES.includes(
-      file.mimetype as any,
-    );
-    if (isValidMimeType) {
-      cb(null, true);
-    } else {
-      cb(
-        new Error(
-          `Unsupported file type: ${file.mimetype}. Supported formats: PNG, JPEG, WEBP, and non-animated GIF.`,
-        ),
-      );
-    }
-  },
-});
+const SSE_HEARTBEAT_MS = 15000;
 
 const router = Router();
 const logger = createLogger('imageFlowRoute');
 
-/**
- * Validates image files:
- * - Supported formats: PNG, JPEG, WEBP, GIF (non-animated)
- * - Size limit: Up to 50 MB total payload per request
- */
-const validateImage = (
-  file: Express.Multer.File,
-  context: string,
-): void => {
-  if (!SUPPORTED_MIME_TYPES.includes(file.mimetype as any)) {
-    throw new HttpError(
-      400,
-      `${context}: Unsupported image format. Supported: PNG, JPEG, WEBP, GIF. Received: ${file.mimetype}`,
-    );
+const loadBrandKit = async (id: string): Promise<BrandKitContext> => {
+  const kit = await brandKitService.get(id);
+  if (!kit) {
+    throw new HttpError(400, `Brand kit ${id} not found`);
   }
 
-  if (file.size > MAX_PAYLOAD_SIZE) {
-    throw new HttpError(
-      400,
-      `${context}: Image size (${(file.size / 1024 / 1024).toFixed(2)} MB) exceeds 50 MB limit.`,
-    );
+  const assets = await Promise.all(
+    kit.referenceAssetKeys.map((key, index) =>
+      loadStoredImage(key, `Brand kit reference asset ${index + 1}`),
+    ),
+  );
+  return { kit, assets };
+};
+
+const ensureOverlaysAvailable = async (payload: {
+  logo?: LogoOverlayOptions;
+  textOverlay?: TextOverlaySpec;
+}): Promise<void> => {
+  if (payload.logo && !imageProcessingService.isLogoConfigured) {
+    throw new HttpError(400, 'logo was requested but no LOGO_PATH is configured');
+  }
+  const font = payload.textOverlay?.font;
+  if (font && !(await textOverlayService.hasFont(font))) {
+    throw new HttpError(400, `Font ${font} was not found in FONT_DIR`);
   }
 };
 
 /**
- * Validates total payload size for all images in the request
+ * Moderation pre-check shared by every entry point that queues a generation.
+ * Runs before the job is queued, so blocked text or images never reach a paid
+ * model call.
  */
-const validateTotalPayloadSize = (
-  baseImage: Express.Multer.File,
-  referenceImages: Express.Multer.File[],
+const ensureGenerationAllowed = (
+  text: ModerationInput,
+  images: Array<{ field: string; image: ImageInput }>,
+  context: string,
+): Promise<void> => moderationService.ensureAllowed([text, ...images], context);
+
+// Records the job's outcome against its experiment arms once it finishes
+const trackExperimentRun = (
+  jobId: string,
+  experimentArms: ExperimentArmAssignment[],
+  userId?: string,
 ): void => {
-  const totalSize =
-    baseImage.size + referenceImages.reduce((sum, img) => sum + img.size, 0);
+  if (experimentArms.length === 0) return;
 
-  if (totalSize > MAX_PAYLOAD_SIZE) {
-    throw new HttpError(
-      400,
-      `Total image payload size (${(totalSize / 1024 / 1024).toFixed(2)} MB) exceeds 50 MB limit per request.`,
-    );
-  }
+  const unsubscribe = imageFlowJobService.subscribe(jobId, (event) => {
+    if (event.type !== 'job.succeeded' && event.type !== 'job.failed') return;
+    unsubscribe();
+    experimentService
+      .recordRun({ jobId, experimentArms, outcome: event.result, userId })
+      .catch((error) => logger.error('Experiment run could not be recorded', error));
+  });
 };
 
 router.post(
   '/',
-  upload.fields([
+  imageUpload.fields([
     { name: 'baseImage', maxCount: 1 },
     { name: 'referenceImages', maxCount: config.image.maxReferenceImages },
   ]),
   asyncHandler(async (req, res) => {
-    const baseImage = (req.files as Record<string, Express.Multer.File[]>)?.[
-      'baseImage'
-    ]?.[0];
+    const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+    const baseImageFile = files?.['baseImage']?.[0];
+    const referenceImageFiles = files?.['referenceImages'] ?? [];
 
-    if (!baseImage) {
-      throw new HttpError(400, 'baseImage file is required');
+    const aspectRatios = toStringArray(req.body.aspectRatios);
+    const payload = imageFlowSchema.parse({
+      userPrompt: req.body.userPrompt,
+      baseImageUrl: req.body.baseImageUrl || undefined,
+      referenceImageUrls: toStringArray(req.body.referenceImageUrls),
+      aspectRatio: req.body.aspectRatio,
+      aspectRatios: aspectRatios.length > 0 ? aspectRatios : undefined,
+      preset: req.body.preset || undefined,
+      brandKitId: req.body.brandKitId || undefined,
+      promptTemplates: parseJsonField(req.body.promptTemplates, 'promptTemplates'),
+      logo: parseJsonField(req.body.logo, 'logo'),
+      textOverlay: parseJsonField(req.body.textOverlay, 'textOverlay'),
+      renditions: parseJsonField(req.body.renditions, 'renditions'),
+      marketingCopy: parseJsonField(req.body.marketingCopy, 'marketingCopy'),
+      selfCorrection: parseJsonField(req.body.selfCorrection, 'selfCorrection'),
+      mode: req.body.mode || undefined,
+      variantCount: req.body.variantCount,
+    });
+    const referenceImageUrls = payload.referenceImageUrls ?? [];
+    await ensureOverlaysAvailable(payload);
+
+    if (!baseImageFile && !payload.baseImageUrl) {
+      throw new HttpError(400, 'baseImage file or baseImageUrl is required');
+    }
+    if (referenceImageFiles.length + referenceImageUrls.length > config.image.maxReferenceImages) {
+      throw new HttpError(
+        400,
+        `At most ${config.image.maxReferenceImages} reference images are allowed per request.`,
+      );
     }
 
-    const referenceImages =
-      (req.files as Record<string, Express.Multer.File[]>)?.['referenceImages'] ??
-      [];
+    // Validate uploaded images; the sniffed type replaces whatever the client declared
+    const baseImageHeader = baseImageFile
+      ? validateImage(baseImageFile, 'Base image', 'baseImage')
+      : undefined;
+    const referenceImageHeaders = referenceImageFiles.map((img, index) =>
+      validateImage(img, `Reference image ${index + 1}`, `referenceImages[${index}]`),
+    );
 
-    // Validate all images
-    validateImage(baseImage, 'Base image');
-    referenceImages.forEach((img, index) => {
-      validateImage(img, `Reference image ${index + 1}`);
-    });
-    validateTotalPayloadSize(baseImage, referenceImages);
+    // Stored assets (keys or our own public URLs) are loaded server-side instead of re-uploaded
+    const baseImage: ImageInput = baseImageFile && baseImageHeader
+      ? { buffer: baseImageFile.buffer, mimeType: baseImageHeader.mimeType }
+      : await loadStoredImage(payload.baseImageUrl as string, 'baseImageUrl');
+    const referenceImages: ImageInput[] = [
+      ...referenceImageFiles.map((image, index) => ({
+        buffer: image.buffer,
+        mimeType: referenceImageHeaders[index].mimeType,
+      })),
+      ...(await Promise.all(
+        referenceImageUrls.map((value, index) =>
+          loadStoredImage(value, `referenceImageUrls[${index}]`),
+        ),
+      )),
+    ];
 
-    const payload = imageFlowSchema.parse({
-      userPrompt: req.body.userPrompt,
-      aspectRatio: req.body.aspectRatio,
+    validateTotalPayloadSize(
+      { size: baseImage.buffer.length },
+      referenceImages.map((image) => ({ size: image.buffer.length })),
+    );
+
+    // Loaded first so its reference assets are moderated along with the uploads
+    const brandKit = payload.brandKitId
+      ? await loadBrandKit(payload.brandKitId)
+      : undefined;
+
+    // Blocked instructions or images are rejected before the paid Step 1 vision call
+    await ensureGenerationAllowed(
+      { field: 'userPrompt', text: payload.userPrompt },
+      [
+        { field: baseImageFile ? 'baseImage' : 'baseImageUrl', image: baseImage },
+        ...referenceImages.map((image, index) => ({
+          field: index < referenceImageFiles.length
+            ? `referenceImages[${index}]`
+            : `referenceImageUrls[${index - referenceImageFiles.length}]`,
+          image,
+        })),
+        ...(brandKit?.assets ?? []).map((image, index) => ({
+          field: `brandKit.referenceAssets[${index}]`,
+          image,
+        })),
+      ],
+      'image-flow',
+    );
+
+    // Resolved now so the run uses (and records) the versions current at submission;
+    // running experiments assign the user an arm for roles the request left out
+    const userId = experimentUserIdSchema.parse(req.header('X-User-Id') || undefined);
+    const { promptTemplates, experimentArms } = await experimentService.resolve(
+      payload.promptTemplates,
+      userId,
+      usedPromptTemplateRoles(payload, Boolean(brandKit)),
+    );
+
+    // Run the pipeline in the background; clients poll GET /jobs/:id or stream /jobs/:id/events
+    const job = imageFlowJobService.submit({
+      baseImage,
+      referenceImages,
+      payload,
+      brandKit,
+      promptTemplates,
+      experimentArms,
     });
+    trackExperimentRun(job.id, experimentArms, userId);
 
-    // Upload images to storage
-    const baseImageUpload = await storageService.uploadBuffer({
-      buffer: baseImage.buffer,
-      mimeType: baseImage.mimetype,
-      prefix: 'inputs',
+    return res.status(202).json({
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `${req.baseUrl}/jobs/${job.id}`,
+      eventsUrl: `${req.baseUrl}/jobs/${job.id}/events`,
     });
+  }),
+);
 
-    const referenceUploads = await Promise.all(
-      referenceImages.map((image) =>
-        storageService.uploadBuffer({
-          buffer: image.buffer,
-          mimeType: image.mimetype,
-          prefix: 'inputs',
-        }),
+/**
+ * Step 3 only: render a user-edited final prompt (or edited scene fields) against stored inputs.
+ * Returns a job just like POST / so clients follow it the same way.
+ */
+router.post(
+  '/render',
+  asyncHandler(async (req, res) => {
+    const payload = imageRenderSchema.parse(req.body);
+    await ensureOverlaysAvailable(payload);
+
+    // The edited text and the stored inputs reach the generator, so they are
+    // checked just like a POST / submission
+    const referenceImageKeys = payload.referenceImageKeys ?? [];
+    const [baseImage, ...referenceImages] = await Promise.all(
+      [payload.baseImageKey, ...referenceImageKeys].map((key, index) =>
+        loadStoredImage(
+          key,
+          index === 0 ? 'baseImageKey' : `referenceImageKeys[${index - 1}]`,
+        ),
       ),
     );
+    await ensureGenerationAllowed(
+      payload.scene
+        ? { field: 'scene', text: renderScenePrompt(payload.scene) }
+        : { field: 'prompt', text: payload.prompt },
+      [
+        { field: 'baseImageKey', image: baseImage },
+        ...referenceImages.map((image, index) => ({
+          field: `referenceImageKeys[${index}]`,
+          image,
+        })),
+      ],
+      'image-flow-render',
+    );
 
-    // Initialize OpenAI service
-    const openaiService = createOpenAIService();
-
-    // ============================================
-    // STEP 1: Base Image → OpenAI (systemPrompt1) → prompt1
-    // ============================================
-    logger.info('Step 1: Reconstructing prompt from base image');
-    let prompt1: string;
-    try {
-      const promptResponse1: PromptGenerationResponse =
-        await openaiService.reconstructPromptFromImage(
-          baseImage.buffer,
-          baseImage.mimetype,
-        );
-
-      // Check if prompt was successfully generated
-      if (!promptResponse1.isPromptGenerated) {
-        logger.error('Step 1 failed: OpenAI refused to generate prompt', {
-          prompt: promptResponse1.prompt,
-          isPromptGenerated: promptResponse1.isPromptGenerated,
-        });
-        
-        // Return early without proceeding to Step 2 and Step 3
-        return res.status(502).json({
-          baseImage: baseImageUpload.url,
-          referenceImages: referenceUploads.map((upload) => upload.url),
-          prompt1: promptResponse1.prompt || 'Prompt reconstruction failed',
-          prompt2: null,
-          outputImage: null,
-          error: `OpenAI could not reconstruct the prompt: ${promptResponse1.prompt || 'Request was refused. Please try with a different image.'}`,
-          isPromptGenerated: false,
-        });
-      }
+    // The images just checked are the ones rendered, so they are not downloaded again
+    const job = imageFlowJobService.submitRender(payload, { baseImage, referenceImages });
 
-      const trimmedPrompt1 = promptResponse1.prompt.trim();
-      if (!trimmedPrompt1 || trimmedPrompt1.length < 3) {
-        logger.error('Step 1 failed: OpenAI returned invalid prompt', {
-          length: trimmedPrompt1.length,
-          preview: trimmedPrompt1.substring(0, 50),
-        });
-        
-        // Return early without proceeding to Step 2 and Step 3
-        return res.status(502).json({
-          baseImage: baseImageUpload.url,
-          referenceImages: referenceUploads.map((upload) => upload.url),
-          prompt1: trimmedPrompt1 || 'Invalid prompt',
-          prompt2: null,
-          outputImage: null,
-          error: 'OpenAI did not return a valid reconstructed prompt. Please try again with a different image.',
-          isPromptGenerated: false,
-        });
-      }
-      prompt1 = trimmedPrompt1;
-      logger.info('Step 1 complete: Prompt reconstructed', {
-        length: prompt1.length,
-        preview: prompt1.substring(0, 100),
-      });
-    } catch (error) {
-      logger.error('Step 1 failed: Prompt reconstruction error', error);
-      
-      // Return early without proceeding to Step 2 and Step 3
-      return res.status(502).json({
-        baseImage: baseImageUpload.url,
-        referenceImages: referenceUploads.map((upload) => upload.url),
-        prompt1: null,
-        prompt2: null,
-        outputImage: null,
-        error: error instanceof Error
-          ? `OpenAI prompt reconstruction failed: ${error.message}`
-          : 'OpenAI prompt reconstruction failed',
-        isPromptGenerated: false,
-      });
-    }
+    return res.status(202).json({
+      jobId: job.id,
+      status: job.status,
+      statusUrl: `${req.baseUrl}/jobs/${job.id}`,
+      eventsUrl: `${req.baseUrl}/jobs/${job.id}/events`,
+    });
+  }),
+);
 
-    // ============================================
-    // STEP 2: prompt1 + User Instructions + Reference Images → OpenAI (systemPrompt2) → prompt2
-    // Skip Step 2 if userPrompt is empty/not provided - use prompt1 directly for Step 3
-    // ============================================
-    let prompt2: string;
-    let step2Executed = false; // Track if Step 2 was actually executed
-    
-    // Check if user provided modification instructions
-    const userPrompt = payload.userPrompt?.trim() || '';
-    const hasUserInstructions = userPrompt.length > 0;
-    
-    if (!hasUserInstructions) {
-      // Skip Step 2: Use prompt1 directly for image generation
-      logger.info('Step 2 skipped: No user instructions provided, using prompt1 directly');
-      prompt2 = prompt1;
-      step2Executed = false;
-    } else {
-      // Proceed with Step 2: Apply user instructions to prompt1
-      logger.info('Step 2: Applying user instructions to prompt');
-      try {
-        // Prepare reference images if provided
-        const referenceImageBuffers =
-          referenceImages.length > 0
-            ? referenceImages.map((img) => ({
-                buffer: img.buffer,
-                mimeType: img.mimetype,
-              }))
-            : undefined;
-
-        const promptResponse: PromptGenerationResponse =
-          await openaiService.applyUserInstructions(
-            prompt1,
-            userPrompt,
-            referenceImageBuffers,
-          );
-
-        // Check if prompt was successfully generated
-        if (!promptResponse.isPromptGenerated) {
-          logger.error('Step 2 failed: OpenAI refused to generate prompt', {
-            prompt: promptResponse.prompt,
-            isPromptGenerated: promptResponse.isPromptGenerated,
-          });
-          
-          // Return early without generating image
-          return res.status(502).json({
-            baseImage: baseImageUpload.url,
-            referenceImages: referenceUploads.map((upload) => upload.url),
-            prompt1: prompt1,
-            prompt2: promptResponse.prompt || 'Prompt generation failed',
-            outputImage: null,
-            error: `OpenAI could not generate the prompt: ${promptResponse.prompt || 'Request was refused. Please try different instructions.'}`,
-            isPromptGenerated: false,
-          });
-        }
-
-        const trimmedPrompt2 = promptResponse.prompt.trim();
-        if (!trimmedPrompt2 || trimmedPrompt2.length < 3) {
-          logger.error('Step 2 failed: OpenAI returned invalid updated prompt', {
-            length: trimmedPrompt2.length,
-            preview: trimmedPrompt2.substring(0, 50),
-            isPromptGenerated: promptResponse.isPromptGenerated,
-          });
-          
-          // Return early without generating image
-          return res.status(502).json({
-            baseImage: baseImageUpload.url,
-            referenceImages: referenceUploads.map((upload) => upload.url),
-            prompt1: prompt1,
-            prompt2: trimmedPrompt2 || 'Invalid prompt',
-            outputImage: null,
-            error: 'OpenAI did not return a valid updated prompt. Please try again.',
-            isPromptGenerated: false,
-          });
-        }
-        prompt2 = trimmedPrompt2;
-        step2Executed = true; // Step 2 was successfully executed
-        logger.info('Step 2 complete: Prompt updated', {
-          length: prompt2.length,
-          preview: prompt2.substring(0, 100),
-          isPromptGenerated: promptResponse.isPromptGenerated,
-        });
-      } catch (error) {
-        logger.error('Step 2 failed: Prompt editing error', error);
-        
-        // Return early without generating image
-        return res.status(502).json({
-          baseImage: baseImageUpload.url,
-          referenceImages: referenceUploads.map((upload) => upload.url),
-          prompt1: prompt1,
-          prompt2: null,
-          outputImage: null,
-          error: error instanceof Error
-            ? `OpenAI prompt editing failed: ${error.message}`
-            : 'OpenAI prompt editing failed',
-          isPromptGenerated: false,
-        });
-      }
+/**
+ * Re-applies a text overlay (and optional logo) to a stored clean render, e.g.
+ * after editing the copy. Runs synchronously since no generation is involved.
+ */
+router.post(
+  '/overlay',
+  asyncHandler(async (req, res) => {
+    const payload = imageOverlaySchema.parse(req.body);
+    await ensureOverlaysAvailable(payload);
+
+    const { cleanImageKey, ...overlays } = payload;
+    const cleanImage = await loadStoredImage(cleanImageKey, 'cleanImageKey');
+    const result = await imageFlowPipeline.overlay(cleanImage, overlays);
+    return res.status(201).json(result);
+  }),
+);
+
+router.get(
+  '/jobs/:id',
+  asyncHandler(async (req, res) => {
+    const job = imageFlowJobService.get(req.params.id);
+    if (!job) {
+      throw new HttpError(404, `Image flow job ${req.params.id} not found`);
     }
 
-    // ============================================
-    // STEP 3: prompt2 → Gemini/Vertex AI → Generated Image
-    // Only proceed if prompt was successfully generated
-    // ============================================
-    logger.info('Step 3: Generating image with final prompt');
-    const generatedImageBuffer = await geminiService.generateImage(
-      prompt2,
-      {
-        aspectRatio: payload.aspectRatio,
-      },
-    );
+    return res.json(job);
+  }),
+);
 
-    const outputUpload = await storageService.uploadBuffer({
-      buffer: generatedImageBuffer,
-      mimeType: `image/${config.image.outputFormat}`,
-      prefix: 'outputs',
-      extension: config.image.outputFormat,
+/**
+ * Server-Sent Events stream of a job's progress.
+ * Replays events recorded so far (honouring Last-Event-ID on reconnect), then
+ * forwards new events live and closes once the job has finished.
+ */
+router.get(
+  '/jobs/:id/events',
+  asyncHandler(async (req, res) => {
+    const jobId = req.params.id;
+    if (!imageFlowJobService.get(jobId)) {
+      throw new HttpError(404, `Image flow job ${jobId} not found`);
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx-style proxies
+      'X-Accel-Buffering': 'no',
     });
 
-    return res.json({
-      baseImage: baseImageUpload.url,
-      baseImageKey: baseImageUpload.key,
-      referenceImages: referenceUploads.map((upload) => upload.url),
-      referenceImageKeys: referenceUploads.map((upload) => upload.key),
-      prompt1: prompt1,
-      prompt2: prompt2,
-      outputImage: outputUpload.url,
-      outputImageKey: outputUpload.key,
-      isPromptGenerated: true,
-      step2Executed: step2Executed, // Indicate if Step 2 was executed
+    const writeEvent = (event: ImageFlowEventRecord) => {
+      res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    const lastEventId = Number(req.header('Last-Event-ID') ?? 0) || 0;
+    imageFlowJobService.getEvents(jobId, lastEventId).forEach(writeEvent);
+
+    if (imageFlowJobService.isFinished(jobId)) {
+      res.end();
+      return;
+    }
+
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+
+    const unsubscribe = imageFlowJobService.subscribe(jobId, (event) => {
+      writeEvent(event);
+      if (event.type === 'job.succeeded' || event.type === 'job.failed') {
+        cleanup();
+        res.end();
+      }
     });
+
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+    req.on('close', cleanup);
   }),
 );
 
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { CHANNEL_PRESETS } from '../constants/channelPresets';
+
+const router = Router();
+
+/**
+ * Channel preset catalog used by the image-flow `preset` field
+ */
+router.get('/', (_req, res) => {
+  res.json({ presets: CHANNEL_PRESETS });
+});
+
+export const presetsRouter = router;
@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { asyncHandler } from '../middlewares/asyncHandler';
+import { HttpError } from '../middlewares/errorHandler';
+import {
+  PROMPT_TEMPLATE_ROLES,
+  promptTemplateActivateSchema,
+  promptTemplateSchema,
+  promptTemplateUpdateSchema,
+} from '../types/promptTemplate';
+import { promptTemplateService } from '../services/promptTemplateService';
+
+const router = Router();
+
+const roleSchema = z.enum(PROMPT_TEMPLATE_ROLES);
+
+router.get(
+  '/',
+  asyncHandler(async (req, res) => {
+    const role = roleSchema.optional().parse(req.query.role);
+
+    return res.json({
+      promptTemplates: await promptTemplateService.list(role),
+      active: await promptTemplateService.listActive(),
+    });
+  }),
+);
+
+router.post(
+  '/',
+  asyncHandler(async (req, res) => {
+    const template = await promptTemplateService.create(promptTemplateSchema.parse(req.body));
+
+    return res.status(201).json(template);
+  }),
+);
+
+// Roles without an active template fall back to the SYSTEM_PROMPT_* env vars
+router.delete(
+  '/active/:role',
+  asyncHandler(async (req, res) => {
+    const role = roleSchema.parse(req.params.role);
+    const removed = await promptTemplateService.deactivate(role);
+    if (!removed) {
+      throw new HttpError(404, `No prompt template is active for ${role}`);
+    }
+
+    return res.status(204).end();
+  }),
+);
+
+router.get(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const template = await promptTemplateService.get(req.params.id);
+    if (!template) {
+      throw new HttpError(404, `Prompt template ${req.params.id} not found`);
+    }
+
+    return res.json(template);
+  }),
+);
+
+router.patch(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const template = await promptTemplateService.update(
+      req.params.id,
+      promptTemplateUpdateSchema.parse(req.body),
+    );
+    if (!template) {
+      throw new HttpError(404, `Prompt template ${req.params.id} not found`);
+    }
+
+    return res.json(template);
+  }),
+);
+
+// Archives rather than deletes, so runs that recorded the template stay reproducible
+router.delete(
+  '/:id',
+  asyncHandler(async (req, res) => {
+    const archived = await promptTemplateService.archive(req.params.id);
+    if (!archived) {
+      throw new HttpError(404, `Prompt template ${req.params.id} not found`);
+    }
+
+    return res.status(204).end();
+  }),
+);
+
+/**
+ * Makes a template version (the latest by default) the default for its role
+ */
+router.post(
+  '/:id/activate',
+  asyncHandler(async (req, res) => {
+    const { version } = promptTemplateActivateSchema.parse(req.body ?? {});
+    const template = await promptTemplateService.get(req.params.id);
+    if (!template) {
+      throw new HttpError(404, `Prompt template ${req.params.id} not found`);
+    }
+    if (template.archivedAt) {
+      throw new HttpError(409, `Prompt template ${template.id} is archived`);
+    }
+
+    const active = await promptTemplateService.activate(template.id, version);
+    if (!active) {
+      throw new HttpError(404, `Prompt template ${template.id} has no version ${version}`);
+    }
+
+    return res.json({ role: template.role, ...active });
+  }),
+);
+
+export const promptTemplatesRouter = router;
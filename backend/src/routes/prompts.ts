@@ -0,0 +1,115 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middlewares/asyncHandler';
+import { HttpError } from '../middlewares/errorHandler';
+import {
+  imageUpload,
+  loadStoredImage,
+  parseJsonField,
+  validateImage,
+} from '../middlewares/imageUpload';
+import { createOpenAIService, PromptGenerationResponse } from '../services/openaiService';
+import { imageProcessingService } from '../services/imageProcessingService';
+import { moderationService } from '../services/moderationService';
+import { toPromptTemplateUsage } from '../services/promptTemplateService';
+import { experimentService } from '../services/experimentService';
+import { promptTemplateSelectionSchema } from '../types/promptTemplate';
+import { experimentUserIdSchema } from '../types/experiment';
+import { createLogger } from '../utils/logger';
+
+const router = Router();
+const logger = createLogger('promptsRoute');
+
+/**
+ * Step 1 only: describe an image without generating anything.
+ * Accepts an uploaded `image` or an `imageUrl` (storage key or our public URL), and
+ * an optional `promptTemplates` JSON field and `X-User-Id` header like POST
+ * /api/image-flow (only `imageUnderstand` applies here).
+ * The image is analyzed in memory; nothing is uploaded and no image model is called.
+ */
+router.post(
+  '/reconstruct',
+  imageUpload.single('image'),
+  asyncHandler(async (req, res) => {
+    const selection = promptTemplateSelectionSchema
+      .optional()
+      .parse(parseJsonField(req.body.promptTemplates, 'promptTemplates'));
+    const userId = experimentUserIdSchema.parse(req.header('X-User-Id') || undefined);
+    const resolution = await experimentService.resolve(selection, userId, ['imageUnderstand']);
+    const { imageUnderstand } = resolution.promptTemplates;
+    // Same shapes as ImageFlowResult.promptTemplates and .experimentArms; describe-only
+    // runs are not recorded, so they do not show up in experiment reports
+    const promptTemplates = toPromptTemplateUsage({ imageUnderstand });
+    const { experimentArms } = resolution;
+
+    let source: Buffer;
+    if (req.file) {
+      validateImage(req.file, 'Image', 'image');
+      source = req.file.buffer;
+    } else if (typeof req.body.imageUrl === 'string' && req.body.imageUrl) {
+      source = (await loadStoredImage(req.body.imageUrl, 'imageUrl')).buffer;
+    } else {
+      throw new HttpError(400, 'image file or imageUrl is required');
+    }
+    // Upright, metadata-free and downscaled before it reaches OpenAI
+    const image = await imageProcessingService.normalizeInput(source);
+    await moderationService.ensureAllowed(
+      [{ field: req.file ? 'image' : 'imageUrl', image }],
+      'prompts.reconstruct',
+    );
+
+    const openaiService = createOpenAIService();
+
+    logger.info('Reconstructing prompt (describe only)');
+    let promptResponse: PromptGenerationResponse;
+    try {
+      promptResponse = await openaiService.reconstructPromptFromImage(
+        image.buffer,
+        image.mimeType,
+        imageUnderstand?.content,
+      );
+    } catch (error) {
+      logger.error('Prompt reconstruction failed', error);
+      throw new HttpError(
+        502,
+        error instanceof Error
+          ? `OpenAI prompt reconstruction failed: ${error.message}`
+          : 'OpenAI prompt reconstruction failed',
+      );
+    }
+
+    const prompt1 = promptResponse.prompt.trim();
+    if (promptResponse.status === 'refused') {
+      logger.info('Prompt reconstruction refused', {
+        refusalReason: promptResponse.refusalReason,
+        preview: prompt1.substring(0, 100),
+      });
+      return res.json({
+        prompt1: null,
+        isPromptGenerated: false,
+        status: 'refused',
+        refusalReason: promptResponse.refusalReason ?? 'other',
+        refusal: prompt1 || 'Request was refused. Please try with a different image.',
+        promptTemplates,
+        experimentArms,
+      });
+    }
+    if (prompt1.length < 3) {
+      throw new HttpError(502, 'OpenAI did not return a valid reconstructed prompt');
+    }
+
+    // Partial prompts are usable; refusalReason says what was left out
+    return res.json({
+      prompt1,
+      isPromptGenerated: true,
+      status: promptResponse.status,
+      refusalReason: promptResponse.refusalReason,
+      refusal: null,
+      // Field-level description prompt1 was rendered from, when the model returned one
+      scene: promptResponse.scene ?? null,
+      promptTemplates,
+      experimentArms,
+    });
+  }),
+);
+
+export const promptsRouter = router;
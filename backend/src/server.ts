@@ -4,6 +4,12 @@ import morgan from 'morgan';
 import { config } from './config';
 import { imageFlowRouter } from './routes/imageFlow';
 import { imageProxyRouter } from './routes/imageProxy';
+import { promptsRouter } from './routes/prompts';
+import { presetsRouter } from './routes/presets';
+import { brandKitsRouter } from './routes/brandKits';
+import { promptTemplatesRouter } from './routes/promptTemplates';
+import { experimentsRouter } from './routes/experiments';
+import { fontsRouter } from './routes/fonts';
 import { errorHandler } from './middlewares/errorHandler';
 
 const app = express();
@@ -18,6 +24,12 @@ app.get('/health', (_req, res) => {
 
 app.use('/api/image-flow', imageFlowRouter);
 app.use('/api/image-proxy', imageProxyRouter);
+app.use('/api/prompts', promptsRouter);
+app.use('/api/presets', presetsRouter);
+app.use('/api/brand-kits', brandKitsRouter);
+app.use('/api/prompt-templates', promptTemplatesRouter);
+app.use('/api/experiments', experimentsRouter);
+app.use('/api/fonts', fontsRouter);
 app.use(errorHandler);
 
 app.listen(config.port, () => {
@@ -0,0 +1,115 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { BrandKit } from '../types/brandKit';
+
+const logger = createLogger('brandKitService');
+
+export type BrandKitFields = Omit<BrandKit, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Brand kit store persisted as a single JSON file. Kits are few and small, so
+ * the whole file is loaded once and rewritten on every change.
+ */
+export class BrandKitService {
+  private kits: Map<string, BrandKit> | null = null;
+  // Shared by concurrent first calls, so none of them mutates a map that is then replaced
+  private loading: Promise<Map<string, BrandKit>> | null = null;
+  // Serializes writes so concurrent requests never interleave partial files
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string = config.brandKits.filePath) {}
+
+  async list(): Promise<BrandKit[]> {
+    const kits = await this.load();
+    return Array.from(kits.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<BrandKit | undefined> {
+    const kits = await this.load();
+    return kits.get(id);
+  }
+
+  async create(fields: BrandKitFields): Promise<BrandKit> {
+    const kits = await this.load();
+    const now = new Date().toISOString();
+    const kit: BrandKit = { ...fields, id: randomUUID(), createdAt: now, updatedAt: now };
+
+    kits.set(kit.id, kit);
+    await this.persist();
+    logger.info('Brand kit created', { id: kit.id, name: kit.name });
+    return kit;
+  }
+
+  async update(id: string, fields: Partial<BrandKitFields>): Promise<BrandKit | undefined> {
+    const kits = await this.load();
+    const existing = kits.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const kit: BrandKit = {
+      ...existing,
+      ...fields,
+      id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    kits.set(id, kit);
+    await this.persist();
+    return kit;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    const kits = await this.load();
+    if (!kits.delete(id)) {
+      return false;
+    }
+
+    await this.persist();
+    return true;
+  }
+
+  private load(): Promise<Map<string, BrandKit>> {
+    // A failed read is not cached, so the next call tries again
+    this.loading ??= this.read().then(
+      (kits) => (this.kits = kits),
+      (error) => {
+        this.loading = null;
+        throw error;
+      },
+    );
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, BrandKit>> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const stored = JSON.parse(raw) as BrandKit[];
+      return new Map(stored.map((kit) => [kit.id, kit]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return new Map();
+    }
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.kits?.values() ?? []), null, 2);
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash never leaves a truncated store behind
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    // A failed write is reported to its caller but must not block later ones
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export const brandKitService = new BrandKitService();
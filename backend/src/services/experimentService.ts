@@ -0,0 +1,445 @@
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { HttpError } from '../middlewares/errorHandler';
+import {
+  promptTemplateService,
+  PromptTemplateService,
+  resolvePromptTemplate,
+} from './promptTemplateService';
+import {
+  PROMPT_TEMPLATE_ROLES,
+  PromptTemplateRole,
+  PromptTemplateSelection,
+  ResolvedPromptTemplates,
+} from '../types/promptTemplate';
+import {
+  Experiment,
+  ExperimentArm,
+  ExperimentArmAssignment,
+  ExperimentInput,
+  ExperimentMetric,
+  ExperimentReport,
+  ExperimentRun,
+  ExperimentRunStatus,
+  ExperimentUpdate,
+} from '../types/experiment';
+import { ImageFlowOutcome } from '../types/imageFlow';
+
+const logger = createLogger('experimentService');
+
+type ExperimentStore = {
+  experiments: Map<string, Experiment>;
+  runs: ExperimentRun[];
+};
+
+export type ExperimentResolution = {
+  promptTemplates: ResolvedPromptTemplates;
+  // Empty when no running experiment applied
+  experimentArms: ExperimentArmAssignment[];
+};
+
+/**
+ * Picks the arm covering a point in [0, 1), each arm covering a share of the
+ * range proportional to its weight
+ */
+export const pickExperimentArm = (arms: ExperimentArm[], point: number): ExperimentArm => {
+  const total = arms.reduce((sum, arm) => sum + arm.weight, 0);
+  let remaining = point * total;
+  for (const arm of arms) {
+    remaining -= arm.weight;
+    if (remaining < 0) {
+      return arm;
+    }
+  }
+  return arms[arms.length - 1];
+};
+
+// The same user always lands on the same point of an experiment, so assignments are sticky
+const assignmentPoint = (experimentId: string, userId?: string): number => {
+  if (!userId) {
+    return Math.random();
+  }
+  const hash = createHash('sha256').update(`${experimentId}:${userId}`).digest();
+  return hash.readUInt32BE(0) / 0x100000000;
+};
+
+const toRunStatus = (outcome: ImageFlowOutcome | null): ExperimentRunStatus => {
+  if (outcome?.isPromptGenerated) {
+    return 'succeeded';
+  }
+  return outcome?.refusalReason ? 'refused' : 'failed';
+};
+
+const mean = (values: number[]): number | null =>
+  values.length > 0
+    ? Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 100) / 100
+    : null;
+
+const toMetric = (values: number[]): ExperimentMetric => ({
+  count: values.length,
+  mean: mean(values),
+});
+
+/**
+ * A/B experiments between prompt template versions of one role, persisted as a
+ * single JSON file like the prompt template store. A running experiment splits
+ * runs between its arms by weight; a user id keeps a user on the same arm. The
+ * outcome of every assigned image-flow job is recorded so arms can be compared
+ * on refusal rate, judge score and user rating.
+ */
+export class ExperimentService {
+  private store: ExperimentStore | null = null;
+  // Shared by concurrent first calls, so none of them mutates a store that is then replaced
+  private loading: Promise<ExperimentStore> | null = null;
+  // Serializes writes so concurrent requests never interleave partial files
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string = config.experiments.filePath,
+    private readonly templates: PromptTemplateService = promptTemplateService,
+  ) {}
+
+  async list(): Promise<Experiment[]> {
+    const { experiments } = await this.load();
+    return Array.from(experiments.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<Experiment | undefined> {
+    const { experiments } = await this.load();
+    return experiments.get(id);
+  }
+
+  /**
+   * Arm templates must exist and match the experiment's role; their versions
+   * are pinned (latest when none is given) so later edits do not leak into a
+   * running experiment
+   */
+  async create({ arms, status = 'running', ...fields }: ExperimentInput): Promise<Experiment> {
+    const { experiments } = await this.load();
+    const pinnedArms: ExperimentArm[] = [];
+    for (const [index, arm] of arms.entries()) {
+      const template = await this.templates.get(arm.templateId);
+      if (!template || template.archivedAt) {
+        throw new HttpError(400, `arms[${index}]: Prompt template ${arm.templateId} not found`);
+      }
+      if (template.role !== fields.role) {
+        throw new HttpError(
+          400,
+          `arms[${index}]: Prompt template ${arm.templateId} is a ${template.role} template, ` +
+            `not ${fields.role}`,
+        );
+      }
+      const resolved = resolvePromptTemplate(template, arm.version);
+      if (!resolved) {
+        throw new HttpError(
+          400,
+          `arms[${index}]: Prompt template ${arm.templateId} has no version ${arm.version}`,
+        );
+      }
+      pinnedArms.push({ ...arm, id: randomUUID(), version: resolved.version });
+    }
+    if (status === 'running') {
+      await this.ensureNoneRunning(fields.role);
+    }
+
+    const now = new Date().toISOString();
+    const experiment: Experiment = {
+      ...fields,
+      id: randomUUID(),
+      status,
+      arms: pinnedArms,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    experiments.set(experiment.id, experiment);
+    await this.persist();
+    logger.info('Experiment created', {
+      id: experiment.id,
+      name: experiment.name,
+      role: experiment.role,
+      status,
+    });
+    return experiment;
+  }
+
+  async update(id: string, changes: ExperimentUpdate): Promise<Experiment | undefined> {
+    const { experiments } = await this.load();
+    const existing = experiments.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const isResuming = changes.status === 'running' && existing.status !== 'running';
+    if (isResuming) {
+      await this.ensureArmsResolvable(existing);
+      await this.ensureNoneRunning(existing.role);
+    }
+
+    const { pausedReason, ...kept } = existing;
+    const experiment: Experiment = {
+      ...kept,
+      ...(isResuming || !pausedReason ? {} : { pausedReason }),
+      ...changes,
+      id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    experiments.set(id, experiment);
+    await this.persist();
+    if (experiment.status !== existing.status) {
+      logger.info('Experiment status changed', { id, status: experiment.status });
+    }
+    return experiment;
+  }
+
+  // Removes the experiment together with its recorded runs
+  async remove(id: string): Promise<boolean> {
+    const store = await this.load();
+    if (!store.experiments.delete(id)) {
+      return false;
+    }
+
+    store.runs = store.runs.filter((run) => run.experimentId !== id);
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Template versions for a run: prompt templates resolved as usual, with
+   * roles under a running experiment replaced by the user's arm. Roles the
+   * request selected a template for explicitly, and roles the run will not
+   * use (see usedPromptTemplateRoles), are left out of experiments.
+   */
+  async resolve(
+    selection: PromptTemplateSelection = {},
+    userId?: string,
+    roles: readonly PromptTemplateRole[] = PROMPT_TEMPLATE_ROLES,
+  ): Promise<ExperimentResolution> {
+    const promptTemplates = await this.templates.resolve(selection);
+    const experimentArms: ExperimentArmAssignment[] = [];
+
+    for (const experiment of await this.list()) {
+      if (
+        experiment.status !== 'running' ||
+        selection[experiment.role] ||
+        !roles.includes(experiment.role)
+      ) {
+        continue;
+      }
+
+      const arm = pickExperimentArm(experiment.arms, assignmentPoint(experiment.id, userId));
+      const resolved = await this.resolveArm(arm);
+      if (!resolved) {
+        // The arm can no longer be measured, so the experiment stops taking traffic;
+        // this run keeps the regular template and is not recorded
+        await this.pauseUnresolvable(experiment, arm);
+        continue;
+      }
+
+      promptTemplates[experiment.role] = resolved;
+      experimentArms.push({
+        experimentId: experiment.id,
+        armId: arm.id,
+        armName: arm.name,
+        role: experiment.role,
+      });
+    }
+
+    return { promptTemplates, experimentArms };
+  }
+
+  /**
+   * Records how a job assigned to experiment arms ended; a null outcome means
+   * the job failed before the pipeline produced one
+   */
+  async recordRun(run: {
+    jobId: string;
+    experimentArms: ExperimentArmAssignment[];
+    outcome: ImageFlowOutcome | null;
+    userId?: string;
+  }): Promise<void> {
+    if (run.experimentArms.length === 0) {
+      return;
+    }
+
+    const store = await this.load();
+    const status = toRunStatus(run.outcome);
+    const judgeScore = run.outcome?.isPromptGenerated
+      ? mean(
+          (run.outcome.outputQualityScores ?? []).flatMap((score) =>
+            score ? [score.overall] : []),
+        )
+      : null;
+    const createdAt = new Date().toISOString();
+
+    run.experimentArms.forEach(({ experimentId, armId }) => {
+      store.runs.push({
+        jobId: run.jobId,
+        experimentId,
+        armId,
+        ...(run.userId ? { userId: run.userId } : {}),
+        status,
+        ...(judgeScore !== null ? { judgeScore } : {}),
+        createdAt,
+      });
+    });
+    await this.persist();
+    logger.info('Experiment run recorded', { jobId: run.jobId, status });
+  }
+
+  /**
+   * Stores a user's rating of a job's output; returns false when the job was
+   * not part of an experiment
+   */
+  async rate(jobId: string, rating: number): Promise<boolean> {
+    const store = await this.load();
+    const runs = store.runs.filter((run) => run.jobId === jobId);
+    if (runs.length === 0) {
+      return false;
+    }
+
+    // Rating again replaces the earlier rating
+    runs.forEach((run) => {
+      run.rating = rating;
+    });
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Recorded outcomes aggregated per arm
+   */
+  async report(id: string): Promise<ExperimentReport | undefined> {
+    const store = await this.load();
+    const experiment = store.experiments.get(id);
+    if (!experiment) {
+      return undefined;
+    }
+
+    const arms = await Promise.all(experiment.arms.map(async (arm) => {
+      const runs = store.runs.filter(
+        (run) => run.experimentId === id && run.armId === arm.id,
+      );
+      const count = (status: ExperimentRunStatus) =>
+        runs.filter((run) => run.status === status).length;
+      const refused = count('refused');
+
+      return {
+        ...arm,
+        templateAvailable: Boolean(await this.resolveArm(arm)),
+        runs: runs.length,
+        succeeded: count('succeeded'),
+        refused,
+        failed: count('failed'),
+        refusalRate: runs.length > 0
+          ? Math.round((refused / runs.length) * 1000) / 1000
+          : null,
+        judgeScore: toMetric(runs.flatMap((run) => run.judgeScore ?? [])),
+        userRating: toMetric(runs.flatMap((run) => run.rating ?? [])),
+      };
+    }));
+
+    return { experiment, arms };
+  }
+
+  private async resolveArm(arm: ExperimentArm) {
+    const template = await this.templates.get(arm.templateId);
+    return template && resolvePromptTemplate(template, arm.version);
+  }
+
+  private async pauseUnresolvable(experiment: Experiment, arm: ExperimentArm): Promise<void> {
+    const { experiments } = await this.load();
+    const pausedReason =
+      `Arm ${arm.name} no longer resolves to prompt template ${arm.templateId} v${arm.version}`;
+    experiments.set(experiment.id, {
+      ...experiment,
+      status: 'paused',
+      pausedReason,
+      updatedAt: new Date().toISOString(),
+    });
+    await this.persist();
+    logger.error('Experiment paused: arm template is missing', {
+      experimentId: experiment.id,
+      armId: arm.id,
+      templateId: arm.templateId,
+      version: arm.version,
+    });
+  }
+
+  private async ensureArmsResolvable(experiment: Experiment): Promise<void> {
+    for (const arm of experiment.arms) {
+      if (!(await this.resolveArm(arm))) {
+        throw new HttpError(
+          409,
+          `Arm ${arm.name} no longer resolves to prompt template ${arm.templateId} v${arm.version}`,
+        );
+      }
+    }
+  }
+
+  private async ensureNoneRunning(role: PromptTemplateRole): Promise<void> {
+    const running = (await this.list()).find(
+      (experiment) => experiment.role === role && experiment.status === 'running',
+    );
+    if (running) {
+      throw new HttpError(
+        409,
+        `Experiment ${running.id} is already running for ${role}; pause it first`,
+      );
+    }
+  }
+
+  private load(): Promise<ExperimentStore> {
+    // A failed read is not cached, so the next call tries again
+    this.loading ??= this.read().then(
+      (store) => (this.store = store),
+      (error) => {
+        this.loading = null;
+        throw error;
+      },
+    );
+    return this.loading;
+  }
+
+  private async read(): Promise<ExperimentStore> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const stored = JSON.parse(raw) as { experiments: Experiment[]; runs?: ExperimentRun[] };
+      return {
+        experiments: new Map(stored.experiments.map((experiment) => [experiment.id, experiment])),
+        runs: stored.runs ?? [],
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return { experiments: new Map(), runs: [] };
+    }
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(
+      {
+        experiments: Array.from(this.store?.experiments.values() ?? []),
+        runs: this.store?.runs ?? [],
+      },
+      null,
+      2,
+    );
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash never leaves a truncated store behind
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    // A failed write is reported to its caller but must not block later ones
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export const experimentService = new ExperimentService();
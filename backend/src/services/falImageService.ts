@@ -2,6 +2,7 @@ import fetch, { RequestInit, Response } from 'node-fetch';
 import { config } from '../config';
 import { createLogger } from '../utils/logger';
 import { AspectRatioOption } from '../constants/aspectRatio';
+import { DEFAULT_OUTPUT_FORMAT, FAL_OUTPUT_FORMATS } from '../constants/outputFormat';
 
 const logger = createLogger('falImageService');
 
@@ -20,6 +21,8 @@ type FalImageResponse = {
 
 type FalImageOptions = {
   aspectRatio?: AspectRatioOption;
+  // Publicly reachable source images; when set the edit endpoint is used instead of text-to-image
+  imageUrls?: string[];
 };
 
 export class FalImageService {
@@ -33,27 +36,49 @@ export class FalImageService {
     prompt: string,
     options: FalImageOptions = {},
   ): Promise<Buffer> {
+    const [image] = await this.generateImages(prompt, 1, options);
+    return image;
+  }
+
+  /**
+   * Requests several variants of the same prompt in a single fal.ai call
+   */
+  async generateImages(
+    prompt: string,
+    count: number,
+    options: FalImageOptions = {},
+  ): Promise<Buffer[]> {
     if (!config.fal.apiKey) {
       throw new Error(
         'FAL_API_KEY must be configured to use fal.ai as a fallback provider.',
       );
     }
 
-    logger.info('Generating image via fal.ai Gemini 2.5 Flash Image');
+    const isEdit = Boolean(options.imageUrls?.length);
+    logger.info('Generating image via fal.ai Gemini 2.5 Flash Image', {
+      count,
+      isEdit,
+    });
 
-    const falResponse = await this.httpClient(config.fal.endpoint, {
-      method: 'POST',
-      headers: {
-        Authorization: `Key ${config.fal.apiKey}`,
-        'Content-Type': 'application/json',
+    const falResponse = await this.httpClient(
+      isEdit ? config.fal.editEndpoint : config.fal.endpoint,
+      {
+        method: 'POST',
+        headers: {
+          Authorization: `Key ${config.fal.apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          prompt,
+          ...(isEdit ? { image_urls: options.imageUrls } : {}),
+          num_images: count,
+          aspect_ratio: options.aspectRatio ?? config.fal.aspectRatio,
+          output_format: FAL_OUTPUT_FORMATS.includes(config.image.outputFormat)
+            ? config.image.outputFormat
+            : DEFAULT_OUTPUT_FORMAT,
+        }),
       },
-      body: JSON.stringify({
-        prompt,
-        num_images: 1,
-        aspect_ratio: options.aspectRatio ?? config.fal.aspectRatio,
-        output_format: config.image.outputFormat,
-      }),
-    });
+    );
 
     if (!falResponse.ok) {
       const responseBody = await falResponse.text();
@@ -63,12 +88,18 @@ export class FalImageService {
     }
 
     const payload = (await falResponse.json()) as FalImageResponse;
-    const imageUrl = payload.images?.[0]?.url;
+    const imageUrls = (payload.images ?? [])
+      .map((image) => image.url)
+      .filter((url): url is string => Boolean(url));
 
-    if (!imageUrl) {
+    if (imageUrls.length === 0) {
       throw new Error('fal.ai response did not include an image URL.');
     }
 
+    return Promise.all(imageUrls.map((imageUrl) => this.download(imageUrl)));
+  }
+
+  private async download(imageUrl: string): Promise<Buffer> {
     const imageResponse = await this.httpClient(imageUrl);
     if (!imageResponse.ok) {
       throw new Error(
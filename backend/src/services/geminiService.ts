@@ -21,8 +21,22 @@ const defaultModel = vertexAI.preview.getGenerativeModel({
 
 type GenerativeModel = ReturnType<typeof vertexAI.preview.getGenerativeModel>;
 
+export type SourceImage = {
+  buffer: Buffer;
+  mimeType: string;
+  // Public URL of the stored copy, needed by the fal.ai edit endpoint
+  url: string;
+};
+
 type ImageGenerationOptions = {
   aspectRatio?: AspectRatioOption;
+  // Edit mode: base image first, then reference images, sent alongside the prompt
+  sourceImages?: SourceImage[];
+};
+
+export type ImageGenerationHooks = {
+  // Called right before a request is rerouted to the fal.ai fallback
+  onFallback?: (reason: string) => void;
 };
 
 const RESOURCE_EXHAUSTED_CODE = 8;
@@ -37,6 +51,7 @@ export class GeminiService {
   async generateImage(
     prompt: string,
     options: ImageGenerationOptions = {},
+    hooks: ImageGenerationHooks = {},
   ): Promise<Buffer> {
     const resolvedOptions: ImageGenerationOptions = {
       ...options,
@@ -50,7 +65,11 @@ export class GeminiService {
         logger.info(
           'Vertex AI quota exhausted, routing request to fal.ai fallback',
         );
-        return this.fallbackService.generateImage(prompt, resolvedOptions);
+        hooks.onFallback?.('Vertex AI quota exhausted');
+        return this.fallbackService.generateImage(
+          prompt,
+          this.toFallbackOptions(resolvedOptions),
+        );
       }
 
       logger.error('Gemini Vertex AI image generation failed', error);
@@ -58,16 +77,86 @@ export class GeminiService {
     }
   }
 
+  /**
+   * Generates several variants of the same prompt. Vertex returns one image per
+   * call, so variants are requested in parallel; any variant that fails on quota
+   * is made up for with a single multi-image fal.ai request.
+   */
+  async generateImages(
+    prompt: string,
+    count: number,
+    options: ImageGenerationOptions = {},
+    hooks: ImageGenerationHooks = {},
+  ): Promise<Buffer[]> {
+    if (count <= 1) {
+      return [await this.generateImage(prompt, options, hooks)];
+    }
+
+    const resolvedOptions: ImageGenerationOptions = {
+      ...options,
+      aspectRatio: options.aspectRatio ?? config.fal.aspectRatio,
+    };
+
+    const attempts = await Promise.allSettled(
+      Array.from({ length: count }, () =>
+        this.generateWithVertex(prompt, resolvedOptions),
+      ),
+    );
+
+    const images: Buffer[] = [];
+    const failures: unknown[] = [];
+    attempts.forEach((attempt) => {
+      if (attempt.status === 'fulfilled') {
+        images.push(attempt.value);
+      } else {
+        failures.push(attempt.reason);
+      }
+    });
+
+    if (failures.length === 0) {
+      return images;
+    }
+
+    const nonQuotaFailure = failures.find(
+      (failure) => !this.isQuotaExhaustedError(failure),
+    );
+    if (nonQuotaFailure) {
+      logger.error('Gemini Vertex AI variant generation failed', nonQuotaFailure);
+      throw nonQuotaFailure;
+    }
+
+    logger.info(
+      'Vertex AI quota exhausted, routing remaining variants to fal.ai fallback',
+      { missing: failures.length },
+    );
+    hooks.onFallback?.('Vertex AI quota exhausted');
+    const fallbackImages = await this.fallbackService.generateImages(
+      prompt,
+      failures.length,
+      this.toFallbackOptions(resolvedOptions),
+    );
+    return [...images, ...fallbackImages];
+  }
+
   private async generateWithVertex(
     prompt: string,
     options: ImageGenerationOptions,
   ): Promise<Buffer> {
-    logger.info('Generating image via Vertex AI Gemini');
+    const sourceImages = options.sourceImages ?? [];
+    logger.info('Generating image via Vertex AI Gemini', {
+      sourceImages: sourceImages.length,
+    });
     const request: Parameters<GenerativeModel['generateContent']>[0] = {
       contents: [
         {
           role: 'user',
           parts: [
+            ...sourceImages.map((image) => ({
+              inlineData: {
+                mimeType: image.mimeType,
+                data: image.buffer.toString('base64'),
+              },
+            })),
             {
               text: prompt,
             },
@@ -95,6 +184,18 @@ export class GeminiService {
     return Buffer.from(inlineData.inlineData.data, 'base64');
   }
 
+  private toFallbackOptions(options: ImageGenerationOptions) {
+    const { sourceImages, ...fallbackOptions } = options;
+    if (!sourceImages?.length) {
+      return fallbackOptions;
+    }
+
+    return {
+      ...fallbackOptions,
+      imageUrls: sourceImages.map((image) => image.url),
+    };
+  }
+
   private buildVertexGenerationConfig(
     options: ImageGenerationOptions,
   ): Record<string, unknown> | undefined {
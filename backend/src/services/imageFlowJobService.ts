@@ -0,0 +1,171 @@
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import {
+  imageFlowPipeline,
+  ImageFlowHooks,
+  ImageFlowInput,
+  ImageFlowPipeline,
+  RenderSourceImages,
+} from './imageFlowPipeline';
+import {
+  ImageFlowEvent,
+  ImageFlowEventRecord,
+  ImageFlowJob,
+  ImageFlowOutcome,
+  ImageRenderPayload,
+} from '../types/imageFlow';
+
+const logger = createLogger('imageFlowJobService');
+
+export type ImageFlowEventListener = (event: ImageFlowEventRecord) => void;
+
+type ImageFlowTask = (hooks: ImageFlowHooks) => Promise<ImageFlowOutcome>;
+
+/**
+ * Runs image-flow pipelines in the background so the HTTP request that
+ * submitted them can return immediately. Jobs and their progress events are
+ * kept in memory and pruned once they have been finished for longer than the
+ * configured TTL.
+ */
+export class ImageFlowJobService {
+  private readonly jobs = new Map<string, ImageFlowJob>();
+  private readonly events = new Map<string, ImageFlowEventRecord[]>();
+  private readonly emitter = new EventEmitter();
+
+  constructor(
+    private readonly pipeline: ImageFlowPipeline = imageFlowPipeline,
+    private readonly ttlMs: number = config.jobs.ttlMs,
+  ) {}
+
+  /**
+   * Queue the full three-step pipeline
+   */
+  submit(input: ImageFlowInput): ImageFlowJob {
+    return this.start((hooks) => this.pipeline.run(input, hooks));
+  }
+
+  /**
+   * Queue Step 3 only for an already edited final prompt
+   */
+  submitRender(input: ImageRenderPayload, images: RenderSourceImages): ImageFlowJob {
+    return this.start((hooks) => this.pipeline.render(input, images, hooks));
+  }
+
+  private start(task: ImageFlowTask): ImageFlowJob {
+    this.pruneExpired();
+
+    const now = new Date().toISOString();
+    const job: ImageFlowJob = {
+      id: crypto.randomUUID(),
+      status: 'queued',
+      step: null,
+      createdAt: now,
+      updatedAt: now,
+      result: null,
+      error: null,
+    };
+    this.jobs.set(job.id, job);
+    this.events.set(job.id, []);
+    logger.info('Image flow job queued', { jobId: job.id });
+
+    const snapshot = { ...job };
+    // Not awaited: the pipeline keeps running after the submitting request has been answered
+    void this.execute(job.id, task);
+
+    return snapshot;
+  }
+
+  get(id: string): ImageFlowJob | undefined {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  isFinished(id: string): boolean {
+    const status = this.jobs.get(id)?.status;
+    return status === 'succeeded' || status === 'failed';
+  }
+
+  /**
+   * Events recorded so far, optionally only those after a given event ID
+   * (SSE clients resume from Last-Event-ID after a reconnect)
+   */
+  getEvents(id: string, afterId = 0): ImageFlowEventRecord[] {
+    return (this.events.get(id) ?? []).filter((event) => event.id > afterId);
+  }
+
+  /**
+   * Subscribe to events recorded from now on; returns an unsubscribe function
+   */
+  subscribe(id: string, listener: ImageFlowEventListener): () => void {
+    this.emitter.on(id, listener);
+    return () => {
+      this.emitter.off(id, listener);
+    };
+  }
+
+  private async execute(id: string, task: ImageFlowTask): Promise<void> {
+    this.update(id, { status: 'running' });
+
+    try {
+      const outcome = await task({
+        onStep: (step) => {
+          logger.info('Image flow job advanced', { jobId: id, step });
+          this.update(id, { step });
+          this.record(id, { type: 'step', step });
+        },
+        onEvent: (event) => this.record(id, event),
+      });
+
+      if (outcome.isPromptGenerated) {
+        this.update(id, { status: 'succeeded', result: outcome });
+        this.record(id, { type: 'job.succeeded', result: outcome });
+      } else {
+        this.update(id, {
+          status: 'failed',
+          result: outcome,
+          error: outcome.error,
+        });
+        this.record(id, { type: 'job.failed', error: outcome.error, result: outcome });
+      }
+    } catch (error) {
+      logger.error('Image flow job failed', error);
+      const message = error instanceof Error ? error.message : 'Image flow failed';
+      this.update(id, { status: 'failed', error: message });
+      this.record(id, { type: 'job.failed', error: message, result: null });
+    }
+  }
+
+  private record(id: string, event: ImageFlowEvent): void {
+    const events = this.events.get(id);
+    if (!events) return;
+
+    const record: ImageFlowEventRecord = {
+      ...event,
+      id: events.length + 1,
+      timestamp: new Date().toISOString(),
+    };
+    events.push(record);
+    this.emitter.emit(id, record);
+  }
+
+  private update(id: string, changes: Partial<ImageFlowJob>): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  }
+
+  private pruneExpired(): void {
+    const cutoff = Date.now() - this.ttlMs;
+    for (const [id, job] of this.jobs) {
+      const isFinished = job.status === 'succeeded' || job.status === 'failed';
+      if (isFinished && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+        this.events.delete(id);
+      }
+    }
+  }
+}
+
+export const imageFlowJobService = new ImageFlowJobService();
@@ -0,0 +1,1044 @@
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { storageService, StorageService } from './storageService';
+import { geminiService, GeminiService, SourceImage } from './geminiService';
+import {
+  createOpenAIService,
+  OpenAIService,
+  PromptGenerationResponse,
+} from './openaiService';
+import {
+  ImageFlowEvent,
+  ImageFlowFailure,
+  ImageFlowOutcome,
+  ImageFlowPayload,
+  ImageFlowRender,
+  ImageFlowResult,
+  ImageFlowStep,
+  ImageOverlayPayload,
+  ImageOverlayResult,
+  ImageRenderPayload,
+} from '../types/imageFlow';
+import { BrandKitContext } from '../types/brandKit';
+import { MarketingCopyRequest, MarketingCopyVariant } from '../types/marketingCopy';
+import { ImageAltText } from '../types/altText';
+import { OutputQualityScore } from '../types/qualityScore';
+import { PromptWarning } from '../types/promptGeneration';
+import { SceneDescription, SceneField } from '../types/sceneDescription';
+import { PromptTemplateRole, ResolvedPromptTemplates } from '../types/promptTemplate';
+import { ExperimentArmAssignment } from '../types/experiment';
+import {
+  SelfCorrectionAttempt,
+  SelfCorrectionReport,
+  SelfCorrectionRequest,
+} from '../types/selfCorrection';
+import { COPY_CHANNEL_IDS } from '../constants/copyChannels';
+import { DEFAULT_IMAGE_FLOW_MODE } from '../constants/imageFlowMode';
+import { AspectRatioOption } from '../constants/aspectRatio';
+import { ChannelPreset, getChannelPreset } from '../constants/channelPresets';
+import { OutputFormat } from '../constants/outputFormat';
+import { Rendition, RenditionRequest } from '../types/rendition';
+import {
+  ImageThumbnails,
+  THUMBNAIL_SIZES,
+  THUMBNAIL_WIDTHS,
+} from '../types/thumbnail';
+import {
+  imageProcessingService,
+  ImageProcessingService,
+} from './imageProcessingService';
+import { textOverlayService, TextOverlayService } from './textOverlayService';
+import { renderScenePrompt } from '../utils/scenePrompt';
+import { toPromptTemplateUsage } from './promptTemplateService';
+
+const logger = createLogger('imageFlowPipeline');
+
+const THUMBNAIL_QUALITY = 75;
+// Outputs are described and judged from downscaled JPEGs, which every vision model accepts
+const VISION_PREVIEW_WIDTH = 1024;
+
+export type ImageInput = {
+  buffer: Buffer;
+  mimeType: string;
+  // Set when the image already lives in storage, so it is not uploaded again
+  key?: string;
+};
+
+export type ImageFlowInput = {
+  baseImage: ImageInput;
+  referenceImages: ImageInput[];
+  payload: ImageFlowPayload;
+  // Resolved from payload.brandKitId by the caller
+  brandKit?: BrandKitContext;
+  // Resolved from payload.promptTemplates and the activated templates by the caller;
+  // roles left out use the env system prompts
+  promptTemplates?: ResolvedPromptTemplates;
+  // Experiment arms that picked some of promptTemplates, recorded on the outcome
+  experimentArms?: ExperimentArmAssignment[];
+};
+
+// Stored inputs of a Step 3 only render, loaded by the caller from the payload's keys
+export type RenderSourceImages = {
+  baseImage: ImageInput;
+  referenceImages: ImageInput[];
+};
+
+type StoredObject = {
+  key: string;
+  url: string;
+};
+
+type OutputUpload = StoredObject & {
+  // Set for aspect ratio pack renders
+  aspectRatio?: AspectRatioOption;
+  // Copy without overlays, set when a logo or text overlay was applied
+  clean?: StoredObject;
+  // Set when renditions were requested
+  renditions?: Rendition[];
+  thumbnails?: ImageThumbnails;
+  altText?: ImageAltText;
+  qualityScore?: OutputQualityScore;
+};
+
+// What the quality judge compares each output with
+type JudgeContext = {
+  baseImage: Pick<ImageInput, 'buffer' | 'mimeType'>;
+  instructions: string;
+  brandKit?: BrandKitContext;
+};
+
+// One Step 3 render of a final prompt
+type RenderAttempt = {
+  prompt2: string;
+  outputUploads: OutputUpload[];
+};
+
+type Overlays = Pick<ImageFlowPayload, 'logo' | 'textOverlay'>;
+
+type OutputOptions = Overlays &
+  Pick<
+    ImageFlowPayload,
+    'aspectRatio' | 'aspectRatios' | 'preset' | 'renditions' | 'variantCount'
+  >;
+
+export type ImageFlowHooks = {
+  onStep?: (step: ImageFlowStep) => void;
+  onEvent?: (event: ImageFlowEvent) => void;
+};
+
+/**
+ * Prompt template roles a run will use. The promptEditor template only runs in
+ * Step 2, which is skipped without user instructions or a brand kit, and in
+ * self-correction revisions.
+ */
+export const usedPromptTemplateRoles = (
+  payload: Pick<ImageFlowPayload, 'userPrompt' | 'selfCorrection'>,
+  hasBrandKit: boolean,
+): PromptTemplateRole[] =>
+  payload.userPrompt?.trim() || hasBrandKit || payload.selfCorrection
+    ? ['imageUnderstand', 'promptEditor']
+    : ['imageUnderstand'];
+
+/**
+ * Runs the three-step image flow:
+ * 1. Base image → OpenAI (systemPrompt1) → scene1, rendered as prompt1
+ * 2. scene1 + user instructions + reference images → OpenAI (systemPrompt2) → scene2,
+ *    rendered as prompt2 (only the fields the instructions touch are rewritten)
+ * 3. prompt2 → Gemini/Vertex AI → generated image
+ *    (in edit mode the base and reference images are sent along with prompt2;
+ *    with aspectRatios set, this step runs once per ratio)
+ *
+ * Prompt step failures resolve to an ImageFlowFailure so callers can surface
+ * whatever was produced before the failure; storage and generation errors throw.
+ */
+export class ImageFlowPipeline {
+  constructor(
+    private readonly storage: StorageService = storageService,
+    private readonly generator: GeminiService = geminiService,
+    private readonly openaiFactory: () => OpenAIService = createOpenAIService,
+    private readonly imageProcessor: ImageProcessingService = imageProcessingService,
+    private readonly textRenderer: TextOverlayService = textOverlayService,
+  ) {}
+
+  async run(
+    input: ImageFlowInput,
+    hooks: ImageFlowHooks = {},
+  ): Promise<ImageFlowOutcome> {
+    const { payload } = input;
+    // Templates and arms of roles this run never uses are left out, so they are not recorded
+    const roles = usedPromptTemplateRoles(payload, Boolean(input.brandKit));
+    const promptTemplates: ResolvedPromptTemplates = {};
+    roles.forEach((role) => {
+      const template = input.promptTemplates?.[role];
+      if (template) {
+        promptTemplates[role] = template;
+      }
+    });
+    const experimentArms = (input.experimentArms ?? []).filter((arm) =>
+      roles.includes(arm.role),
+    );
+    const templateUsage = toPromptTemplateUsage(promptTemplates);
+    // Recorded on success and failure alike, so every run can be reproduced
+    const templateFields = {
+      ...(Object.keys(templateUsage).length > 0 ? { promptTemplates: templateUsage } : {}),
+      ...(experimentArms.length > 0 ? { experimentArms } : {}),
+    };
+    const [baseImage, ...referenceImages] = await Promise.all(
+      [input.baseImage, ...input.referenceImages].map((image) => this.normalizeInput(image)),
+    );
+    // Brand kit assets reach OpenAI and the judge like reference images, so they are normalized too
+    const brandKit = input.brandKit && {
+      ...input.brandKit,
+      assets: await Promise.all(
+        input.brandKit.assets.map((asset) => this.normalizeInput(asset)),
+      ),
+    };
+
+    // Upload new images to storage; previously stored assets are reused as-is
+    const baseImageUpload = await this.storeInput(baseImage);
+    const referenceUploads = await Promise.all(
+      referenceImages.map((image) => this.storeInput(image)),
+    );
+    // Runs alongside the prompt steps; never rejects
+    const inputThumbnails = Promise.all(
+      [baseImage, ...referenceImages].map((image) => this.storeThumbnails(image.buffer)),
+    );
+
+    hooks.onEvent?.({
+      type: 'uploads.stored',
+      baseImage: baseImageUpload.url,
+      referenceImages: referenceUploads.map((upload) => upload.url),
+    });
+
+    const fail = (
+      failure: Pick<ImageFlowFailure, 'prompt1' | 'prompt2' | 'error' | 'refusalReason'>,
+    ): ImageFlowFailure => ({
+      baseImage: baseImageUpload.url,
+      referenceImages: referenceUploads.map((upload) => upload.url),
+      outputImage: null,
+      isPromptGenerated: false,
+      ...templateFields,
+      ...failure,
+    });
+
+    // Initialize OpenAI service
+    const openaiService = this.openaiFactory();
+    // Prompt steps that left part of the image or instructions out
+    const promptWarnings: PromptWarning[] = [];
+
+    // ============================================
+    // STEP 1: Base Image → OpenAI (systemPrompt1) → prompt1
+    // ============================================
+    hooks.onStep?.('reconstruct');
+    logger.info('Step 1: Reconstructing prompt from base image');
+    let prompt1: string;
+    // Set unless Step 1 answered with a plain-text prompt
+    let scene1: SceneDescription | undefined;
+    try {
+      const promptResponse1: PromptGenerationResponse =
+        await openaiService.reconstructPromptFromImage(
+          baseImage.buffer,
+          baseImage.mimeType,
+          promptTemplates.imageUnderstand?.content,
+        );
+
+      // Check if prompt was successfully generated
+      if (promptResponse1.status === 'refused') {
+        logger.error('Step 1 failed: OpenAI refused to generate prompt', {
+          prompt: promptResponse1.prompt,
+          refusalReason: promptResponse1.refusalReason,
+        });
+
+        // Return early without proceeding to Step 2 and Step 3
+        return fail({
+          prompt1: promptResponse1.prompt || 'Prompt reconstruction failed',
+          prompt2: null,
+          error: `OpenAI could not reconstruct the prompt: ${promptResponse1.prompt || 'Request was refused. Please try with a different image.'}`,
+          refusalReason: promptResponse1.refusalReason ?? 'other',
+        });
+      }
+      if (promptResponse1.status === 'partial') {
+        promptWarnings.push({
+          step: 'reconstruct',
+          refusalReason: promptResponse1.refusalReason ?? 'other',
+        });
+      }
+
+      const trimmedPrompt1 = promptResponse1.prompt.trim();
+      if (!trimmedPrompt1 || trimmedPrompt1.length < 3) {
+        logger.error('Step 1 failed: OpenAI returned invalid prompt', {
+          length: trimmedPrompt1.length,
+          preview: trimmedPrompt1.substring(0, 50),
+        });
+
+        // Return early without proceeding to Step 2 and Step 3
+        return fail({
+          prompt1: trimmedPrompt1 || 'Invalid prompt',
+          prompt2: null,
+          error: 'OpenAI did not return a valid reconstructed prompt. Please try again with a different image.',
+        });
+      }
+      prompt1 = trimmedPrompt1;
+      scene1 = promptResponse1.scene;
+      logger.info('Step 1 complete: Prompt reconstructed', {
+        length: prompt1.length,
+        preview: prompt1.substring(0, 100),
+        structured: scene1 !== undefined,
+      });
+      hooks.onEvent?.({ type: 'prompt1.ready', prompt1, ...(scene1 ? { scene: scene1 } : {}) });
+    } catch (error) {
+      logger.error('Step 1 failed: Prompt reconstruction error', error);
+
+      // Return early without proceeding to Step 2 and Step 3
+      return fail({
+        prompt1: null,
+        prompt2: null,
+        error: error instanceof Error
+          ? `OpenAI prompt reconstruction failed: ${error.message}`
+          : 'OpenAI prompt reconstruction failed',
+      });
+    }
+
+    // ============================================
+    // STEP 2: prompt1 + User Instructions + Reference Images (+ Brand Kit) → OpenAI (systemPrompt2) → prompt2
+    // Skip Step 2 if userPrompt is empty/not provided and no brand kit applies - use prompt1 directly for Step 3
+    // ============================================
+    let prompt2: string;
+    let step2Executed = false; // Track if Step 2 was actually executed
+    let scene2: SceneDescription | undefined;
+    let sceneChanges: SceneField[] = [];
+
+    // Check if user provided modification instructions
+    const userPrompt = payload.userPrompt?.trim() || '';
+    const hasUserInstructions = userPrompt.length > 0;
+
+    if (!hasUserInstructions && !brandKit) {
+      // Skip Step 2: Use prompt1 directly for image generation
+      logger.info('Step 2 skipped: No user instructions provided, using prompt1 directly');
+      prompt2 = prompt1;
+      scene2 = scene1;
+      step2Executed = false;
+      hooks.onEvent?.({ type: 'prompt2.skipped', prompt2 });
+    } else {
+      // Proceed with Step 2: Apply user instructions to prompt1
+      hooks.onStep?.('edit');
+      logger.info('Step 2: Applying user instructions to prompt');
+      try {
+        // Prepare reference images if provided
+        const referenceImageBuffers =
+          referenceImages.length > 0 ? referenceImages : undefined;
+
+        // Structured scenes are edited field by field; plain-text prompts as a whole
+        const sceneEdit = scene1
+          ? await openaiService.editScene(
+              scene1,
+              userPrompt,
+              referenceImageBuffers,
+              brandKit,
+              promptTemplates.promptEditor?.content,
+            )
+          : undefined;
+        const promptResponse: PromptGenerationResponse =
+          sceneEdit ??
+          (await openaiService.applyUserInstructions(
+            prompt1,
+            userPrompt,
+            referenceImageBuffers,
+            brandKit,
+            promptTemplates.promptEditor?.content,
+          ));
+
+        // Check if prompt was successfully generated
+        if (promptResponse.status === 'refused') {
+          logger.error('Step 2 failed: OpenAI refused to generate prompt', {
+            prompt: promptResponse.prompt,
+            refusalReason: promptResponse.refusalReason,
+          });
+
+          // Return early without generating image
+          return fail({
+            prompt1,
+            prompt2: promptResponse.prompt || 'Prompt generation failed',
+            error: `OpenAI could not generate the prompt: ${promptResponse.prompt || 'Request was refused. Please try different instructions.'}`,
+            refusalReason: promptResponse.refusalReason ?? 'other',
+          });
+        }
+        if (promptResponse.status === 'partial') {
+          promptWarnings.push({
+            step: 'edit',
+            refusalReason: promptResponse.refusalReason ?? 'other',
+          });
+        }
+
+        const trimmedPrompt2 = promptResponse.prompt.trim();
+        if (!trimmedPrompt2 || trimmedPrompt2.length < 3) {
+          logger.error('Step 2 failed: OpenAI returned invalid updated prompt', {
+            length: trimmedPrompt2.length,
+            preview: trimmedPrompt2.substring(0, 50),
+            isPromptGenerated: promptResponse.isPromptGenerated,
+          });
+
+          // Return early without generating image
+          return fail({
+            prompt1,
+            prompt2: trimmedPrompt2 || 'Invalid prompt',
+            error: 'OpenAI did not return a valid updated prompt. Please try again.',
+          });
+        }
+        prompt2 = trimmedPrompt2;
+        scene2 = sceneEdit?.scene;
+        sceneChanges = sceneEdit?.changedFields ?? [];
+        step2Executed = true; // Step 2 was successfully executed
+        logger.info('Step 2 complete: Prompt updated', {
+          length: prompt2.length,
+          preview: prompt2.substring(0, 100),
+          status: promptResponse.status,
+          ...(sceneEdit ? { changedFields: sceneChanges } : {}),
+        });
+        hooks.onEvent?.({
+          type: 'prompt2.ready',
+          prompt2,
+          ...(sceneEdit ? { scene: sceneEdit.scene, changedFields: sceneChanges } : {}),
+        });
+      } catch (error) {
+        logger.error('Step 2 failed: Prompt editing error', error);
+
+        // Return early without generating image
+        return fail({
+          prompt1,
+          prompt2: null,
+          error: error instanceof Error
+            ? `OpenAI prompt editing failed: ${error.message}`
+            : 'OpenAI prompt editing failed',
+        });
+      }
+    }
+
+    // Copy is written from the final prompt while Step 3 renders; never rejects
+    const marketingCopy = payload.marketingCopy
+      ? this.writeMarketingCopy(
+          openaiService,
+          { prompt: prompt2, userInstructions: userPrompt, brandKit },
+          payload.marketingCopy,
+          hooks,
+        )
+      : Promise.resolve(undefined);
+
+    // Step 3 only runs once a prompt was successfully generated
+    const mode = payload.mode ?? DEFAULT_IMAGE_FLOW_MODE;
+    const sourceImages: SourceImage[] =
+      mode === 'edit'
+        ? [baseImage, ...referenceImages].map((image, index) => ({
+            buffer: image.buffer,
+            mimeType: image.mimeType,
+            url: index === 0 ? baseImageUpload.url : referenceUploads[index - 1].url,
+          }))
+        : [];
+    const judge: JudgeContext = { baseImage, instructions: userPrompt, brandKit };
+    const renderPrompt = async (prompt: string): Promise<RenderAttempt> => ({
+      prompt2: prompt,
+      outputUploads: await this.generateOutputs(prompt, payload, sourceImages, hooks, judge),
+    });
+    const firstAttempt = await renderPrompt(prompt2);
+    const selfCorrection = payload.selfCorrection
+      ? await this.selfCorrect(
+          openaiService,
+          firstAttempt,
+          renderPrompt,
+          payload.selfCorrection,
+          judge,
+          hooks,
+          promptTemplates.promptEditor?.content,
+        )
+      : undefined;
+    const { outputUploads, prompt2: finalPrompt2 } = selfCorrection?.selected ?? firstAttempt;
+    // A self-corrected revision is plain text, so the Step 2 scene no longer describes it
+    const finalScene2 = finalPrompt2 === prompt2 ? scene2 : undefined;
+    const [baseImageThumbnails, ...referenceImageThumbnails] = await inputThumbnails;
+    const marketingCopyVariants = await marketingCopy;
+
+    return {
+      baseImage: baseImageUpload.url,
+      baseImageKey: baseImageUpload.key,
+      referenceImages: referenceUploads.map((upload) => upload.url),
+      referenceImageKeys: referenceUploads.map((upload) => upload.key),
+      ...(baseImageThumbnails ? { baseImageThumbnails } : {}),
+      referenceImageThumbnails: referenceImageThumbnails.map((thumbnails) => thumbnails ?? null),
+      prompt1,
+      prompt2: finalPrompt2,
+      ...(scene1 ? { scene1 } : {}),
+      ...(finalScene2 ? { scene2: finalScene2, sceneChanges } : {}),
+      ...this.toOutputFields(outputUploads),
+      isPromptGenerated: true,
+      step2Executed, // Indicate if Step 2 was executed
+      mode,
+      ...(payload.preset ? { preset: payload.preset } : {}),
+      ...(brandKit ? { brandKitId: brandKit.kit.id } : {}),
+      ...(payload.logo ? { logo: payload.logo } : {}),
+      ...(payload.textOverlay ? { textOverlay: payload.textOverlay } : {}),
+      ...(marketingCopyVariants ? { marketingCopyVariants } : {}),
+      ...(selfCorrection ? { selfCorrection: selfCorrection.report } : {}),
+      ...(promptWarnings.length > 0 ? { promptWarnings } : {}),
+      ...templateFields,
+    };
+  }
+
+  /**
+   * Self-correction loop: while the judge scores the latest render below the
+   * threshold, prompt2 is revised from the critique and rendered again. A
+   * missing score or a failed retry ends the loop with the attempts so far;
+   * the best scored attempt is returned, with every attempt kept for audit.
+   */
+  private async selfCorrect(
+    openaiService: OpenAIService,
+    firstAttempt: RenderAttempt,
+    renderPrompt: (prompt2: string) => Promise<RenderAttempt>,
+    request: SelfCorrectionRequest,
+    judge: JudgeContext,
+    hooks: ImageFlowHooks,
+    editorSystemPrompt?: string,
+  ): Promise<{ selected: RenderAttempt; report: SelfCorrectionReport }> {
+    const { threshold, maxAttempts } = request;
+    const attempts = [firstAttempt];
+    let latest = firstAttempt;
+
+    while (attempts.length < maxAttempts) {
+      const score = latest.outputUploads[0].qualityScore;
+      if (!score || score.overall >= threshold) break;
+
+      const attempt = attempts.length + 1;
+      logger.info('Self-correction: output below threshold, revising prompt', {
+        attempt,
+        score: score.overall,
+        threshold,
+      });
+      hooks.onEvent?.({
+        type: 'selfCorrection.retry',
+        attempt,
+        maxAttempts,
+        previousScore: score.overall,
+        threshold,
+      });
+      try {
+        hooks.onStep?.('edit');
+        const revision = await openaiService.revisePromptFromCritique({
+          prompt: latest.prompt2,
+          critique: score,
+          userInstructions: judge.instructions,
+          brandKit: judge.brandKit,
+          systemPrompt: editorSystemPrompt,
+        });
+        const revisedPrompt = revision.prompt.trim();
+        if (revision.status === 'refused' || revisedPrompt.length < 3) {
+          throw new Error('OpenAI did not return a revised prompt');
+        }
+        latest = await renderPrompt(revisedPrompt);
+        attempts.push(latest);
+      } catch (error) {
+        logger.error('Self-correction attempt failed', { attempt, error });
+        break;
+      }
+    }
+
+    const overallOf = (candidate: RenderAttempt) =>
+      candidate.outputUploads[0].qualityScore?.overall ?? 0;
+    // Later attempts win ties, since they had more feedback
+    const selected = attempts.reduce((best, candidate) =>
+      overallOf(candidate) >= overallOf(best) ? candidate : best,
+    );
+    const history: SelfCorrectionAttempt[] = attempts.map((candidate, index) => {
+      const [upload] = candidate.outputUploads;
+      return {
+        attempt: index + 1,
+        prompt2: candidate.prompt2,
+        outputImage: upload.url,
+        outputImageKey: upload.key,
+        ...(upload.thumbnails ? { thumbnails: upload.thumbnails } : {}),
+        qualityScore: upload.qualityScore ?? null,
+      };
+    });
+
+    return {
+      selected,
+      report: {
+        threshold,
+        maxAttempts,
+        attempts: history,
+        selectedAttempt: attempts.indexOf(selected) + 1,
+        accepted: overallOf(selected) >= threshold,
+      },
+    };
+  }
+
+  /**
+   * Step 3 only: renders a final prompt (or scene) the user has already edited,
+   * skipping both OpenAI steps. The source images come already loaded from the caller,
+   * which moderated them; their keys are carried through for lineage. Outputs are
+   * judged against the edited prompt, as there are no instructions.
+   */
+  async render(
+    input: ImageRenderPayload,
+    { baseImage, referenceImages }: RenderSourceImages,
+    hooks: ImageFlowHooks = {},
+  ): Promise<ImageFlowResult> {
+    const prompt2 = input.scene ? renderScenePrompt(input.scene) : input.prompt?.trim() ?? '';
+    const referenceImageKeys = input.referenceImageKeys ?? [];
+    const mode = input.mode ?? DEFAULT_IMAGE_FLOW_MODE;
+    const sourceImages: SourceImage[] = mode === 'edit'
+      ? [baseImage, ...referenceImages].map((image, index) => ({
+          buffer: image.buffer,
+          mimeType: image.mimeType,
+          url: this.storage.getPublicUrl(
+            index === 0 ? input.baseImageKey : referenceImageKeys[index - 1],
+          ),
+        }))
+      : [];
+    const outputUploads = await this.generateOutputs(
+      prompt2,
+      input,
+      sourceImages,
+      hooks,
+      { baseImage, instructions: prompt2 },
+    );
+
+    return {
+      baseImage: this.storage.getPublicUrl(input.baseImageKey),
+      baseImageKey: input.baseImageKey,
+      referenceImages: referenceImageKeys.map((key) => this.storage.getPublicUrl(key)),
+      referenceImageKeys,
+      prompt1: input.prompt1?.trim() || prompt2,
+      prompt2,
+      ...(input.scene ? { scene2: input.scene } : {}),
+      ...this.toOutputFields(outputUploads),
+      isPromptGenerated: true,
+      step2Executed: false,
+      mode,
+      ...(input.preset ? { preset: input.preset } : {}),
+      ...(input.logo ? { logo: input.logo } : {}),
+      ...(input.textOverlay ? { textOverlay: input.textOverlay } : {}),
+    };
+  }
+
+  /**
+   * Optional copy step. Best effort: a failure is logged and the result simply
+   * carries no copy, since the images are what the job is for.
+   */
+  private async writeMarketingCopy(
+    openaiService: OpenAIService,
+    context: Pick<
+      Parameters<OpenAIService['generateMarketingCopy']>[0],
+      'prompt' | 'userInstructions' | 'brandKit'
+    >,
+    request: MarketingCopyRequest,
+    hooks: ImageFlowHooks,
+  ): Promise<MarketingCopyVariant[] | undefined> {
+    logger.info('Writing marketing copy', { variantCount: request.variantCount });
+    try {
+      const variants = await openaiService.generateMarketingCopy({
+        ...context,
+        channels: request.channels ?? COPY_CHANNEL_IDS,
+        variantCount: request.variantCount,
+      });
+      hooks.onEvent?.({ type: 'marketingCopy.ready', variantCount: variants.length });
+      return variants;
+    } catch (error) {
+      logger.error('Marketing copy generation failed', { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Rotated upright, stripped of metadata and downscaled before anything is stored
+   * or sent to OpenAI. Stored inputs keep their key and are not uploaded again.
+   */
+  private async normalizeInput(image: ImageInput): Promise<ImageInput> {
+    const normalized = await this.imageProcessor.normalizeInput(image.buffer);
+    return { ...image, ...normalized };
+  }
+
+  private async storeInput(image: ImageInput): Promise<{ key: string; url: string }> {
+    if (image.key) {
+      return { key: image.key, url: this.storage.getPublicUrl(image.key) };
+    }
+
+    return this.storage.uploadBuffer({
+      buffer: image.buffer,
+      mimeType: image.mimeType,
+      prefix: 'inputs',
+    });
+  }
+
+  // ============================================
+  // STEP 3: prompt2 (+ source images in edit mode) → Gemini/Vertex AI → Generated Image(s) → storage
+  // ============================================
+  private async generateOutputs(
+    prompt2: string,
+    options: OutputOptions,
+    sourceImages: SourceImage[],
+    hooks: ImageFlowHooks,
+    judge?: JudgeContext,
+  ): Promise<OutputUpload[]> {
+    hooks.onStep?.('generate');
+    const generationHooks = {
+      onFallback: (reason: string) =>
+        hooks.onEvent?.({
+          type: 'generation.fallback',
+          from: 'vertex',
+          to: 'fal',
+          reason,
+        }),
+    };
+    const generationOptions = (aspectRatio?: AspectRatioOption) =>
+      sourceImages.length > 0 ? { aspectRatio, sourceImages } : { aspectRatio };
+
+    // Channel pack: one render per ratio, all ratios generated in parallel
+    const aspectRatios = options.aspectRatios ?? [];
+    if (aspectRatios.length > 0) {
+      logger.info('Step 3: Generating aspect ratio pack with final prompt', {
+        aspectRatios,
+        sourceImages: sourceImages.length,
+      });
+      return Promise.all(
+        aspectRatios.map(async (aspectRatio, index) => {
+          const [buffer] = await this.generator.generateImages(
+            prompt2,
+            1,
+            generationOptions(aspectRatio),
+            generationHooks,
+          );
+          return this.uploadOutput(
+            buffer,
+            {
+              variantIndex: index,
+              variantCount: aspectRatios.length,
+              format: config.image.outputFormat,
+              aspectRatio,
+              overlays: { logo: options.logo, textOverlay: options.textOverlay },
+              renditions: options.renditions,
+              judge,
+            },
+            hooks,
+          );
+        }),
+      );
+    }
+
+    // Channel preset: fixed ratio, prompt suffix, and exact output size/format
+    const preset = getChannelPreset(options.preset);
+    const variantCount = options.variantCount ?? 1;
+    logger.info('Step 3: Generating image with final prompt', {
+      variantCount,
+      preset: preset?.id,
+      sourceImages: sourceImages.length,
+    });
+    const generatedImageBuffers = await this.generator.generateImages(
+      preset?.promptSuffix ? `${prompt2}\n\n${preset.promptSuffix}` : prompt2,
+      variantCount,
+      generationOptions(preset?.aspectRatio ?? options.aspectRatio),
+      generationHooks,
+    );
+
+    return Promise.all(
+      generatedImageBuffers.map(async (buffer, variantIndex) =>
+        this.uploadOutput(
+          preset ? await this.fitToPreset(buffer, preset) : buffer,
+          {
+            variantIndex,
+            variantCount: generatedImageBuffers.length,
+            format: preset?.outputFormat ?? config.image.outputFormat,
+            overlays: { logo: options.logo, textOverlay: options.textOverlay },
+            renditions: options.renditions,
+            judge,
+          },
+          hooks,
+        ),
+      ),
+    );
+  }
+
+  private fitToPreset(buffer: Buffer, preset: ChannelPreset): Promise<Buffer> {
+    return this.imageProcessor.resize(buffer, {
+      width: preset.width,
+      height: preset.height,
+      format: preset.outputFormat,
+    });
+  }
+
+  /**
+   * Post-processing → storage. The render is transcoded to the output format
+   * first; with overlays requested, the clean render is stored too and the
+   * overlaid copy becomes the output. Renditions are made from the final output;
+   * the quality judge sees the clean render, since overlays are not generated.
+   */
+  private async uploadOutput(
+    buffer: Buffer,
+    output: {
+      variantIndex: number;
+      variantCount: number;
+      format: OutputFormat;
+      aspectRatio?: AspectRatioOption;
+      overlays: Overlays;
+      renditions?: RenditionRequest[];
+      judge?: JudgeContext;
+    },
+    hooks: ImageFlowHooks,
+  ): Promise<OutputUpload> {
+    const { variantIndex, variantCount, format, aspectRatio, overlays } = output;
+    const encoded = await this.imageProcessor.convert(buffer, format);
+    const hasOverlays = Boolean(overlays.logo || overlays.textOverlay);
+    const final = hasOverlays ? await this.applyOverlays(encoded, overlays) : encoded;
+
+    const [outputUpload, clean, renditions, thumbnails, altText, qualityScore] = await Promise.all([
+      this.storeOutput(final, format),
+      hasOverlays ? this.storeOutput(encoded, format) : undefined,
+      output.renditions ? this.storeRenditions(final, output.renditions) : undefined,
+      this.storeThumbnails(final),
+      this.describeOutput(final),
+      output.judge ? this.scoreOutput(encoded, output.judge) : undefined,
+    ]);
+
+    hooks.onEvent?.({
+      type: 'output.uploaded',
+      variantIndex,
+      variantCount,
+      ...(aspectRatio ? { aspectRatio } : {}),
+      outputImage: outputUpload.url,
+      outputImageKey: outputUpload.key,
+      ...(clean ? { cleanOutputImage: clean.url, cleanOutputImageKey: clean.key } : {}),
+      ...(renditions ? { renditions } : {}),
+      ...(thumbnails ? { thumbnails } : {}),
+      ...(altText ? { altText } : {}),
+      ...(qualityScore ? { qualityScore } : {}),
+    });
+    return {
+      ...outputUpload,
+      ...(aspectRatio ? { aspectRatio } : {}),
+      ...(clean ? { clean } : {}),
+      ...(renditions ? { renditions } : {}),
+      ...(thumbnails ? { thumbnails } : {}),
+      ...(altText ? { altText } : {}),
+      ...(qualityScore ? { qualityScore } : {}),
+    };
+  }
+
+  /**
+   * Re-applies overlays (e.g. edited copy) to a stored clean render, without
+   * regenerating the image
+   */
+  async overlay(
+    cleanImage: ImageInput & { key: string },
+    input: Omit<ImageOverlayPayload, 'cleanImageKey'>,
+  ): Promise<ImageOverlayResult> {
+    const format = cleanImage.mimeType.replace(/^image\//, '');
+
+    logger.info('Re-applying overlays to stored render', {
+      cleanImageKey: cleanImage.key,
+      logo: Boolean(input.logo),
+    });
+    const final = await this.applyOverlays(cleanImage.buffer, input);
+    const [outputUpload, renditions, thumbnails, altText] = await Promise.all([
+      this.storeOutput(final, format),
+      input.renditions ? this.storeRenditions(final, input.renditions) : undefined,
+      this.storeThumbnails(final),
+      // The copy is part of the image, so it is described again
+      this.describeOutput(final),
+    ]);
+
+    return {
+      outputImage: outputUpload.url,
+      outputImageKey: outputUpload.key,
+      cleanOutputImage: this.storage.getPublicUrl(cleanImage.key),
+      cleanOutputImageKey: cleanImage.key,
+      textOverlay: input.textOverlay,
+      ...(input.logo ? { logo: input.logo } : {}),
+      ...(renditions ? { renditions } : {}),
+      ...(thumbnails ? { thumbnails } : {}),
+      ...(altText ? { altText } : {}),
+    };
+  }
+
+  private storeRenditions(buffer: Buffer, requests: RenditionRequest[]): Promise<Rendition[]> {
+    return Promise.all(
+      requests.map(async (request) => {
+        const rendition = await this.imageProcessor.createRendition(buffer, request);
+        const stored = await this.storeOutput(rendition.buffer, request.format);
+        return {
+          format: request.format,
+          width: rendition.width,
+          height: rendition.height,
+          ...(request.quality && request.format !== 'png' ? { quality: request.quality } : {}),
+          key: stored.key,
+          url: stored.url,
+        };
+      }),
+    );
+  }
+
+  /**
+   * Small and medium WebP previews for the galleries. Best effort: a failure is
+   * logged and leaves the image without thumbnails instead of failing the job.
+   */
+  private async storeThumbnails(buffer: Buffer): Promise<ImageThumbnails | undefined> {
+    try {
+      const thumbnails = await Promise.all(
+        THUMBNAIL_SIZES.map(async (size) => {
+          const thumbnail = await this.imageProcessor.createRendition(buffer, {
+            format: 'webp',
+            width: THUMBNAIL_WIDTHS[size],
+            quality: THUMBNAIL_QUALITY,
+          });
+          const stored = await this.storage.uploadBuffer({
+            buffer: thumbnail.buffer,
+            mimeType: 'image/webp',
+            prefix: 'thumbnails',
+            extension: 'webp',
+          });
+          return [
+            size,
+            {
+              width: thumbnail.width,
+              height: thumbnail.height,
+              thumbnailKey: stored.key,
+              thumbnailUrl: stored.url,
+            },
+          ] as const;
+        }),
+      );
+      return Object.fromEntries(thumbnails) as ImageThumbnails;
+    } catch (error) {
+      logger.error('Failed to create thumbnails', { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Alt text and a long description of the published output. Best effort, like
+   * thumbnails: a failed vision call leaves the output without alt text.
+   */
+  private async describeOutput(buffer: Buffer): Promise<ImageAltText | undefined> {
+    try {
+      const preview = await this.toVisionPreview(buffer);
+      return await this.openaiFactory().describeImageForAccessibility(
+        preview.buffer,
+        preview.mimeType,
+      );
+    } catch (error) {
+      logger.error('Failed to generate alt text', { error });
+      return undefined;
+    }
+  }
+
+  /**
+   * Quality judge: scores the render against the base image and the instructions.
+   * Best effort, like alt text: a failed judge call leaves the output unscored.
+   */
+  private async scoreOutput(
+    buffer: Buffer,
+    judge: JudgeContext,
+  ): Promise<OutputQualityScore | undefined> {
+    try {
+      const [baseImage, output] = await Promise.all([
+        this.toVisionPreview(judge.baseImage.buffer),
+        this.toVisionPreview(buffer),
+      ]);
+      return await this.openaiFactory().evaluateOutput({
+        baseImage,
+        output,
+        instructions: judge.instructions,
+        brandKit: judge.brandKit,
+      });
+    } catch (error) {
+      logger.error('Failed to score output quality', { error });
+      return undefined;
+    }
+  }
+
+  private async toVisionPreview(buffer: Buffer): Promise<{ buffer: Buffer; mimeType: string }> {
+    const preview = await this.imageProcessor.createRendition(buffer, {
+      format: 'jpeg',
+      width: VISION_PREVIEW_WIDTH,
+      quality: 85,
+    });
+    return { buffer: preview.buffer, mimeType: 'image/jpeg' };
+  }
+
+  // Copy goes on first so the logo is never covered by the text scrim
+  private async applyOverlays(buffer: Buffer, overlays: Overlays): Promise<Buffer> {
+    let output = buffer;
+    if (overlays.textOverlay) {
+      output = await this.textRenderer.render(output, overlays.textOverlay);
+    }
+    if (overlays.logo) {
+      output = await this.imageProcessor.compositeLogo(output, overlays.logo);
+    }
+    return output;
+  }
+
+  private storeOutput(buffer: Buffer, format: string): Promise<StoredObject> {
+    return this.storage.uploadBuffer({
+      buffer,
+      mimeType: `image/${format}`,
+      prefix: 'outputs',
+      extension: format,
+    });
+  }
+
+  private toOutputFields(
+    outputUploads: OutputUpload[],
+  ): Pick<
+    ImageFlowResult,
+    | 'outputImage'
+    | 'outputImageKey'
+    | 'outputImages'
+    | 'outputImageKeys'
+    | 'cleanOutputImages'
+    | 'cleanOutputImageKeys'
+    | 'outputRenditions'
+    | 'outputThumbnails'
+    | 'outputAltTexts'
+    | 'outputQualityScores'
+    | 'renders'
+  > {
+    const renders: ImageFlowRender[] = outputUploads.flatMap((upload) =>
+      upload.aspectRatio
+        ? [
+            {
+              aspectRatio: upload.aspectRatio,
+              outputImage: upload.url,
+              outputImageKey: upload.key,
+              ...(upload.clean
+                ? { cleanOutputImage: upload.clean.url, cleanOutputImageKey: upload.clean.key }
+                : {}),
+              ...(upload.renditions ? { renditions: upload.renditions } : {}),
+              ...(upload.thumbnails ? { thumbnails: upload.thumbnails } : {}),
+              ...(upload.altText ? { altText: upload.altText } : {}),
+              ...(upload.qualityScore ? { qualityScore: upload.qualityScore } : {}),
+            },
+          ]
+        : [],
+    );
+    const cleanUploads = outputUploads.flatMap((upload) => (upload.clean ? [upload.clean] : []));
+
+    return {
+      outputImage: outputUploads[0].url,
+      outputImageKey: outputUploads[0].key,
+      outputImages: outputUploads.map((upload) => upload.url),
+      outputImageKeys: outputUploads.map((upload) => upload.key),
+      ...(cleanUploads.length > 0
+        ? {
+            cleanOutputImages: cleanUploads.map((upload) => upload.url),
+            cleanOutputImageKeys: cleanUploads.map((upload) => upload.key),
+          }
+        : {}),
+      ...(outputUploads.some((upload) => upload.renditions)
+        ? { outputRenditions: outputUploads.map((upload) => upload.renditions ?? []) }
+        : {}),
+      outputThumbnails: outputUploads.map((upload) => upload.thumbnails ?? null),
+      outputAltTexts: outputUploads.map((upload) => upload.altText ?? null),
+      outputQualityScores: outputUploads.map((upload) => upload.qualityScore ?? null),
+      ...(renders.length > 0 ? { renders } : {}),
+    };
+  }
+}
+
+export const imageFlowPipeline = new ImageFlowPipeline();
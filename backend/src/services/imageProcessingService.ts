@@ -0,0 +1,219 @@
+import { promises as fs } from 'fs';
+import sharp from 'sharp';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { OutputFormat } from '../constants/outputFormat';
+import { LogoOverlayOptions } from '../types/logoOverlay';
+import { RenditionRequest } from '../types/rendition';
+
+const logger = createLogger('imageProcessingService');
+
+type ResizeOptions = {
+  width: number;
+  height: number;
+  format: OutputFormat;
+};
+
+type NormalizedInput = {
+  buffer: Buffer;
+  mimeType: string;
+};
+
+// Sources are re-encoded once at ingest, so keep them close to the original quality
+const INPUT_QUALITY = 90;
+
+type EncodedImage = {
+  buffer: Buffer;
+  width: number;
+  height: number;
+};
+
+// libvips reports AVIF as an AV1-compressed HEIF
+const isEncodedAs = (
+  metadata: { format?: string; compression?: string },
+  format: OutputFormat,
+): boolean =>
+  format === 'avif'
+    ? metadata.format === 'heif' && metadata.compression === 'av1'
+    : metadata.format === format;
+
+/**
+ * Ingest normalization of uploaded inputs and post-processing of generated images
+ * before they are stored
+ */
+export class ImageProcessingService {
+  private logo: Promise<Buffer> | null = null;
+
+  constructor(
+    private readonly logoPath: string | undefined = config.branding.logoPath,
+    private readonly maxInputEdge: number = config.image.maxInputEdge,
+  ) {}
+
+  get isLogoConfigured(): boolean {
+    return Boolean(this.logoPath);
+  }
+
+  /**
+   * Applies the EXIF orientation, strips all metadata (GPS, camera, ...) and scales
+   * down to fit maxInputEdge, keeping the input's format. Runs before an upload is
+   * stored publicly or sent to OpenAI.
+   */
+  async normalizeInput(buffer: Buffer): Promise<NormalizedInput> {
+    const { format, width, height } = await sharp(buffer).metadata();
+    if (format !== 'png' && format !== 'jpeg' && format !== 'webp' && format !== 'gif') {
+      throw new Error(`Cannot normalize ${format ?? 'unknown'} input images`);
+    }
+
+    // Metadata is dropped because withMetadata() is never called
+    const { data, info } = await sharp(buffer)
+      .rotate()
+      .resize({
+        width: this.maxInputEdge,
+        height: this.maxInputEdge,
+        fit: 'inside',
+        withoutEnlargement: true,
+      })
+      .toFormat(format, format === 'jpeg' || format === 'webp' ? { quality: INPUT_QUALITY } : {})
+      .toBuffer({ resolveWithObject: true });
+
+    logger.info('Normalized input image', {
+      format,
+      from: { width, height, bytes: buffer.length },
+      to: { width: info.width, height: info.height, bytes: data.length },
+    });
+    return { buffer: data, mimeType: `image/${format}` };
+  }
+
+  /**
+   * Crops to fill the exact pixel size (keeping the most salient region) and re-encodes
+   */
+  async resize(buffer: Buffer, options: ResizeOptions): Promise<Buffer> {
+    logger.info('Resizing generated image', options);
+    return sharp(buffer)
+      .resize(options.width, options.height, {
+        fit: 'cover',
+        position: sharp.strategy.attention,
+      })
+      .toFormat(options.format)
+      .toBuffer();
+  }
+
+  /**
+   * Re-encodes to the given format unless the bytes already are in it, so the
+   * stored key extension never lies about the content
+   */
+  async convert(buffer: Buffer, format: OutputFormat): Promise<Buffer> {
+    const metadata = await sharp(buffer).metadata();
+    if (isEncodedAs(metadata, format)) {
+      return buffer;
+    }
+
+    logger.info('Transcoding generated image', { from: metadata.format, to: format });
+    return sharp(buffer).toFormat(format).toBuffer();
+  }
+
+  /**
+   * Encodes one rendition: optionally scaled down to a width, in the requested format
+   */
+  async createRendition(buffer: Buffer, request: RenditionRequest): Promise<EncodedImage> {
+    let image = sharp(buffer);
+    if (request.width) {
+      image = image.resize({ width: request.width, withoutEnlargement: true });
+    }
+
+    const { data, info } = await image
+      .toFormat(
+        request.format,
+        request.quality && request.format !== 'png' ? { quality: request.quality } : {},
+      )
+      .toBuffer({ resolveWithObject: true });
+    return { buffer: data, width: info.width, height: info.height };
+  }
+
+  /**
+   * Composites the configured logo onto an image, keeping the image's size and format
+   */
+  async compositeLogo(buffer: Buffer, options: LogoOverlayOptions): Promise<Buffer> {
+    const image = sharp(buffer);
+    const { width, height, format } = await image.metadata();
+    if (!width || !height || !format) {
+      throw new Error('Could not read the generated image dimensions');
+    }
+
+    const margin = Math.round(Math.min(width, height) * options.margin);
+    // Never let the logo overflow the safe area
+    const logoWidth = Math.max(
+      1,
+      Math.min(Math.round(width * options.scale), width - 2 * margin),
+    );
+    let logo = sharp(await this.loadLogo())
+      .resize({ width: logoWidth, height: height - 2 * margin, fit: 'inside' })
+      .ensureAlpha();
+    if (options.opacity < 1) {
+      // dest-in multiplies the logo's alpha by the opacity
+      logo = sharp(await logo.png().toBuffer()).composite([
+        {
+          input: Buffer.from([0, 0, 0, Math.round(options.opacity * 255)]),
+          raw: { width: 1, height: 1, channels: 4 },
+          tile: true,
+          blend: 'dest-in',
+        },
+      ]);
+    }
+    const { data: logoBuffer, info } = await logo.png().toBuffer({ resolveWithObject: true });
+
+    const { left, top } = this.placeLogo(options.position, width, height, info, margin);
+    logger.info('Compositing logo onto generated image', {
+      position: options.position,
+      logoWidth: info.width,
+    });
+
+    return image
+      .composite([{ input: logoBuffer, left, top }])
+      .toFormat(format)
+      .toBuffer();
+  }
+
+  private placeLogo(
+    position: LogoOverlayOptions['position'],
+    width: number,
+    height: number,
+    logo: { width: number; height: number },
+    margin: number,
+  ): { left: number; top: number } {
+    const right = width - logo.width - margin;
+    const bottom = height - logo.height - margin;
+
+    switch (position) {
+      case 'top-left':
+        return { left: margin, top: margin };
+      case 'top-right':
+        return { left: right, top: margin };
+      case 'bottom-left':
+        return { left: margin, top: bottom };
+      case 'center':
+        return {
+          left: Math.round((width - logo.width) / 2),
+          top: Math.round((height - logo.height) / 2),
+        };
+      case 'bottom-right':
+      default:
+        return { left: right, top: bottom };
+    }
+  }
+
+  private loadLogo(): Promise<Buffer> {
+    if (!this.logoPath) {
+      return Promise.reject(new Error('LOGO_PATH must be configured to composite a logo.'));
+    }
+
+    // Read once; a failed read is retried on the next request
+    this.logo ??= fs.readFile(this.logoPath).catch((error) => {
+      this.logo = null;
+      throw error;
+    });
+    return this.logo;
+  }
+}
+
+export const imageProcessingService = new ImageProcessingService();
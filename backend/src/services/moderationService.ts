@@ -0,0 +1,203 @@
+import { createHash } from 'crypto';
+import { config } from '../config';
+import { HttpError } from '../middlewares/errorHandler';
+import { createLogger } from '../utils/logger';
+import { createOpenAIService, OpenAIService } from './openaiService';
+import { imageProcessingService, ImageProcessingService } from './imageProcessingService';
+import {
+  MODERATION_CATEGORIES,
+  ModerationCategory,
+  ModerationProviderName,
+} from '../constants/moderation';
+import {
+  ModerationDecision,
+  ModerationInput,
+  ModerationPolicy,
+  ModerationScores,
+} from '../types/moderation';
+
+const logger = createLogger('moderationService');
+
+// Uploads may be far larger than the endpoint accepts; a JPEG preview is enough to classify
+const MODERATION_PREVIEW_WIDTH = 1024;
+
+/**
+ * Classifies a single text or image; implementations are swappable via MODERATION_PROVIDER
+ */
+export interface ModerationProvider {
+  readonly name: string;
+  classify(input: ModerationInput): Promise<ModerationScores>;
+}
+
+const isModerationCategory = (code: string): code is ModerationCategory =>
+  (MODERATION_CATEGORIES as readonly string[]).includes(code);
+
+/**
+ * OpenAI's omni-moderation model, which scores text and images
+ */
+export class OpenAIModerationProvider implements ModerationProvider {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly openaiFactory: () => OpenAIService = createOpenAIService,
+    private readonly imageProcessor: ImageProcessingService = imageProcessingService,
+  ) {}
+
+  async classify(input: ModerationInput): Promise<ModerationScores> {
+    const scores = await this.openaiFactory().moderate(
+      input.image
+        ? { image: await this.toPreview(input.image.buffer) }
+        : { text: input.text ?? '' },
+    );
+    return Object.fromEntries(
+      Object.entries(scores).filter(([code]) => isModerationCategory(code)),
+    ) as ModerationScores;
+  }
+
+  private async toPreview(buffer: Buffer): Promise<{ buffer: Buffer; mimeType: string }> {
+    const preview = await this.imageProcessor.createRendition(buffer, {
+      format: 'jpeg',
+      width: MODERATION_PREVIEW_WIDTH,
+      quality: 85,
+    });
+    return { buffer: preview.buffer, mimeType: 'image/jpeg' };
+  }
+}
+
+// Whole-word (or whole-phrase) terms, matched case-insensitively
+const DEFAULT_LOCAL_TERMS: Partial<Record<ModerationCategory, string[]>> = {
+  'harassment/threatening': ['kill you', 'hunt you down'],
+  hate: ['nazi', 'white power', 'ethnic cleansing'],
+  'illicit/violent': ['build a bomb', 'pipe bomb'],
+  'self-harm': ['suicide', 'self-harm', 'cutting myself'],
+  sexual: ['nude', 'naked', 'porn', 'nsfw', 'topless'],
+  'violence/graphic': ['gore', 'gory', 'dismembered', 'decapitated', 'mutilated'],
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Deterministic provider for tests and offline development: text is matched
+ * against term lists, and images only by their SHA-256 hash, so the same input
+ * always gets the same verdict. Matches score 1, everything else 0.
+ */
+export class LocalModerationProvider implements ModerationProvider {
+  readonly name = 'local';
+  private readonly patterns: Array<[ModerationCategory, RegExp]>;
+
+  constructor(
+    terms: Partial<Record<ModerationCategory, string[]>> = DEFAULT_LOCAL_TERMS,
+    // sha256 hex digest of the image bytes → categories it is known to violate
+    private readonly imageHashes: Record<string, ModerationCategory[]> = {},
+  ) {
+    this.patterns = Object.entries(terms).map(([category, words]) => [
+      category as ModerationCategory,
+      new RegExp(`\\b(?:${(words ?? []).map(escapeRegExp).join('|')})\\b`, 'i'),
+    ]);
+  }
+
+  async classify(input: ModerationInput): Promise<ModerationScores> {
+    const hits: ModerationCategory[] = input.image
+      ? this.imageHashes[createHash('sha256').update(input.image.buffer).digest('hex')] ?? []
+      : this.patterns
+          .filter(([, pattern]) => pattern.test(input.text ?? ''))
+          .map(([category]) => category);
+    return Object.fromEntries(hits.map((category) => [category, 1]));
+  }
+}
+
+/**
+ * Pre-check run before Step 1: every field is classified by the provider and
+ * judged against the policy. Each decision is logged for compliance; the text
+ * itself is not logged, only its field name and the categories hit.
+ */
+export class ModerationService {
+  constructor(
+    // null when moderation is turned off
+    private readonly provider: ModerationProvider | null,
+    private readonly policy: ModerationPolicy = config.moderation.policy,
+  ) {}
+
+  async moderate(inputs: ModerationInput[], context: string): Promise<ModerationDecision> {
+    // Empty instructions have nothing to classify
+    const fields = inputs.filter((input) => input.image || input.text?.trim());
+    const { provider } = this;
+    if (!provider) {
+      logger.info('Moderation skipped: MODERATION_PROVIDER is off', { context });
+      return { allowed: true, provider: 'off', categories: [], flagged: [] };
+    }
+
+    const flagged = (
+      await Promise.all(
+        fields.map(async (input) => {
+          const scores = await provider.classify(input);
+          const categories = this.policy.blockedCategories.filter(
+            (category) => (scores[category] ?? 0) >= this.policy.threshold,
+          );
+          return { field: input.field, categories };
+        }),
+      )
+    ).filter((entry) => entry.categories.length > 0);
+
+    const hit = new Set(flagged.flatMap((entry) => entry.categories));
+    const decision: ModerationDecision = {
+      allowed: flagged.length === 0,
+      provider: provider.name,
+      categories: MODERATION_CATEGORIES.filter((category) => hit.has(category)),
+      flagged,
+    };
+    logger.info('Moderation decision', {
+      context,
+      provider: decision.provider,
+      allowed: decision.allowed,
+      fields: fields.map((input) => input.field),
+      categories: decision.categories,
+      flagged: decision.flagged,
+    });
+    return decision;
+  }
+
+  /**
+   * Rejects blocked requests with a 422 naming the categories and fields hit.
+   * A provider failure rejects too (502), since unchecked input must not reach Step 1.
+   */
+  async ensureAllowed(inputs: ModerationInput[], context: string): Promise<void> {
+    let decision: ModerationDecision;
+    try {
+      decision = await this.moderate(inputs, context);
+    } catch (error) {
+      logger.error('Moderation check failed', { context, error });
+      throw new HttpError(
+        502,
+        error instanceof Error
+          ? `Content moderation failed: ${error.message}`
+          : 'Content moderation failed',
+      );
+    }
+
+    if (!decision.allowed) {
+      throw new HttpError(422, 'Request blocked by the content policy', {
+        reason: 'content_policy',
+        categories: decision.categories,
+        flagged: decision.flagged,
+      });
+    }
+  }
+}
+
+export const createModerationProvider = (
+  name: ModerationProviderName,
+): ModerationProvider | null => {
+  switch (name) {
+    case 'openai':
+      return new OpenAIModerationProvider();
+    case 'local':
+      return new LocalModerationProvider();
+    default:
+      return null;
+  }
+};
+
+export const moderationService = new ModerationService(
+  createModerationProvider(config.moderation.provider),
+);
@@ -12,6 +12,34 @@
 import fetch from 'node-fetch';
 import { config } from '../config';
 import { createLogger } from '../utils/logger';
+import { BrandKitContext } from '../types/brandKit';
+import {
+  ChannelCopy,
+  GeneratedMarketingCopy,
+  generatedMarketingCopySchema,
+  MarketingCopyVariant,
+} from '../types/marketingCopy';
+import { CopyChannelId, getCopyChannel } from '../constants/copyChannels';
+import { generatedAltTextSchema, ImageAltText, MAX_ALT_TEXT_LENGTH } from '../types/altText';
+import {
+  generatedQualityScoreSchema,
+  OutputQualityScore,
+  QUALITY_CRITERIA,
+} from '../types/qualityScore';
+import {
+  generatedPromptSchema,
+  PromptStatus,
+  REFUSAL_REASONS,
+  RefusalReason,
+} from '../types/promptGeneration';
+import {
+  generatedSceneEditSchema,
+  generatedSceneSchema,
+  SCENE_FIELDS,
+  SceneDescription,
+  SceneField,
+} from '../types/sceneDescription';
+import { renderScenePrompt } from '../utils/scenePrompt';
 
 const logger = createLogger('openaiService');
 
@@ -25,15 +53,20 @@ export const OPENAI_MODELS = {
   LIGHTWEIGHT: 'gpt-4o-mini',
 } as const;
 
+// Only used by the moderations endpoint, which takes both text and images
+const MODERATION_MODEL = 'omni-moderation-latest';
+
 type OpenAIModel = typeof OPENAI_MODELS[keyof typeof OPENAI_MODELS];
 
+interface ChatContentPart {
+  type: 'text' | 'image_url';
+  text?: string;
+  image_url?: { url: string };
+}
+
 interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
-  content: string | Array<{
-    type: 'text' | 'image_url';
-    text?: string;
-    image_url?: { url: string };
-  }>;
+  content: string | ChatContentPart[];
 }
 
 interface ChatCompletionRequest {
@@ -64,6 +97,16 @@ interface ChatCompletionResponse {
   };
 }
 
+interface ModerationResponse {
+  id: string;
+  model: string;
+  results: Array<{
+    flagged: boolean;
+    categories: Record<string, boolean>;
+    category_scores: Record<string, number>;
+  }>;
+}
+
 interface OpenAIError {
   error: {
     message: string;
@@ -77,10 +120,218 @@ interface OpenAIError {
  * Structured JSON response from OpenAI for prompt generation
  */
 export interface PromptGenerationResponse {
+  // The prompt, or a brief explanation when refused
   prompt: string;
+  // False only when the model refused; partial prompts are usable
   isPromptGenerated: boolean;
+  status: PromptStatus;
+  // Set for refused and partial prompts
+  refusalReason: RefusalReason | null;
+  // Step 1 only: the structured description the prompt was rendered from;
+  // missing when refused or when the model answered with plain text only
+  scene?: SceneDescription;
+}
+
+/**
+ * Step 2 response for a structured scene: the merged scene, re-rendered as `prompt`
+ */
+export interface SceneEditResponse extends PromptGenerationResponse {
+  scene: SceneDescription;
+  // Fields whose text the instructions changed, in SCENE_FIELDS order
+  changedFields: SceneField[];
+}
+
+/**
+ * JSON shape requested from chatCompletionsJSON: the instruction appended to the
+ * last user message and the parser applied to the raw reply
+ */
+export interface JsonResponseFormat<T> {
+  instruction: string;
+  parse: (content: string) => T;
+}
+
+const PROMPT_RESPONSE_FORMAT: JsonResponseFormat<PromptGenerationResponse> = {
+  instruction: `You must respond with a valid JSON object in this exact format:
+{
+  "status": "generated",
+  "refusalReason": null,
+  "prompt": "the generated prompt text here"
+}
+
+"status" is one of:
+- "generated": the full prompt was written
+- "partial": a usable prompt was written, but part of the request or image was left out
+- "refused": no prompt could be written; put a brief explanation in "prompt"
+
+For "partial" and "refused", set "refusalReason" to one of ${REFUSAL_REASONS.map((reason) => `"${reason}"`).join(', ')}. Words such as "cannot" that are part of the prompt itself (e.g. text on a sign) are not a refusal.`,
+  parse: (content) => {
+    // Extract JSON from response (handle cases where response might have extra text)
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('OpenAI did not return a prompt JSON');
+    }
+    const { status, refusalReason, prompt } = generatedPromptSchema.parse(JSON.parse(jsonMatch[0]));
+    return {
+      prompt,
+      isPromptGenerated: status !== 'refused',
+      status,
+      refusalReason,
+    };
+  },
+};
+
+const SCENE_RESPONSE_FORMAT: JsonResponseFormat<PromptGenerationResponse> = {
+  instruction: `You must respond with a valid JSON object in this exact format, describing each dimension in its own field:
+{
+  "status": "generated",
+  "refusalReason": null,
+  "scene": {
+    "subjects": "who or what is in the image",
+    "identity": "facial features, age, skin tone, hair and other identifying details",
+    "pose": "body position, gesture and expression",
+    "clothing": "garments, accessories and materials",
+    "background": "setting and surroundings",
+    "lighting": "light sources, direction, quality and colour",
+    "mood": "atmosphere and emotional tone",
+    "camera": "shot type, angle, lens and depth of field",
+    "style": "medium, rendering style and colour grading"
+  },
+  "prompt": null
+}
+
+Use an empty string for a field that does not apply. "status" is one of:
+- "generated": every field was described
+- "partial": a usable scene was described, but part of the image was left out
+- "refused": nothing could be described; set "scene" to null and put a brief explanation in "prompt"
+
+For "partial" and "refused", set "refusalReason" to one of ${REFUSAL_REASONS.map((reason) => `"${reason}"`).join(', ')}. Words such as "cannot" that are part of the image itself (e.g. text on a sign) are not a refusal.`,
+  parse: (content) => {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('OpenAI did not return a prompt JSON');
+    }
+    const { status, refusalReason, scene, prompt } = generatedSceneSchema.parse(
+      JSON.parse(jsonMatch[0]),
+    );
+    const isPromptGenerated = status !== 'refused';
+    // A plain-text prompt is still usable, it just cannot be edited field by field
+    const renderedScene = isPromptGenerated && scene ? renderScenePrompt(scene) : '';
+    return {
+      prompt: renderedScene || (prompt ?? ''),
+      isPromptGenerated,
+      status,
+      refusalReason,
+      ...(renderedScene && scene ? { scene } : {}),
+    };
+  },
+};
+
+// Step 2 replies list only the changed fields, which are merged into the base scene
+const sceneEditFormat = (base: SceneDescription): JsonResponseFormat<SceneEditResponse> => ({
+  instruction: `You must respond with a valid JSON object in this exact format:
+{
+  "status": "generated",
+  "refusalReason": null,
+  "changes": { "<field>": "the complete new text for that field" },
+  "prompt": null
 }
 
+"changes" holds only the fields the modifications touch, each one of ${SCENE_FIELDS.map((field) => `"${field}"`).join(', ')}. Leave every other field out so it stays exactly as it is; use an empty string to remove a field.
+
+"status" is one of:
+- "generated": every modification was applied
+- "partial": usable changes were written, but part of the modifications was left out
+- "refused": nothing could be changed; set "changes" to null and put a brief explanation in "prompt"
+
+For "partial" and "refused", set "refusalReason" to one of ${REFUSAL_REASONS.map((reason) => `"${reason}"`).join(', ')}.`,
+  parse: (content) => {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('OpenAI did not return a scene edit JSON');
+    }
+    const { status, refusalReason, changes, prompt } = generatedSceneEditSchema.parse(
+      JSON.parse(jsonMatch[0]),
+    );
+    if (status === 'refused') {
+      return {
+        prompt: prompt ?? '',
+        isPromptGenerated: false,
+        status,
+        refusalReason,
+        scene: base,
+        changedFields: [],
+      };
+    }
+    const changedFields = SCENE_FIELDS.filter((field) => {
+      const change = changes?.[field];
+      return change !== null && change !== undefined && change !== base[field];
+    });
+    const scene = { ...base };
+    changedFields.forEach((field) => {
+      scene[field] = changes?.[field] ?? '';
+    });
+    return {
+      prompt: renderScenePrompt(scene),
+      isPromptGenerated: true,
+      status,
+      refusalReason,
+      scene,
+      changedFields,
+    };
+  },
+});
+
+const MARKETING_COPY_FORMAT: JsonResponseFormat<GeneratedMarketingCopy> = {
+  instruction: `You must respond with a valid JSON object in this exact format:
+{
+  "variants": [
+    {
+      "headline": "short headline",
+      "body": "one or two sentences of body copy",
+      "cta": "call to action",
+      "hashtags": ["#example"],
+      "channels": { "<channel id>": "ready-to-post text for that channel" }
+    }
+  ]
+}`,
+  parse: (content) => {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('OpenAI did not return marketing copy JSON');
+    }
+    return generatedMarketingCopySchema.parse(JSON.parse(jsonMatch[0]));
+  },
+};
+
+const QUALITY_SCORE_FORMAT: JsonResponseFormat<OutputQualityScore> = {
+  instruction: `You must respond with a valid JSON object in this exact format, with every score an integer from 1 (poor) to 5 (excellent):
+{
+  "instructionAdherence": { "score": 4, "rationale": "one sentence" },
+  "identityPreservation": { "score": 4, "rationale": "one sentence" },
+  "artifacts": { "score": 4, "rationale": "one sentence; 5 means no visible artifacts" },
+  "brandFit": { "score": 4, "rationale": "one sentence" }
+}`,
+  parse: (content) => {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('OpenAI did not return a quality score JSON');
+    }
+    const criteria = generatedQualityScoreSchema.parse(JSON.parse(jsonMatch[0]));
+    const total = QUALITY_CRITERIA.reduce((sum, criterion) => sum + criteria[criterion].score, 0);
+    return { ...criteria, overall: Math.round((total / QUALITY_CRITERIA.length) * 10) / 10 };
+  },
+};
+
+// Cuts at a word boundary and marks the cut, so posts never exceed the channel limit
+const fitToLimit = (text: string, limit: number): string => {
+  if (text.length <= limit) return text;
+  const cut = text.slice(0, limit - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > limit / 2 ? cut.slice(0, lastSpace) : cut).trimEnd()}…`;
+};
+
+const toHashtag = (tag: string): string => `#${tag.replace(/^#+/, '').replace(/\s+/g, '')}`;
+
 export class OpenAIService {
   private apiKey: string;
 
@@ -179,24 +430,22 @@ export class OpenAIService {
 
   /**
    * Chat completions with JSON structured output
-   * Returns a structured response with prompt and isPromptGenerated flag
+   * Returns a structured prompt response (status, refusalReason, prompt),
+   * or the shape described by `format` when one is given
    */
-  async chatCompletionsJSON(
+  async chatCompletionsJSON<T = PromptGenerationResponse>(
     messages: ChatMessage[],
     options: {
       model?: OpenAIModel;
       temperature?: number;
       maxTokens?: number;
+      format?: JsonResponseFormat<T>;
     } = {},
-  ): Promise<PromptGenerationResponse> {
+  ): Promise<T> {
+    const { format = PROMPT_RESPONSE_FORMAT as JsonResponseFormat<unknown>, ...completionOptions } =
+      options;
     // Ensure the last message instructs JSON format
-    const jsonInstruction = `\n\nIMPORTANT: You must respond with a valid JSON object in this exact format:
-{
-  "prompt": "the generated prompt text here",
-  "isPromptGenerated": true
-}
-
-If you cannot generate the prompt (e.g., content policy violation, unclear request), set isPromptGenerated to false and provide a brief explanation in the prompt field.`;
+    const jsonInstruction = `\n\nIMPORTANT: ${format.instruction}`;
 
     // Add JSON instruction to the last user message
     const modifiedMessages = [...messages];
@@ -227,54 +476,11 @@ If you cannot generate the prompt (e.g., content policy violation, unclear reque
     }
 
     const content = await this.chatCompletions(modifiedMessages, {
-      ...options,
+      ...completionOptions,
       jsonMode: true,
     });
 
-      // Parse JSON response
-      try {
-        // Extract JSON from response (handle cases where response might have extra text)
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-        if (!jsonMatch) {
-          logger.info('No JSON found in response, treating as plain text', { content });
-          return {
-            prompt: content,
-            isPromptGenerated: false,
-          };
-        }
-
-        const parsed = JSON.parse(jsonMatch[0]) as Partial<PromptGenerationResponse>;
-
-        // Validate response structure
-        if (
-          typeof parsed.prompt === 'string' &&
-          typeof parsed.isPromptGenerated === 'boolean'
-        ) {
-          return {
-            prompt: parsed.prompt.trim(),
-            isPromptGenerated: parsed.isPromptGenerated,
-          };
-        }
-
-        logger.info('Invalid JSON structure in response', { parsed });
-        return {
-          prompt: parsed.prompt || content,
-          isPromptGenerated: parsed.isPromptGenerated ?? false,
-        };
-    } catch (error) {
-      logger.error('Failed to parse JSON response', { error, content });
-      // Check if content indicates refusal
-      const isRefusal =
-        content.toLowerCase().includes("i'm sorry") ||
-        content.toLowerCase().includes("i can't assist") ||
-        content.toLowerCase().includes("cannot") ||
-        content.toLowerCase().includes("unable to");
-
-      return {
-        prompt: content,
-        isPromptGenerated: !isRefusal,
-      };
-    }
+    return format.parse(content) as T;
   }
 
   /**
@@ -329,47 +535,149 @@ If you cannot generate the prompt (e.g., content policy violation, unclear reque
 
   /**
    * Reconstruct a prompt from an image
-   * Analyzes the image and generates a detailed prompt that could recreate it
-   * Returns a response with prompt and isPromptGenerated flag to detect refusals
+   * Analyzes the image into a structured scene description and renders it as a
+   * detailed prompt that could recreate it.
+   * Refusals come from the model's explicit status, never from the prompt wording
    */
   async reconstructPromptFromImage(
     imageBuffer: Buffer,
     mimeType: string,
+    // Defaults to the config prompt (SYSTEM_PROMPT_IMAGE_UNDERSTAND env var); set from a prompt template
+    systemPrompt: string = config.openai.systemPromptImageUnderstand,
   ): Promise<PromptGenerationResponse> {
-    // Use system prompt from config (reads from SYSTEM_PROMPT_IMAGE_UNDERSTAND env var)
-    const systemPrompt = config.openai.systemPromptImageUnderstand;
 
-    const userPrompt = 'Analyze this image and return a detailed prompt that could recreate it.';
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: systemPrompt,
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image_url',
+            image_url: { url: `data:${mimeType};base64,${imageBuffer.toString('base64')}` },
+          },
+          {
+            type: 'text',
+            text: 'Analyze this image and describe it in enough detail that it could be recreated.',
+          },
+        ],
+      },
+    ];
+
+    return this.chatCompletionsJSON(messages, {
+      model: OPENAI_MODELS.VISION,
+      format: SCENE_RESPONSE_FORMAT,
+    });
+  }
+
+  /**
+   * Alt text and a longer description of a generated image for screen readers
+   */
+  async describeImageForAccessibility(
+    imageBuffer: Buffer,
+    mimeType: string,
+  ): Promise<ImageAltText> {
+    const systemPrompt =
+      'You write accessibility text for marketing images published on the web, following WCAG guidance.';
+    const userPrompt = `Describe this image for people who cannot see it.
+
+Respond with a valid JSON object in this exact format:
+{
+  "altText": "concise alt text, at most ${MAX_ALT_TEXT_LENGTH} characters",
+  "description": "a longer description of 2-4 sentences"
+}
+
+Do not start with "Image of" or "Picture of". Include any visible text word for word.`;
 
     const content = await this.analyzeImage(imageBuffer, mimeType, userPrompt, systemPrompt);
-    
-    // Check if content indicates refusal (similar to chatCompletionsJSON)
-    const isRefusal =
-      content.toLowerCase().includes("i'm sorry") ||
-      content.toLowerCase().includes("i can't assist") ||
-      content.toLowerCase().includes("can't help") ||
-      content.toLowerCase().includes("cannot") ||
-      content.toLowerCase().includes("unable to");
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) {
+      throw new Error('OpenAI did not return alt text JSON');
+    }
 
+    const { altText, description } = generatedAltTextSchema.parse(JSON.parse(jsonMatch[0]));
     return {
-      prompt: content,
-      isPromptGenerated: !isRefusal,
+      altText:
+        altText.length > MAX_ALT_TEXT_LENGTH
+          ? `${altText.slice(0, MAX_ALT_TEXT_LENGTH - 1).trimEnd()}…`
+          : altText,
+      description,
     };
   }
 
+  /**
+   * Quality judge: scores a generated output against the base image, the user
+   * instructions and (when given) the brand kit
+   */
+  async evaluateOutput(input: {
+    baseImage: { buffer: Buffer; mimeType: string };
+    output: { buffer: Buffer; mimeType: string };
+    instructions: string;
+    brandKit?: BrandKitContext;
+  }): Promise<OutputQualityScore> {
+    const toImage = (image: { buffer: Buffer; mimeType: string }) => ({
+      type: 'image_url' as const,
+      image_url: { url: `data:${image.mimeType};base64,${image.buffer.toString('base64')}` },
+    });
+    const brandContext = input.brandKit
+      ? this.describeBrandKit(input.brandKit)
+      : 'No brand kit applies: judge brand fit as suitability for a professional marketing campaign.';
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content:
+          'You are a strict quality reviewer for AI-generated marketing images. You compare a generated image with its source image and the requested changes, and score it honestly.',
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Base image (the source the output was made from):' },
+          toImage(input.baseImage),
+          { type: 'text', text: 'Generated output:' },
+          toImage(input.output),
+          {
+            type: 'text',
+            text: `Requested changes:
+${input.instructions || '(none - the output should recreate the base image)'}
+
+${brandContext}
+
+Score the output on:
+- instructionAdherence: how well it applies the requested changes
+- identityPreservation: whether the main subject (person, product, logo) from the base image is kept recognisable
+- artifacts: anatomy errors, garbled text, warped objects or other rendering defects
+- brandFit: how well it matches the brand`,
+          },
+        ],
+      },
+    ];
+
+    return this.chatCompletionsJSON(messages, {
+      model: OPENAI_MODELS.VISION,
+      temperature: 0,
+      format: QUALITY_SCORE_FORMAT,
+    });
+  }
+
   /**
    * Apply user instructions to modify a base prompt
    * Takes a base prompt and user instructions, returns an updated prompt with generation status
+   * When a brand kit is given, its rules are added as structured context and its assets as images
+   * Used when Step 1 returned a plain-text prompt without a scene; see editScene
    */
   async applyUserInstructions(
     basePrompt: string,
     userInstructions: string,
     referenceImageBuffers?: Array<{ buffer: Buffer; mimeType: string }>,
+    brandKit?: BrandKitContext,
+    // Defaults to the config prompt (SYSTEM_PROMPT_PROMPT_EDITOR env var); set from a prompt template
+    systemPrompt: string = config.openai.systemPromptPromptEditor,
   ): Promise<PromptGenerationResponse> {
-    // Use system prompt from config (reads from SYSTEM_PROMPT_PROMPT_EDITOR env var)
-    const systemPrompt = config.openai.systemPromptPromptEditor;
 
-    const content: Array<{ type: 'text' | 'image_url'; text?: string; image_url?: { url: string } }> = [
+    const content: ChatContentPart[] = [
       {
         type: 'text',
         text: `Task: Edit an image generation prompt for a text-to-image AI model.
@@ -378,13 +686,254 @@ Base prompt:
 ${basePrompt}
 
 User modification instructions:
-${userInstructions}
+${userInstructions || '(none - only apply the brand kit)'}
 
 Update the base prompt by incorporating the user's modifications. Preserve all unchanged elements.`,
       },
+      ...this.describeInstructionContext(referenceImageBuffers, brandKit),
+    ];
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: systemPrompt,
+      },
+      {
+        role: 'user',
+        content,
+      },
+    ];
+
+    return this.chatCompletionsJSON(messages, {
+      model: OPENAI_MODELS.CHAT,
+    });
+  }
+
+  /**
+   * Step 2 for a structured scene: applies user instructions field by field
+   * Only the fields the instructions touch are rewritten; the merged scene is
+   * rendered as the updated prompt
+   */
+  async editScene(
+    scene: SceneDescription,
+    userInstructions: string,
+    referenceImageBuffers?: Array<{ buffer: Buffer; mimeType: string }>,
+    brandKit?: BrandKitContext,
+    systemPrompt: string = config.openai.systemPromptPromptEditor,
+  ): Promise<SceneEditResponse> {
+
+    const content: ChatContentPart[] = [
+      {
+        type: 'text',
+        text: `Task: Edit the structured scene description behind an image generation prompt for a text-to-image AI model.
+
+Scene:
+${JSON.stringify(scene, null, 2)}
+
+User modification instructions:
+${userInstructions || '(none - only apply the brand kit)'}
+
+Change only the fields the user's modifications touch. Preserve all unchanged fields.`,
+      },
+      ...this.describeInstructionContext(referenceImageBuffers, brandKit),
+    ];
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: systemPrompt,
+      },
+      {
+        role: 'user',
+        content,
+      },
+    ];
+
+    return this.chatCompletionsJSON(messages, {
+      model: OPENAI_MODELS.CHAT,
+      format: sceneEditFormat(scene),
+    });
+  }
+
+  /**
+   * Writes marketing copy variants that match the final image prompt, one post per
+   * requested channel within its character limit. The brand kit sets the tone.
+   */
+  async generateMarketingCopy(input: {
+    prompt: string;
+    userInstructions?: string;
+    brandKit?: BrandKitContext;
+    channels: CopyChannelId[];
+    variantCount: number;
+  }): Promise<MarketingCopyVariant[]> {
+    const channels = input.channels.map(getCopyChannel);
+    const channelList = channels
+      .map((channel) => `- ${channel.id} (${channel.label}): at most ${channel.characterLimit} characters`)
+      .join('\n');
+    const brandTone = input.brandKit
+      ? `Brand voice (${input.brandKit.kit.name}):
+${JSON.stringify(
+  {
+    tone: input.brandKit.kit.styleDescriptors,
+    do: input.brandKit.kit.doRules,
+    dont: input.brandKit.kit.dontRules,
+  },
+  null,
+  2,
+)}`
+      : 'Brand voice: clear, confident and friendly.';
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content:
+          'You are a senior marketing copywriter. You write campaign copy that matches the visual it will be posted with.',
+      },
+      {
+        role: 'user',
+        content: `Write ${input.variantCount} distinct marketing copy variant(s) for the image described by this prompt:
+${input.prompt}
+
+Campaign instructions:
+${input.userInstructions || '(none)'}
+
+${brandTone}
+
+For each variant write a headline, body copy, a call to action and 3-8 hashtags, plus one ready-to-post text for each of these channels, keyed by channel id and within its character limit (hashtags included):
+${channelList}`,
+      },
+    ];
+
+    const generated = await this.chatCompletionsJSON(messages, {
+      model: OPENAI_MODELS.CHAT,
+      format: MARKETING_COPY_FORMAT,
+    });
+
+    return generated.variants.slice(0, input.variantCount).map((variant) => ({
+      headline: variant.headline,
+      body: variant.body,
+      cta: variant.cta,
+      hashtags: variant.hashtags.map(toHashtag).filter((tag) => tag.length > 1),
+      channels: channels.map(
+        (channel): ChannelCopy => ({
+          channel: channel.id as CopyChannelId,
+          // Fall back to the body when the model skipped a channel
+          text: fitToLimit(variant.channels[channel.id] || variant.body, channel.characterLimit),
+          characterLimit: channel.characterLimit,
+        }),
+      ),
+    }));
+  }
+
+  /**
+   * Self-correction: revises a final prompt from the quality judge's critique of
+   * the image it produced, keeping the user's instructions and the brand kit
+   */
+  async revisePromptFromCritique(input: {
+    prompt: string;
+    critique: OutputQualityScore;
+    userInstructions?: string;
+    brandKit?: BrandKitContext;
+    // Same editor system prompt as Step 2
+    systemPrompt?: string;
+  }): Promise<PromptGenerationResponse> {
+    const critique = QUALITY_CRITERIA.map(
+      (criterion) =>
+        `- ${criterion}: ${input.critique[criterion].score}/5 - ${input.critique[criterion].rationale}`,
+    ).join('\n');
+
+    const content: Array<{ type: 'text'; text: string }> = [
+      {
+        type: 'text',
+        text: `Task: Revise an image generation prompt for a text-to-image AI model.
+
+The image generated from this prompt did not meet the quality bar:
+${input.prompt}
+
+Original user instructions:
+${input.userInstructions || '(none - recreate the base image)'}
+
+Reviewer scores and critique of the generated image:
+${critique}
+
+Rewrite the prompt so the next image fixes every low-scoring point. Be more explicit where the image drifted from the instructions or the original subject, and describe problem areas (hands, text, small objects) precisely. Keep everything that scored well unchanged.`,
+      },
+    ];
+
+    if (input.brandKit) {
+      content.push({ type: 'text', text: this.describeBrandKit(input.brandKit) });
+    }
+
+    const messages: ChatMessage[] = [
+      {
+        role: 'system',
+        content: input.systemPrompt ?? config.openai.systemPromptPromptEditor,
+      },
+      {
+        role: 'user',
+        content,
+      },
     ];
 
-    // Add reference images if provided
+    return this.chatCompletionsJSON(messages, {
+      model: OPENAI_MODELS.CHAT,
+    });
+  }
+
+  /**
+   * Moderation endpoint: category scores (0–1) for one text or one image
+   */
+  async moderate(
+    input: { text: string } | { image: { buffer: Buffer; mimeType: string } },
+  ): Promise<Record<string, number>> {
+    const content = 'text' in input
+      ? [{ type: 'text', text: input.text }]
+      : [
+          {
+            type: 'image_url',
+            image_url: {
+              url: `data:${input.image.mimeType};base64,${input.image.buffer.toString('base64')}`,
+            },
+          },
+        ];
+    const response = await this.makeRequest<ModerationResponse>('/moderations', {
+      model: MODERATION_MODEL,
+      input: content,
+    });
+
+    const [result] = response.results;
+    if (!result) {
+      throw new Error('OpenAI did not return a moderation result');
+    }
+    return result.category_scores;
+  }
+
+  // Brand kit rules and assets, then reference images, as parts of the Step 2 message
+  private describeInstructionContext(
+    referenceImageBuffers?: Array<{ buffer: Buffer; mimeType: string }>,
+    brandKit?: BrandKitContext,
+  ): ChatContentPart[] {
+    const content: ChatContentPart[] = [];
+
+    if (brandKit) {
+      content.push({
+        type: 'text',
+        text: this.describeBrandKit(brandKit),
+      });
+      brandKit.assets.forEach((asset, index) => {
+        content.push({
+          type: 'image_url',
+          image_url: {
+            url: `data:${asset.mimeType};base64,${asset.buffer.toString('base64')}`,
+          },
+        });
+        content.push({
+          type: 'text',
+          text: `Brand reference asset #${index + 1}`,
+        });
+      });
+    }
+
     if (referenceImageBuffers) {
       referenceImageBuffers.forEach((ref, index) => {
         const base64 = ref.buffer.toString('base64');
@@ -401,20 +950,25 @@ Update the base prompt by incorporating the user's modifications. Preserve all u
       });
     }
 
-    const messages: ChatMessage[] = [
-      {
-        role: 'system',
-        content: systemPrompt,
-      },
-      {
-        role: 'user',
-        content,
-      },
-    ];
+    return content;
+  }
 
-    return this.chatCompletionsJSON(messages, {
-      model: OPENAI_MODELS.CHAT,
-    });
+  /**
+   * Brand kit rules as a JSON block the prompt editor must respect
+   */
+  private describeBrandKit({ kit }: BrandKitContext): string {
+    const rules = {
+      name: kit.name,
+      palette: kit.palette,
+      styleDescriptors: kit.styleDescriptors,
+      do: kit.doRules,
+      dont: kit.dontRules,
+    };
+
+    return `Brand kit (mandatory, overrides conflicting user instructions):
+${JSON.stringify(rules, null, 2)}
+
+Use the palette hex colors for the dominant colors, reflect every style descriptor, follow every "do" rule and never include anything listed under "dont".`;
   }
 }
 
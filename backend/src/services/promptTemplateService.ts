@@ -0,0 +1,317 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { HttpError } from '../middlewares/errorHandler';
+import {
+  PROMPT_TEMPLATE_ROLES,
+  PromptTemplate,
+  PromptTemplateActivations,
+  PromptTemplateInput,
+  PromptTemplateRole,
+  PromptTemplateSelection,
+  PromptTemplateUpdate,
+  PromptTemplateUsage,
+  PromptTemplateUsages,
+  ResolvedPromptTemplates,
+} from '../types/promptTemplate';
+
+const logger = createLogger('promptTemplateService');
+
+type PromptTemplateStore = {
+  templates: Map<string, PromptTemplate>;
+  active: PromptTemplateActivations;
+};
+
+type ResolvedPromptTemplate = NonNullable<ResolvedPromptTemplates[PromptTemplateRole]>;
+
+/**
+ * Picks a version of a template (the latest when none is given)
+ */
+export const resolvePromptTemplate = (
+  template: PromptTemplate,
+  version?: number,
+): ResolvedPromptTemplate | undefined => {
+  const picked = version === undefined
+    ? template.versions[template.versions.length - 1]
+    : template.versions.find((entry) => entry.version === version);
+  return picked
+    ? { id: template.id, name: template.name, version: picked.version, content: picked.content }
+    : undefined;
+};
+
+/**
+ * What a run records about its templates: everything but the text
+ */
+export const toPromptTemplateUsage = (
+  templates: ResolvedPromptTemplates,
+): PromptTemplateUsages => {
+  const usage: PromptTemplateUsages = {};
+  PROMPT_TEMPLATE_ROLES.forEach((role) => {
+    const template = templates[role];
+    if (template) {
+      usage[role] = { id: template.id, name: template.name, version: template.version };
+    }
+  });
+  return usage;
+};
+
+/**
+ * Named, versioned system prompts for Step 1 and Step 2, persisted as a single
+ * JSON file like the brand kit store. Versions are append-only and templates
+ * are archived rather than deleted, so a recorded { id, version } always
+ * resolves to the exact text a run used. One version per role can be activated
+ * as the default in place of the env prompt.
+ */
+export class PromptTemplateService {
+  private store: PromptTemplateStore | null = null;
+  // Shared by concurrent first calls, so none of them mutates a store that is then replaced
+  private loading: Promise<PromptTemplateStore> | null = null;
+  // Serializes writes so concurrent requests never interleave partial files
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string = config.promptTemplates.filePath) {}
+
+  // Archived templates are left out
+  async list(role?: PromptTemplateRole): Promise<PromptTemplate[]> {
+    const { templates } = await this.load();
+    return Array.from(templates.values())
+      .filter((template) => !template.archivedAt && (!role || template.role === role))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<PromptTemplate | undefined> {
+    const { templates } = await this.load();
+    return templates.get(id);
+  }
+
+  async create({ content, note, ...fields }: PromptTemplateInput): Promise<PromptTemplate> {
+    const { templates } = await this.load();
+    const now = new Date().toISOString();
+    const template: PromptTemplate = {
+      ...fields,
+      id: randomUUID(),
+      versions: [{ version: 1, content, ...(note ? { note } : {}), createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    templates.set(template.id, template);
+    await this.persist();
+    logger.info('Prompt template created', {
+      id: template.id,
+      name: template.name,
+      role: template.role,
+    });
+    return template;
+  }
+
+  async update(
+    id: string,
+    { content, note, ...fields }: PromptTemplateUpdate,
+  ): Promise<PromptTemplate | undefined> {
+    const { templates } = await this.load();
+    const existing = templates.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const now = new Date().toISOString();
+    const latest = existing.versions[existing.versions.length - 1];
+    // Saving the same text again does not create a version
+    const versions = content !== undefined && content !== latest.content
+      ? [
+          ...existing.versions,
+          { version: latest.version + 1, content, ...(note ? { note } : {}), createdAt: now },
+        ]
+      : existing.versions;
+    const template: PromptTemplate = {
+      ...existing,
+      ...fields,
+      id,
+      versions,
+      createdAt: existing.createdAt,
+      updatedAt: now,
+    };
+    templates.set(id, template);
+    await this.persist();
+    if (versions !== existing.versions) {
+      logger.info('Prompt template version added', { id, version: latest.version + 1 });
+    }
+    return template;
+  }
+
+  /**
+   * Hides a template from the list and activation. Its versions are kept so
+   * earlier runs and experiment arms pinned to it still resolve.
+   */
+  async archive(id: string): Promise<boolean> {
+    const store = await this.load();
+    const existing = store.templates.get(id);
+    if (!existing) {
+      return false;
+    }
+    if (existing.archivedAt) {
+      return true;
+    }
+
+    const now = new Date().toISOString();
+    store.templates.set(id, { ...existing, archivedAt: now, updatedAt: now });
+    // Roles that pointed at the template fall back to the env prompt
+    PROMPT_TEMPLATE_ROLES.forEach((role) => {
+      if (store.active[role]?.id === id) {
+        delete store.active[role];
+      }
+    });
+    await this.persist();
+    logger.info('Prompt template archived', { id });
+    return true;
+  }
+
+  /**
+   * Activated template version per role, with current template names
+   */
+  async listActive(): Promise<PromptTemplateUsages> {
+    return toPromptTemplateUsage(await this.resolveActive());
+  }
+
+  /**
+   * Makes a template version the default for the template's role; the version
+   * must exist. Returns undefined when the template or version does not, or
+   * when the template is archived.
+   */
+  async activate(id: string, version?: number): Promise<PromptTemplateUsage | undefined> {
+    const store = await this.load();
+    const template = store.templates.get(id);
+    const resolved = template ? resolvePromptTemplate(template, version) : undefined;
+    if (!template || !resolved || template.archivedAt) {
+      return undefined;
+    }
+
+    store.active[template.role] = { id, version: resolved.version };
+    await this.persist();
+    logger.info('Prompt template activated', {
+      id,
+      role: template.role,
+      version: resolved.version,
+    });
+    return { id, name: resolved.name, version: resolved.version };
+  }
+
+  // Returns false when no template was active for the role
+  async deactivate(role: PromptTemplateRole): Promise<boolean> {
+    const store = await this.load();
+    if (!store.active[role]) {
+      return false;
+    }
+
+    delete store.active[role];
+    await this.persist();
+    logger.info('Prompt template deactivated', { role });
+    return true;
+  }
+
+  /**
+   * Activated template versions with their text, ready to be used by a run
+   */
+  async resolveActive(): Promise<ResolvedPromptTemplates> {
+    const { templates, active } = await this.load();
+    const resolved: ResolvedPromptTemplates = {};
+    PROMPT_TEMPLATE_ROLES.forEach((role) => {
+      const activation = active[role];
+      const template = activation && templates.get(activation.id);
+      const version = template && resolvePromptTemplate(template, activation.version);
+      if (version) {
+        resolved[role] = version;
+      }
+    });
+    return resolved;
+  }
+
+  /**
+   * Template versions for a run: the requested ones, falling back to the
+   * activated ones. Unknown templates or versions and role mismatches are a 400.
+   * Archived templates still resolve, so a recorded run can be repeated.
+   */
+  async resolve(selection: PromptTemplateSelection = {}): Promise<ResolvedPromptTemplates> {
+    const resolved = await this.resolveActive();
+    for (const role of PROMPT_TEMPLATE_ROLES) {
+      const ref = selection[role];
+      if (!ref) {
+        continue;
+      }
+
+      const template = await this.get(ref.id);
+      if (!template) {
+        throw new HttpError(400, `Prompt template ${ref.id} not found`);
+      }
+      if (template.role !== role) {
+        throw new HttpError(
+          400,
+          `Prompt template ${ref.id} is a ${template.role} template, not ${role}`,
+        );
+      }
+      const version = resolvePromptTemplate(template, ref.version);
+      if (!version) {
+        throw new HttpError(400, `Prompt template ${ref.id} has no version ${ref.version}`);
+      }
+      resolved[role] = version;
+    }
+    return resolved;
+  }
+
+  private load(): Promise<PromptTemplateStore> {
+    // A failed read is not cached, so the next call tries again
+    this.loading ??= this.read().then(
+      (store) => (this.store = store),
+      (error) => {
+        this.loading = null;
+        throw error;
+      },
+    );
+    return this.loading;
+  }
+
+  private async read(): Promise<PromptTemplateStore> {
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const stored = JSON.parse(raw) as {
+        templates: PromptTemplate[];
+        active?: PromptTemplateActivations;
+      };
+      return {
+        templates: new Map(stored.templates.map((template) => [template.id, template])),
+        active: stored.active ?? {},
+      };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      return { templates: new Map(), active: {} };
+    }
+  }
+
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(
+      {
+        templates: Array.from(this.store?.templates.values() ?? []),
+        active: this.store?.active ?? {},
+      },
+      null,
+      2,
+    );
+    const write = this.writeQueue.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      // Write then rename so a crash never leaves a truncated store behind
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.writeFile(tempPath, snapshot, 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    });
+    // A failed write is reported to its caller but must not block later ones
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+}
+
+export const promptTemplateService = new PromptTemplateService();
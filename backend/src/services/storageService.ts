@@ -1,4 +1,4 @@
-import { PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
 import crypto from 'crypto';
 import { config } from '../config';
 import { createLogger } from '../utils/logger';
@@ -20,7 +20,7 @@ export class StorageService {
   async uploadBuffer(options: {
     buffer: Buffer;
     mimeType: string;
-    prefix: 'inputs' | 'outputs';
+    prefix: 'inputs' | 'outputs' | 'thumbnails';
     extension?: string;
   }): Promise<{ key: string; url: string }> {
     const id = crypto.randomUUID();
@@ -36,10 +36,61 @@ export class StorageService {
     });
 
     await this.client.send(command);
-    const url = new URL(key, config.storage.publicBaseUrl).toString();
+    const url = this.getPublicUrl(key);
     logger.info('Uploaded asset to storage', { key });
     return { key, url };
   }
+
+  getPublicUrl(key: string): string {
+    return new URL(key, config.storage.publicBaseUrl).toString();
+  }
+
+  /**
+   * Maps a storage key or one of our own public URLs back to a key inside the
+   * configured folder. Returns null for anything we did not issue.
+   */
+  resolveKey(keyOrUrl: string): string | null {
+    let key = keyOrUrl.trim();
+
+    if (/^https?:\/\//i.test(key)) {
+      // Malformed URLs or percent-encoding are client input we did not issue, not a server error
+      try {
+        const url = new URL(key);
+        const baseUrl = new URL(config.storage.publicBaseUrl);
+        if (url.origin !== baseUrl.origin || !url.pathname.startsWith(baseUrl.pathname)) {
+          return null;
+        }
+        key = decodeURIComponent(url.pathname.slice(baseUrl.pathname.length));
+      } catch {
+        return null;
+      }
+    }
+
+    if (!key.startsWith(`${config.storage.folder}/`) || key.includes('..')) {
+      return null;
+    }
+    return key;
+  }
+
+  async downloadBuffer(key: string): Promise<{ buffer: Buffer; mimeType: string }> {
+    const response = await this.client.send(
+      new GetObjectCommand({
+        Bucket: config.storage.bucket,
+        Key: key,
+      }),
+    );
+
+    if (!response.Body) {
+      throw new Error(`Stored object ${key} has no body`);
+    }
+
+    const bytes = await response.Body.transformToByteArray();
+    logger.info('Downloaded asset from storage', { key, size: bytes.length });
+    return {
+      buffer: Buffer.from(bytes),
+      mimeType: response.ContentType ?? 'application/octet-stream',
+    };
+  }
 }
 
 export const storageService = new StorageService();
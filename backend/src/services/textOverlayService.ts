@@ -0,0 +1,286 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import sharp, { OverlayOptions } from 'sharp';
+import { config } from '../config';
+import { createLogger } from '../utils/logger';
+import { readFontDescription } from '../utils/fontDescription';
+import { TEXT_OVERLAY_LAYOUTS } from '../constants/textOverlayLayouts';
+import { TextOverlaySpec } from '../types/textOverlay';
+
+const logger = createLogger('textOverlayService');
+
+const FONT_EXTENSIONS = ['.ttf', '.otf'];
+// Used when a request does not pick a font
+const DEFAULT_FONT_FAMILY = 'sans';
+
+// Sizes as fractions of the image's shorter side
+const HEADLINE_SIZE = 0.075;
+const SUBHEADLINE_SIZE = 0.04;
+const CTA_SIZE = 0.036;
+const PADDING = 0.05;
+const LINE_GAP = 0.02;
+
+export type FontInfo = {
+  file: string;
+  // Pango font description read from the font file, e.g. "Lato Light"
+  description: string;
+};
+
+type ResolvedFont = {
+  description: string;
+  fontfile?: string;
+};
+
+type TextBlock = {
+  input: Buffer;
+  width: number;
+  height: number;
+};
+
+const escapeMarkup = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+/**
+ * Typesets headline, subheadline and CTA copy onto generated images, since image
+ * models render text poorly. Fonts come from FONT_DIR; layouts from TEXT_OVERLAY_LAYOUTS.
+ */
+export class TextOverlayService {
+  private readonly fonts = new Map<string, Promise<FontInfo>>();
+
+  constructor(private readonly fontDir: string = config.branding.fontDir) {}
+
+  /**
+   * Fonts available to the `font` field of a text overlay
+   */
+  async listFonts(): Promise<FontInfo[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.fontDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const fonts = await Promise.all(
+      files
+        .filter((file) => this.isFontFile(file))
+        .sort()
+        .map((file) => this.loadFont(file).catch(() => null)),
+    );
+    return fonts.filter((font): font is FontInfo => font !== null);
+  }
+
+  async hasFont(file: string): Promise<boolean> {
+    if (!this.isFontFile(file)) return false;
+    return this.loadFont(file).then(
+      () => true,
+      () => false,
+    );
+  }
+
+  /**
+   * Draws the copy onto the image, keeping its size and format
+   */
+  async render(buffer: Buffer, spec: TextOverlaySpec): Promise<Buffer> {
+    const image = sharp(buffer);
+    const { width, height, format } = await image.metadata();
+    if (!width || !height || !format) {
+      throw new Error('Could not read the generated image dimensions');
+    }
+
+    const layout = TEXT_OVERLAY_LAYOUTS[spec.layout];
+    const font = await this.resolveFont(spec.font);
+    const base = Math.min(width, height);
+    const padding = Math.round(base * PADDING);
+    const region = {
+      left: Math.round(layout.region.left * width),
+      top: Math.round(layout.region.top * height),
+      width: Math.round(layout.region.width * width),
+      height: Math.round(layout.region.height * height),
+    };
+    const textWidth = Math.max(1, region.width - 2 * padding);
+    const align = layout.align;
+
+    const blocks: TextBlock[] = [
+      await this.renderText(spec.headline, {
+        font,
+        size: Math.round(base * HEADLINE_SIZE),
+        color: spec.textColor,
+        width: textWidth,
+        align,
+        bold: true,
+      }),
+    ];
+    if (spec.subheadline) {
+      blocks.push(
+        await this.renderText(spec.subheadline, {
+          font,
+          size: Math.round(base * SUBHEADLINE_SIZE),
+          color: spec.textColor,
+          width: textWidth,
+          align,
+        }),
+      );
+    }
+    if (spec.cta) {
+      blocks.push(
+        await this.renderButton(spec.cta, {
+          font,
+          size: Math.round(base * CTA_SIZE),
+          color: spec.textColor,
+          fill: spec.accentColor,
+          width: textWidth,
+        }),
+      );
+    }
+
+    const gap = Math.round(base * LINE_GAP);
+    const blockHeight =
+      blocks.reduce((sum, block) => sum + block.height, 0) + gap * (blocks.length - 1);
+    const anchoredTop = {
+      top: region.top + padding,
+      middle: region.top + Math.round((region.height - blockHeight) / 2),
+      bottom: region.top + region.height - padding - blockHeight,
+    }[layout.anchor];
+    const blockTop = Math.max(0, Math.min(anchoredTop, height - blockHeight));
+    // The scrim grows with long, wrapped copy so the text never leaves it
+    const scrimTop = Math.max(0, Math.min(region.top, blockTop - padding));
+    const scrimHeight =
+      Math.min(height, Math.max(region.top + region.height, blockTop + blockHeight + padding)) -
+      scrimTop;
+
+    const layers: OverlayOptions[] = [
+      {
+        input: Buffer.from(
+          `<svg xmlns="http://www.w3.org/2000/svg" width="${region.width}" height="${scrimHeight}">` +
+            `<rect width="100%" height="100%" fill="#000000" fill-opacity="${layout.scrimOpacity}"/></svg>`,
+        ),
+        left: region.left,
+        top: scrimTop,
+      },
+    ];
+    let top = blockTop;
+    blocks.forEach((block) => {
+      const left =
+        align === 'centre'
+          ? region.left + Math.round((region.width - block.width) / 2)
+          : region.left + padding;
+      layers.push({
+        input: block.input,
+        left: Math.max(0, Math.min(left, width - block.width)),
+        top: Math.min(top, Math.max(0, height - block.height)),
+      });
+      top += block.height + gap;
+    });
+
+    logger.info('Typesetting text overlay onto generated image', {
+      layout: layout.id,
+      font: spec.font ?? DEFAULT_FONT_FAMILY,
+      blocks: blocks.length,
+    });
+    return image.composite(layers).toFormat(format).toBuffer();
+  }
+
+  private async renderText(
+    text: string,
+    options: {
+      font: ResolvedFont;
+      size: number;
+      color: string;
+      width: number;
+      align: 'left' | 'centre';
+      bold?: boolean;
+    },
+  ): Promise<TextBlock> {
+    const { font, size, color, width, align, bold } = options;
+    // Bold only applies to the system font; a chosen font file keeps its own weight
+    const weight = bold && !font.fontfile ? ' Bold' : '';
+    const { data, info } = await sharp({
+      text: {
+        text: `<span foreground="${color}">${escapeMarkup(text)}</span>`,
+        font: `${font.description}${weight} ${size}`,
+        ...(font.fontfile ? { fontfile: font.fontfile } : {}),
+        width,
+        align,
+        wrap: 'word',
+        dpi: 72,
+        rgba: true,
+      },
+    })
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    return { input: data, width: info.width, height: info.height };
+  }
+
+  private async renderButton(
+    text: string,
+    options: { font: ResolvedFont; size: number; color: string; fill: string; width: number },
+  ): Promise<TextBlock> {
+    const paddingX = Math.round(options.size * 0.9);
+    const paddingY = Math.round(options.size * 0.5);
+    const label = await this.renderText(text, {
+      ...options,
+      width: Math.max(1, options.width - 2 * paddingX),
+      align: 'centre',
+      bold: true,
+    });
+    const width = label.width + 2 * paddingX;
+    const height = label.height + 2 * paddingY;
+
+    const input = await sharp(
+      Buffer.from(
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+          `<rect width="100%" height="100%" rx="${Math.round(height / 2)}" fill="${options.fill}"/></svg>`,
+      ),
+    )
+      .composite([{ input: label.input, left: paddingX, top: paddingY }])
+      .png()
+      .toBuffer();
+
+    return { input, width, height };
+  }
+
+  private async resolveFont(file?: string): Promise<ResolvedFont> {
+    if (!file) {
+      return { description: DEFAULT_FONT_FAMILY };
+    }
+    if (!this.isFontFile(file)) {
+      throw new Error(`Font ${file} is not a font file name in FONT_DIR`);
+    }
+
+    const font = await this.loadFont(file);
+    return { description: font.description, fontfile: path.join(this.fontDir, file) };
+  }
+
+  private isFontFile(file: string): boolean {
+    return (
+      path.basename(file) === file &&
+      FONT_EXTENSIONS.includes(path.extname(file).toLowerCase())
+    );
+  }
+
+  private loadFont(file: string): Promise<FontInfo> {
+    let font = this.fonts.get(file);
+    if (!font) {
+      font = fs.readFile(path.join(this.fontDir, file)).then((data) => {
+        const description = readFontDescription(data);
+        if (!description) {
+          throw new Error(`Could not read the font family of ${file}`);
+        }
+        return { file, description };
+      });
+      // A failed read is retried on the next request
+      font.catch(() => this.fonts.delete(file));
+      this.fonts.set(file, font);
+    }
+    return font;
+  }
+}
+
+export const textOverlayService = new TextOverlayService();
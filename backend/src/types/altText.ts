@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+// Screen readers cut long alt text short, so keep it within this length
+export const MAX_ALT_TEXT_LENGTH = 150;
+
+// Shape the vision model is asked to return
+export const generatedAltTextSchema = z.object({
+  altText: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+});
+
+/**
+ * Accessibility text for one output: `altText` for the alt attribute, `description`
+ * for long descriptions (e.g. aria-describedby)
+ */
+export type ImageAltText = z.infer<typeof generatedAltTextSchema>;
@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { config } from '../config';
+
+export const hexColorSchema = z
+  .string()
+  .regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, 'Must be a hex color such as #1A2B3C');
+
+const ruleListSchema = z.array(z.string().trim().min(1).max(300)).max(20);
+
+/**
+ * Brand kit fields accepted on create; every field but `name` defaults to empty
+ */
+export const brandKitSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  palette: z.array(hexColorSchema).max(12).default([]),
+  // Style, typography mood and tone descriptors, e.g. "bold geometric sans-serif", "warm and optimistic"
+  styleDescriptors: ruleListSchema.default([]),
+  doRules: ruleListSchema.default([]),
+  // Banned imagery and other things the renders must avoid
+  dontRules: ruleListSchema.default([]),
+  // Storage keys (or our public URLs) of reusable reference assets such as logos or product shots
+  referenceAssets: z.array(z.string().min(1)).max(config.image.maxReferenceImages).default([]),
+});
+
+export const brandKitUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  palette: z.array(hexColorSchema).max(12).optional(),
+  styleDescriptors: ruleListSchema.optional(),
+  doRules: ruleListSchema.optional(),
+  dontRules: ruleListSchema.optional(),
+  referenceAssets: z.array(z.string().min(1)).max(config.image.maxReferenceImages).optional(),
+});
+
+export type BrandKitInput = z.infer<typeof brandKitSchema>;
+
+export type BrandKitUpdate = z.infer<typeof brandKitUpdateSchema>;
+
+export interface BrandKit {
+  id: string;
+  name: string;
+  palette: string[];
+  styleDescriptors: string[];
+  doRules: string[];
+  dontRules: string[];
+  // Normalized storage keys
+  referenceAssetKeys: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * A brand kit as fed into Step 2: the kit plus its loaded reference assets
+ */
+export type BrandKitContext = {
+  kit: BrandKit;
+  assets: Array<{ buffer: Buffer; mimeType: string }>;
+};
@@ -0,0 +1,124 @@
+import { z } from 'zod';
+import { PROMPT_TEMPLATE_ROLES, PromptTemplateRole } from './promptTemplate';
+
+export const EXPERIMENT_STATUSES = ['running', 'paused'] as const;
+
+export type ExperimentStatus = (typeof EXPERIMENT_STATUSES)[number];
+
+export const MAX_EXPERIMENT_ARMS = 10;
+
+const experimentArmSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  templateId: z.string().min(1),
+  // Defaults to the latest version; pinned when the experiment is created
+  version: z.coerce.number().int().min(1).optional(),
+  // Relative share of traffic, e.g. 80 and 20
+  weight: z.number().positive().max(1000),
+});
+
+/**
+ * Experiment fields accepted on create; arms are fixed afterwards so
+ * assignments and reports stay comparable
+ */
+export const experimentSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  role: z.enum(PROMPT_TEMPLATE_ROLES),
+  arms: z
+    .array(experimentArmSchema)
+    .min(2)
+    .max(MAX_EXPERIMENT_ARMS)
+    .refine(
+      (arms) => new Set(arms.map((arm) => arm.name.toLowerCase())).size === arms.length,
+      'Arm names must be unique',
+    ),
+  status: z.enum(EXPERIMENT_STATUSES).optional(),
+});
+
+export const experimentUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  status: z.enum(EXPERIMENT_STATUSES).optional(),
+});
+
+// 1 (poor) to 5 (excellent), like the quality judge's criteria
+export const experimentRatingSchema = z.object({
+  rating: z.coerce.number().int().min(1).max(5),
+});
+
+// Sent as the X-User-Id header; keeps a user on the same arm across runs
+export const experimentUserIdSchema = z.string().trim().min(1).max(200).optional();
+
+export type ExperimentInput = z.infer<typeof experimentSchema>;
+
+export type ExperimentUpdate = z.infer<typeof experimentUpdateSchema>;
+
+export interface ExperimentArm {
+  id: string;
+  name: string;
+  templateId: string;
+  version: number;
+  weight: number;
+}
+
+export interface Experiment {
+  id: string;
+  name: string;
+  role: PromptTemplateRole;
+  // At most one experiment per role is running at a time
+  status: ExperimentStatus;
+  // Set when the experiment was paused because an arm's template no longer resolves
+  pausedReason?: string;
+  arms: ExperimentArm[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Arm a run was assigned to, recorded on its result
+ */
+export interface ExperimentArmAssignment {
+  experimentId: string;
+  armId: string;
+  armName: string;
+  role: PromptTemplateRole;
+}
+
+export type ExperimentRunStatus = 'succeeded' | 'refused' | 'failed';
+
+/**
+ * Outcome of one image-flow job in one experiment
+ */
+export interface ExperimentRun {
+  jobId: string;
+  experimentId: string;
+  armId: string;
+  userId?: string;
+  status: ExperimentRunStatus;
+  // Mean overall judge score of the outputs; missing when nothing was judged
+  judgeScore?: number;
+  rating?: number;
+  createdAt: string;
+}
+
+export interface ExperimentMetric {
+  count: number;
+  // null while count is 0
+  mean: number | null;
+}
+
+export interface ExperimentArmReport extends ExperimentArm {
+  // false when the arm's template version no longer resolves, so the arm is not measured
+  templateAvailable: boolean;
+  runs: number;
+  succeeded: number;
+  refused: number;
+  failed: number;
+  // refused / runs; null while there are no runs
+  refusalRate: number | null;
+  judgeScore: ExperimentMetric;
+  userRating: ExperimentMetric;
+}
+
+export interface ExperimentReport {
+  experiment: Experiment;
+  arms: ExperimentArmReport[];
+}
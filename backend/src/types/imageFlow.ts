@@ -1,5 +1,70 @@
 import { z } from 'zod';
-import { ASPECT_RATIO_OPTIONS } from '../constants/aspectRatio';
+import { ASPECT_RATIO_OPTIONS, AspectRatioOption } from '../constants/aspectRatio';
+import { config } from '../config';
+import { IMAGE_FLOW_MODES, ImageFlowMode } from '../constants/imageFlowMode';
+import { getChannelPreset } from '../constants/channelPresets';
+import { LogoOverlayOptions, logoOverlaySchema } from './logoOverlay';
+import { TextOverlaySpec, textOverlaySchema } from './textOverlay';
+import { Rendition, renditionRequestsSchema } from './rendition';
+import { ImageThumbnails } from './thumbnail';
+import { MarketingCopyVariant, marketingCopyRequestSchema } from './marketingCopy';
+import { ImageAltText } from './altText';
+import { OutputQualityScore } from './qualityScore';
+import { SelfCorrectionReport, selfCorrectionRequestSchema } from './selfCorrection';
+import { PromptWarning, RefusalReason } from './promptGeneration';
+import { promptTemplateSelectionSchema, PromptTemplateUsages } from './promptTemplate';
+import { ExperimentArmAssignment } from './experiment';
+import {
+  SCENE_FIELDS,
+  SceneDescription,
+  sceneDescriptionSchema,
+  SceneField,
+} from './sceneDescription';
+
+// Channel pack: Step 3 runs once per ratio (duplicates are dropped, order is kept)
+const aspectRatiosSchema = z
+  .array(z.enum(ASPECT_RATIO_OPTIONS))
+  .min(1)
+  .transform((ratios) => Array.from(new Set(ratios)));
+
+// A pack renders exactly one output per ratio, so it cannot be combined with variants
+const isValidPackRequest = (payload: {
+  aspectRatios?: AspectRatioOption[];
+  variantCount?: number;
+}) => !payload.aspectRatios || (payload.variantCount ?? 1) === 1;
+
+const packRequestError = {
+  message: 'variantCount cannot be combined with aspectRatios',
+  path: ['variantCount'],
+};
+
+// Channel preset id from CHANNEL_PRESETS (GET /api/presets)
+const presetSchema = z
+  .string()
+  .refine((id) => getChannelPreset(id) !== undefined, 'Unknown channel preset');
+
+// A preset fixes the output size, so it cannot be combined with a pack of ratios
+const isValidPresetRequest = (payload: {
+  preset?: string;
+  aspectRatios?: AspectRatioOption[];
+}) => !(payload.preset && payload.aspectRatios);
+
+const presetRequestError = {
+  message: 'preset cannot be combined with aspectRatios',
+  path: ['preset'],
+};
+
+// The loop judges and re-renders a single output
+const isValidSelfCorrectionRequest = (payload: {
+  selfCorrection?: unknown;
+  aspectRatios?: AspectRatioOption[];
+  variantCount?: number;
+}) => !payload.selfCorrection || (!payload.aspectRatios && (payload.variantCount ?? 1) === 1);
+
+const selfCorrectionRequestError = {
+  message: 'selfCorrection cannot be combined with aspectRatios or variantCount',
+  path: ['selfCorrection'],
+};
 
 export const imageFlowSchema = z.object({
   // userPrompt is optional - if empty/not provided, Step 2 will be skipped and prompt1 will be used directly
@@ -7,7 +72,268 @@ export const imageFlowSchema = z.object({
   baseImageUrl: z.string().optional(),
   referenceImageUrls: z.array(z.string()).optional(),
   aspectRatio: z.enum(ASPECT_RATIO_OPTIONS).optional(),
-});
+  aspectRatios: aspectRatiosSchema.optional(),
+  // Channel preset: overrides aspectRatio and fixes the output size and format
+  preset: presetSchema.optional(),
+  // Brand kit fed into Step 2 (GET /api/brand-kits)
+  brandKitId: z.string().min(1).optional(),
+  // System prompt templates for Step 1 and Step 2 (GET /api/prompt-templates)
+  promptTemplates: promptTemplateSelectionSchema.optional(),
+  // Composite the configured logo onto every output (the clean render is stored too)
+  logo: logoOverlaySchema.optional(),
+  // Typeset headline/subheadline/CTA copy onto every output (the clean render is stored too)
+  textOverlay: textOverlaySchema.optional(),
+  // Extra formats/widths written for every output
+  renditions: renditionRequestsSchema.optional(),
+  // Write captions, headlines and hashtags from the final prompt alongside Step 3
+  marketingCopy: marketingCopyRequestSchema.optional(),
+  // Re-render with a revised prompt2 while the quality judge scores the output below a threshold
+  selfCorrection: selfCorrectionRequestSchema.optional(),
+  // 'edit' sends the source images to the generator with the final prompt instead of rendering from text
+  mode: z.enum(IMAGE_FLOW_MODES).optional(),
+  // Number of Step 3 outputs to produce from the same final prompt (multipart fields arrive as strings)
+  variantCount: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(config.image.maxVariantCount)
+    .optional(),
+})
+  .refine(isValidPackRequest, packRequestError)
+  .refine(isValidPresetRequest, presetRequestError)
+  .refine(isValidSelfCorrectionRequest, selfCorrectionRequestError);
 
 export type ImageFlowPayload = z.infer<typeof imageFlowSchema>;
 
+// Storage keys we issued for uploaded inputs, e.g. internaluse/inputs/<uuid>.png
+const inputKeySchema = z
+  .string()
+  .refine(
+    (key) => key.startsWith(`${config.storage.folder}/inputs/`) && !key.includes('..'),
+    'Must be an input image key issued by this service',
+  );
+
+/**
+ * Step 3 only: render a user-edited final prompt without re-running OpenAI
+ */
+export const imageRenderSchema = z.object({
+  prompt: z.string().trim().min(3).optional(),
+  // Edited scene fields, rendered into the prompt server-side; use instead of prompt
+  scene: sceneDescriptionSchema
+    .refine(
+      (scene) => SCENE_FIELDS.some((field) => scene[field].length > 0),
+      'Scene must describe at least one field',
+    )
+    .optional(),
+  // Original reconstruction prompt, carried through so the result keeps its lineage
+  prompt1: z.string().optional(),
+  baseImageKey: inputKeySchema,
+  referenceImageKeys: z.array(inputKeySchema).max(config.image.maxReferenceImages).optional(),
+  aspectRatio: z.enum(ASPECT_RATIO_OPTIONS).optional(),
+  aspectRatios: aspectRatiosSchema.optional(),
+  preset: presetSchema.optional(),
+  logo: logoOverlaySchema.optional(),
+  textOverlay: textOverlaySchema.optional(),
+  renditions: renditionRequestsSchema.optional(),
+  mode: z.enum(IMAGE_FLOW_MODES).optional(),
+  variantCount: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .max(config.image.maxVariantCount)
+    .optional(),
+})
+  .refine(isValidPackRequest, packRequestError)
+  .refine(isValidPresetRequest, presetRequestError)
+  .refine((payload) => (payload.prompt === undefined) !== (payload.scene === undefined), {
+    message: 'Provide either prompt or scene',
+    path: ['prompt'],
+  });
+
+export type ImageRenderPayload = z.infer<typeof imageRenderSchema>;
+
+// Storage keys we issued for generated outputs, e.g. internaluse/outputs/<uuid>.png
+const outputKeySchema = z
+  .string()
+  .refine(
+    (key) => key.startsWith(`${config.storage.folder}/outputs/`) && !key.includes('..'),
+    'Must be an output image key issued by this service',
+  );
+
+/**
+ * Re-apply overlays (e.g. edited copy) to a stored clean render without regenerating it
+ */
+export const imageOverlaySchema = z.object({
+  cleanImageKey: outputKeySchema,
+  textOverlay: textOverlaySchema,
+  logo: logoOverlaySchema.optional(),
+  renditions: renditionRequestsSchema.optional(),
+});
+
+export type ImageOverlayPayload = z.infer<typeof imageOverlaySchema>;
+
+/**
+ * Pipeline steps reported while a job is running
+ */
+export type ImageFlowStep = 'reconstruct' | 'edit' | 'generate';
+
+export type ImageFlowJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+/**
+ * One render of a multi-aspect-ratio pack
+ */
+export interface ImageFlowRender {
+  aspectRatio: AspectRatioOption;
+  outputImage: string;
+  outputImageKey: string;
+  // Render without the logo or text overlay, when one was applied
+  cleanOutputImage?: string;
+  cleanOutputImageKey?: string;
+  renditions?: Rendition[];
+  thumbnails?: ImageThumbnails;
+  altText?: ImageAltText;
+  qualityScore?: OutputQualityScore;
+}
+
+/**
+ * Payload returned once all three steps completed
+ */
+export interface ImageFlowResult {
+  baseImage: string;
+  baseImageKey: string;
+  referenceImages: string[];
+  referenceImageKeys: string[];
+  prompt1: string;
+  prompt2: string;
+  // Structured scene prompt1 was rendered from; missing when Step 1 answered with plain text
+  scene1?: SceneDescription;
+  // Scene prompt2 was rendered from; missing when a self-corrected revision replaced prompt2
+  scene2?: SceneDescription;
+  // Fields Step 2 rewrote, in SCENE_FIELDS order; not set on Step 3 only renders
+  sceneChanges?: SceneField[];
+  // First variant, kept for clients that only show a single output
+  outputImage: string;
+  outputImageKey: string;
+  outputImages: string[];
+  outputImageKeys: string[];
+  // Renders without overlays, in the same order as outputImages; only set when a logo or text overlay was applied
+  cleanOutputImages?: string[];
+  cleanOutputImageKeys?: string[];
+  // Requested renditions of each output, in the same order as outputImages
+  outputRenditions?: Rendition[][];
+  // Gallery previews; missing when thumbnailing failed or (for inputs) on Step 3 only renders
+  baseImageThumbnails?: ImageThumbnails;
+  referenceImageThumbnails?: Array<ImageThumbnails | null>;
+  outputThumbnails?: Array<ImageThumbnails | null>;
+  // Accessibility text per output, same order as outputImages; null where the vision call failed
+  outputAltTexts?: Array<ImageAltText | null>;
+  // Quality judge verdict per output, same order as outputImages; null where judging failed
+  outputQualityScores?: Array<OutputQualityScore | null>;
+  // Only set for aspect ratio packs; outputImages then holds one render per ratio in the same order
+  renders?: ImageFlowRender[];
+  isPromptGenerated: true;
+  step2Executed: boolean;
+  mode: ImageFlowMode;
+  // Channel preset the outputs were sized for
+  preset?: string;
+  brandKitId?: string;
+  // Logo settings composited onto outputImages
+  logo?: LogoOverlayOptions;
+  // Copy typeset onto outputImages; re-apply edited copy via POST /api/image-flow/overlay
+  textOverlay?: TextOverlaySpec;
+  // Set when marketingCopy was requested and the copy step succeeded
+  marketingCopyVariants?: MarketingCopyVariant[];
+  // Set when selfCorrection was requested: every attempt, and which one the outputs come from
+  selfCorrection?: SelfCorrectionReport;
+  // Set when a prompt step wrote a partial prompt, leaving part of the image or instructions out
+  promptWarnings?: PromptWarning[];
+  // Template version each prompt step used; roles left out used the env system prompt
+  promptTemplates?: PromptTemplateUsages;
+  // Experiment arms that picked promptTemplates; rate via POST /api/experiments/runs/:jobId/rating
+  experimentArms?: ExperimentArmAssignment[];
+}
+
+/**
+ * Payload returned by POST /api/image-flow/overlay
+ */
+export interface ImageOverlayResult {
+  outputImage: string;
+  outputImageKey: string;
+  cleanOutputImage: string;
+  cleanOutputImageKey: string;
+  textOverlay: TextOverlaySpec;
+  logo?: LogoOverlayOptions;
+  renditions?: Rendition[];
+  thumbnails?: ImageThumbnails;
+  altText?: ImageAltText;
+}
+
+/**
+ * Payload returned when a prompt step failed; carries whatever was produced before the failure
+ */
+export interface ImageFlowFailure {
+  baseImage: string;
+  referenceImages: string[];
+  prompt1: string | null;
+  prompt2: string | null;
+  outputImage: null;
+  error: string;
+  isPromptGenerated: false;
+  // Set when a prompt step refused, so clients can show reason-specific guidance
+  refusalReason?: RefusalReason;
+  promptTemplates?: PromptTemplateUsages;
+  experimentArms?: ExperimentArmAssignment[];
+}
+
+export type ImageFlowOutcome = ImageFlowResult | ImageFlowFailure;
+
+export interface ImageFlowJob {
+  id: string;
+  status: ImageFlowJobStatus;
+  step: ImageFlowStep | null;
+  createdAt: string;
+  updatedAt: string;
+  result: ImageFlowOutcome | null;
+  error: string | null;
+}
+
+/**
+ * Progress events emitted while the pipeline runs, streamed to clients over SSE
+ */
+export type ImageFlowEvent =
+  | { type: 'step'; step: ImageFlowStep }
+  | { type: 'uploads.stored'; baseImage: string; referenceImages: string[] }
+  | { type: 'prompt1.ready'; prompt1: string; scene?: SceneDescription }
+  | { type: 'prompt2.skipped'; prompt2: string }
+  | { type: 'prompt2.ready'; prompt2: string; scene?: SceneDescription; changedFields?: SceneField[] }
+  | { type: 'generation.fallback'; from: 'vertex'; to: 'fal'; reason: string }
+  | { type: 'marketingCopy.ready'; variantCount: number }
+  | {
+      type: 'selfCorrection.retry';
+      // Attempt about to be rendered
+      attempt: number;
+      maxAttempts: number;
+      previousScore: number;
+      threshold: number;
+    }
+  | {
+      type: 'output.uploaded';
+      variantIndex: number;
+      variantCount: number;
+      aspectRatio?: AspectRatioOption;
+      outputImage: string;
+      outputImageKey: string;
+      cleanOutputImage?: string;
+      cleanOutputImageKey?: string;
+      renditions?: Rendition[];
+      thumbnails?: ImageThumbnails;
+      altText?: ImageAltText;
+      qualityScore?: OutputQualityScore;
+    }
+  | { type: 'job.succeeded'; result: ImageFlowResult }
+  | { type: 'job.failed'; error: string; result: ImageFlowFailure | null };
+
+export type ImageFlowEventRecord = ImageFlowEvent & {
+  id: number;
+  timestamp: string;
+};
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const LOGO_POSITIONS = [
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+  'center',
+] as const;
+
+export type LogoPosition = (typeof LOGO_POSITIONS)[number];
+
+/**
+ * Per-request logo compositing settings; sending the object turns compositing on
+ */
+export const logoOverlaySchema = z.object({
+  position: z.enum(LOGO_POSITIONS).default('bottom-right'),
+  // Logo width as a fraction of the output width
+  scale: z.number().min(0.02).max(0.5).default(0.15),
+  opacity: z.number().min(0).max(1).default(1),
+  // Distance from the edges as a fraction of the output's shorter side
+  margin: z.number().min(0).max(0.25).default(0.04),
+});
+
+export type LogoOverlayOptions = z.infer<typeof logoOverlaySchema>;
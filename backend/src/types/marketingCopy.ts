@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { COPY_CHANNEL_IDS, CopyChannelId } from '../constants/copyChannels';
+
+export const MAX_MARKETING_COPY_VARIANTS = 3;
+
+/**
+ * Optional copy step: captions, headlines and hashtags written to match the final prompt
+ */
+export const marketingCopyRequestSchema = z.object({
+  // Channels to write a post for (duplicates are dropped); defaults to every channel
+  channels: z
+    .array(z.enum(COPY_CHANNEL_IDS))
+    .min(1)
+    .transform((channels) => Array.from(new Set(channels)))
+    .optional(),
+  variantCount: z.number().int().min(1).max(MAX_MARKETING_COPY_VARIANTS).default(2),
+});
+
+export type MarketingCopyRequest = z.infer<typeof marketingCopyRequestSchema>;
+
+// Shape the model is asked to return
+export const generatedMarketingCopySchema = z.object({
+  variants: z
+    .array(
+      z.object({
+        headline: z.string().trim().min(1),
+        body: z.string().trim().min(1),
+        cta: z.string().trim().min(1),
+        hashtags: z.array(z.string().trim().min(1)).default([]),
+        channels: z.record(z.string(), z.string().trim()).default({}),
+      }),
+    )
+    .min(1),
+});
+
+export type GeneratedMarketingCopy = z.infer<typeof generatedMarketingCopySchema>;
+
+export interface ChannelCopy {
+  channel: CopyChannelId;
+  text: string;
+  characterLimit: number;
+}
+
+export interface MarketingCopyVariant {
+  headline: string;
+  body: string;
+  cta: string;
+  // Always prefixed with '#'
+  hashtags: string[];
+  // Ready-to-post text per requested channel, within its character limit
+  channels: ChannelCopy[];
+}
@@ -0,0 +1,27 @@
+import { ModerationCategory } from '../constants/moderation';
+
+/**
+ * One request field to classify: the instructions text or an input image
+ */
+export type ModerationInput = {
+  // Request field name, e.g. userPrompt, baseImage, referenceImages[1]
+  field: string;
+  text?: string;
+  image?: { buffer: Buffer; mimeType: string };
+};
+
+// Category scores between 0 and 1; categories a provider does not report count as 0
+export type ModerationScores = Partial<Record<ModerationCategory, number>>;
+
+export type ModerationPolicy = {
+  blockedCategories: ModerationCategory[];
+  threshold: number;
+};
+
+export interface ModerationDecision {
+  allowed: boolean;
+  provider: string;
+  // Blocked categories hit by any field, in catalog order
+  categories: ModerationCategory[];
+  flagged: Array<{ field: string; categories: ModerationCategory[] }>;
+}
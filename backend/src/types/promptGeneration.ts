@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+// 'partial' prompts are usable but leave out something the model would not describe
+export const PROMPT_STATUSES = ['generated', 'refused', 'partial'] as const;
+
+export type PromptStatus = (typeof PROMPT_STATUSES)[number];
+
+export const REFUSAL_REASONS = [
+  // Sexual, violent, hateful or otherwise disallowed content
+  'content_policy',
+  // Identifying or recreating a real, recognisable person
+  'real_person',
+  // Trademarked characters, logos or copyrighted artwork
+  'copyright',
+  // Blank, corrupt, too blurry or too dark to describe
+  'unreadable_image',
+  'unclear_instructions',
+  'other',
+] as const;
+
+export type RefusalReason = (typeof REFUSAL_REASONS)[number];
+
+// Status fields shared by every prompt-writing reply
+export const promptStatusShape = {
+  status: z.enum(PROMPT_STATUSES),
+  // Unknown codes from the model fall back to 'other' rather than failing the step
+  refusalReason: z.enum(REFUSAL_REASONS).nullish().catch('other'),
+};
+
+// Generated prompts carry no reason; refused and partial ones always do
+export const withRefusalReason = <T extends { status: PromptStatus; refusalReason?: RefusalReason | null }>(
+  reply: T,
+): T & { refusalReason: RefusalReason | null } => ({
+  ...reply,
+  refusalReason: reply.status === 'generated' ? null : reply.refusalReason ?? 'other',
+});
+
+// Shape the model is asked to return for plain-text prompts: Step 2 edits without a scene, and revisions
+export const generatedPromptSchema = z
+  .object({
+    ...promptStatusShape,
+    prompt: z.string().trim(),
+  })
+  .transform(withRefusalReason);
+
+/**
+ * A prompt step that returned a partial prompt, and what it left out
+ */
+export interface PromptWarning {
+  step: 'reconstruct' | 'edit';
+  refusalReason: RefusalReason;
+}
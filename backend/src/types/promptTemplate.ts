@@ -0,0 +1,103 @@
+import { z } from 'zod';
+
+// Step 1 (SYSTEM_PROMPT_IMAGE_UNDERSTAND) and Step 2 (SYSTEM_PROMPT_PROMPT_EDITOR) system prompts
+export const PROMPT_TEMPLATE_ROLES = ['imageUnderstand', 'promptEditor'] as const;
+
+export type PromptTemplateRole = (typeof PROMPT_TEMPLATE_ROLES)[number];
+
+export const MAX_PROMPT_TEMPLATE_LENGTH = 20000;
+
+const contentSchema = z.string().trim().min(1).max(MAX_PROMPT_TEMPLATE_LENGTH);
+const noteSchema = z.string().trim().max(300);
+const versionSchema = z.coerce.number().int().min(1);
+
+/**
+ * Template fields accepted on create; `content` becomes version 1
+ */
+export const promptTemplateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  role: z.enum(PROMPT_TEMPLATE_ROLES),
+  content: contentSchema,
+  // What changed in this version, e.g. "stricter identity preservation"
+  note: noteSchema.optional(),
+});
+
+// New content is stored as the next version; earlier versions are never changed
+export const promptTemplateUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1).max(100).optional(),
+    content: contentSchema.optional(),
+    note: noteSchema.optional(),
+  })
+  .refine((update) => !update.note || update.content !== undefined, {
+    message: 'note describes a new version and requires content',
+    path: ['note'],
+  });
+
+export const promptTemplateActivateSchema = z.object({
+  // Defaults to the latest version
+  version: versionSchema.optional(),
+});
+
+const promptTemplateRefSchema = z.object({
+  id: z.string().min(1),
+  // Defaults to the latest version; pin it to reproduce an earlier run
+  version: versionSchema.optional(),
+});
+
+/**
+ * Per-request template choice; roles left out use the activated template, or the env prompt
+ */
+export const promptTemplateSelectionSchema = z.object({
+  imageUnderstand: promptTemplateRefSchema.optional(),
+  promptEditor: promptTemplateRefSchema.optional(),
+});
+
+export type PromptTemplateInput = z.infer<typeof promptTemplateSchema>;
+
+export type PromptTemplateUpdate = z.infer<typeof promptTemplateUpdateSchema>;
+
+export type PromptTemplateSelection = z.infer<typeof promptTemplateSelectionSchema>;
+
+export interface PromptTemplateVersion {
+  // 1-based, in creation order
+  version: number;
+  content: string;
+  note?: string;
+  createdAt: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  role: PromptTemplateRole;
+  // Oldest first; the last entry is the latest version
+  versions: PromptTemplateVersion[];
+  createdAt: string;
+  updatedAt: string;
+  // Set by DELETE: hidden from the list and activation, but still resolvable by id
+  archivedAt?: string;
+}
+
+/**
+ * A template version pinned for a role, or recorded as used by a run
+ */
+export interface PromptTemplateUsage {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export type PromptTemplateUsages = Partial<Record<PromptTemplateRole, PromptTemplateUsage>>;
+
+// Stored by id so renaming a template never leaves a stale name behind
+export type PromptTemplateActivations = Partial<
+  Record<PromptTemplateRole, Pick<PromptTemplateUsage, 'id' | 'version'>>
+>;
+
+/**
+ * Template versions a run uses, resolved by the caller; roles left out use the env prompt
+ */
+export type ResolvedPromptTemplates = Partial<
+  Record<PromptTemplateRole, PromptTemplateUsage & { content: string }>
+>;
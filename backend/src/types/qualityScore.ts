@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+export const QUALITY_CRITERIA = [
+  'instructionAdherence',
+  'identityPreservation',
+  // Higher means cleaner: 5 is free of artifacts
+  'artifacts',
+  'brandFit',
+] as const;
+
+export type QualityCriterion = (typeof QUALITY_CRITERIA)[number];
+
+const criterionScoreSchema = z.object({
+  // 1 (poor) to 5 (excellent)
+  score: z.coerce.number().int().min(1).max(5),
+  rationale: z.string().trim().min(1),
+});
+
+export type CriterionScore = z.infer<typeof criterionScoreSchema>;
+
+// Shape the vision model is asked to return
+export const generatedQualityScoreSchema = z.object({
+  instructionAdherence: criterionScoreSchema,
+  identityPreservation: criterionScoreSchema,
+  artifacts: criterionScoreSchema,
+  brandFit: criterionScoreSchema,
+});
+
+/**
+ * Judge's verdict on one output, compared with the base image and the instructions
+ */
+export type OutputQualityScore = Record<QualityCriterion, CriterionScore> & {
+  // Mean of the criteria scores, rounded to one decimal
+  overall: number;
+};
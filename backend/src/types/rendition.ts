@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { config } from '../config';
+import { OUTPUT_FORMATS, OutputFormat } from '../constants/outputFormat';
+
+/**
+ * Extra encodings written next to each output, e.g. a 640px WebP for the web
+ */
+export const renditionRequestSchema = z.object({
+  format: z.enum(OUTPUT_FORMATS),
+  // Target pixel width; the aspect ratio is kept and outputs are never upscaled
+  width: z.number().int().min(16).max(8192).optional(),
+  // Encoder quality for JPEG, WebP and AVIF (ignored for PNG)
+  quality: z.number().int().min(1).max(100).optional(),
+});
+
+export const renditionRequestsSchema = z
+  .array(renditionRequestSchema)
+  .min(1)
+  .max(config.image.maxRenditions);
+
+export type RenditionRequest = z.infer<typeof renditionRequestSchema>;
+
+/**
+ * A stored rendition of one output
+ */
+export interface Rendition {
+  format: OutputFormat;
+  width: number;
+  height: number;
+  quality?: number;
+  key: string;
+  url: string;
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import { promptStatusShape, withRefusalReason } from './promptGeneration';
+
+// The dimensions SYSTEM_PROMPT_IMAGE_UNDERSTAND asks for, in the order they are rendered
+export const SCENE_FIELDS = [
+  'subjects',
+  'identity',
+  'pose',
+  'clothing',
+  'background',
+  'lighting',
+  'mood',
+  'camera',
+  'style',
+] as const;
+
+export type SceneField = (typeof SCENE_FIELDS)[number];
+
+export const SCENE_FIELD_LABELS: Record<SceneField, string> = {
+  subjects: 'Subjects',
+  identity: 'Identity',
+  pose: 'Pose',
+  clothing: 'Clothing',
+  background: 'Background',
+  lighting: 'Lighting',
+  mood: 'Mood',
+  camera: 'Camera',
+  style: 'Style',
+};
+
+export const MAX_SCENE_FIELD_LENGTH = 2000;
+
+const sceneShape = <T extends z.ZodType>(field: T) =>
+  Object.fromEntries(SCENE_FIELDS.map((name) => [name, field])) as Record<SceneField, T>;
+
+// Fields that do not apply to the image are empty rather than missing
+const sceneFieldSchema = z
+  .string()
+  .trim()
+  .max(MAX_SCENE_FIELD_LENGTH)
+  .nullish()
+  .transform((value) => value ?? '');
+
+export const sceneDescriptionSchema = z.object(sceneShape(sceneFieldSchema));
+
+/**
+ * Step 1 output, one field per dimension; the text prompt is rendered from it
+ */
+export type SceneDescription = z.infer<typeof sceneDescriptionSchema>;
+
+// Shape the vision model is asked to return for Step 1
+export const generatedSceneSchema = z
+  .object({
+    ...promptStatusShape,
+    scene: sceneDescriptionSchema.nullish(),
+    // Only used for the explanation of a refusal
+    prompt: z.string().trim().nullish(),
+  })
+  .transform(withRefusalReason);
+
+// Shape the model is asked to return for Step 2: only the fields the instructions change
+export const generatedSceneEditSchema = z
+  .object({
+    ...promptStatusShape,
+    // A field set to null is left unchanged; an empty string clears it
+    changes: z
+      .object(sceneShape(z.string().trim().max(MAX_SCENE_FIELD_LENGTH).nullish()))
+      .nullish(),
+    prompt: z.string().trim().nullish(),
+  })
+  .transform(withRefusalReason);
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { ImageThumbnails } from './thumbnail';
+import { OutputQualityScore } from './qualityScore';
+
+export const MAX_SELF_CORRECTION_ATTEMPTS = 4;
+
+/**
+ * Opt-in regeneration loop: while the judge's overall score is below the
+ * threshold, prompt2 is revised from the critique and Step 3 runs again
+ */
+export const selfCorrectionRequestSchema = z.object({
+  // Overall quality score (1–5) an output must reach to stop retrying
+  threshold: z.number().min(1).max(5).default(4),
+  // Renders in total, including the first one
+  maxAttempts: z.number().int().min(2).max(MAX_SELF_CORRECTION_ATTEMPTS).default(3),
+});
+
+export type SelfCorrectionRequest = z.infer<typeof selfCorrectionRequestSchema>;
+
+/**
+ * One render of the loop, kept for audit whether or not it was selected
+ */
+export interface SelfCorrectionAttempt {
+  // 1-based; attempt 1 is the regular Step 3 render
+  attempt: number;
+  prompt2: string;
+  outputImage: string;
+  outputImageKey: string;
+  thumbnails?: ImageThumbnails;
+  // null when the judge call failed, which also ends the loop
+  qualityScore: OutputQualityScore | null;
+}
+
+export interface SelfCorrectionReport {
+  threshold: number;
+  maxAttempts: number;
+  attempts: SelfCorrectionAttempt[];
+  // Attempt whose output is returned as the result (the best scored, latest on ties)
+  selectedAttempt: number;
+  // Whether the selected attempt reached the threshold
+  accepted: boolean;
+}
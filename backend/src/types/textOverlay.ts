@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { TEXT_OVERLAY_LAYOUT_IDS } from '../constants/textOverlayLayouts';
+import { hexColorSchema } from './brandKit';
+
+/**
+ * Marketing copy typeset onto outputs after generation; the layout template
+ * decides where the block sits and how it is aligned
+ */
+export const textOverlaySchema = z.object({
+  headline: z.string().trim().min(1).max(120),
+  subheadline: z.string().trim().max(200).optional(),
+  cta: z.string().trim().max(40).optional(),
+  // File name inside FONT_DIR (GET /api/fonts); the system sans-serif is used when omitted
+  font: z.string().trim().min(1).optional(),
+  layout: z.enum(TEXT_OVERLAY_LAYOUT_IDS).default('bottom-band'),
+  textColor: hexColorSchema.default('#FFFFFF'),
+  // CTA button fill
+  accentColor: hexColorSchema.default('#E4572E'),
+});
+
+export type TextOverlaySpec = z.infer<typeof textOverlaySchema>;
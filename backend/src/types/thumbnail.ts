@@ -0,0 +1,21 @@
+export const THUMBNAIL_SIZES = ['small', 'medium'] as const;
+
+export type ThumbnailSize = (typeof THUMBNAIL_SIZES)[number];
+
+// Target widths in pixels; images are never upscaled
+export const THUMBNAIL_WIDTHS: Record<ThumbnailSize, number> = {
+  small: 320,
+  medium: 960,
+};
+
+export interface Thumbnail {
+  width: number;
+  height: number;
+  thumbnailKey: string;
+  thumbnailUrl: string;
+}
+
+/**
+ * WebP previews stored next to an input or output so galleries never load the full image
+ */
+export type ImageThumbnails = Record<ThumbnailSize, Thumbnail>;
@@ -0,0 +1,77 @@
+const NAME_IDS = {
+  family: 1,
+  subfamily: 2,
+  typographicFamily: 16,
+  typographicSubfamily: 17,
+} as const;
+const PLATFORM_MACINTOSH = 1;
+const PLATFORM_WINDOWS = 3;
+
+const decodeUtf16Be = (bytes: Buffer): string => {
+  const swapped = Buffer.from(bytes);
+  swapped.swap16();
+  return swapped.toString('utf16le');
+};
+
+const readNames = (font: Buffer): Map<number, string> => {
+  const names = new Map<number, { name: string; platformId: number }>();
+
+  const numTables = font.readUInt16BE(4);
+  let nameTableOffset: number | undefined;
+  for (let index = 0; index < numTables; index += 1) {
+    const record = 12 + index * 16;
+    if (font.toString('latin1', record, record + 4) === 'name') {
+      nameTableOffset = font.readUInt32BE(record + 8);
+      break;
+    }
+  }
+  if (nameTableOffset === undefined) return new Map();
+
+  const wanted: number[] = Object.values(NAME_IDS);
+  const count = font.readUInt16BE(nameTableOffset + 2);
+  const storageOffset = nameTableOffset + font.readUInt16BE(nameTableOffset + 4);
+  for (let index = 0; index < count; index += 1) {
+    const record = nameTableOffset + 6 + index * 12;
+    const platformId = font.readUInt16BE(record);
+    const nameId = font.readUInt16BE(record + 6);
+    const existing = names.get(nameId);
+    if (
+      !wanted.includes(nameId) ||
+      (platformId !== PLATFORM_WINDOWS && platformId !== PLATFORM_MACINTOSH) ||
+      // Windows entries are preferred over Macintosh ones
+      (existing && (existing.platformId === PLATFORM_WINDOWS || platformId !== PLATFORM_WINDOWS))
+    ) {
+      continue;
+    }
+
+    const start = storageOffset + font.readUInt16BE(record + 10);
+    const bytes = font.subarray(start, start + font.readUInt16BE(record + 8));
+    const name = (
+      platformId === PLATFORM_WINDOWS ? decodeUtf16Be(bytes) : bytes.toString('latin1')
+    ).trim();
+    if (name) {
+      names.set(nameId, { name, platformId });
+    }
+  }
+
+  return new Map(Array.from(names, ([nameId, { name }]) => [nameId, name]));
+};
+
+/**
+ * Reads a TrueType/OpenType font's `name` table and returns a Pango font
+ * description ("Family Style", e.g. "Lato Light"), which is what Pango needs to
+ * pick this exact face out of the loaded font files.
+ * Returns undefined for collections or files it cannot parse.
+ */
+export const readFontDescription = (font: Buffer): string | undefined => {
+  try {
+    const names = readNames(font);
+    const family = names.get(NAME_IDS.typographicFamily) ?? names.get(NAME_IDS.family);
+    if (!family) return undefined;
+
+    const style = names.get(NAME_IDS.typographicSubfamily) ?? names.get(NAME_IDS.subfamily);
+    return style && style !== 'Regular' ? `${family} ${style}` : family;
+  } catch {
+    return undefined;
+  }
+};
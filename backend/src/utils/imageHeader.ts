@@ -0,0 +1,215 @@
+export type SniffedImageFormat = 'png' | 'jpeg' | 'webp' | 'gif';
+
+export interface ImageHeader {
+  format: SniffedImageFormat;
+  mimeType: string;
+  width: number;
+  height: number;
+  // Animated GIFs/WebPs and APNGs report more than one frame
+  frameCount: number;
+}
+
+/**
+ * Thrown when the bytes start like a known format but the header cannot be read
+ */
+export class CorruptImageError extends Error {}
+
+const MIME_TYPES: Record<SniffedImageFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Identifies the real format from the leading magic bytes, ignoring what the client claimed
+ */
+export const sniffImageFormat = (buffer: Buffer): SniffedImageFormat | null => {
+  if (buffer.subarray(0, 8).equals(PNG_SIGNATURE)) return 'png';
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpeg';
+  }
+  const signature = buffer.toString('latin1', 0, 6);
+  if (signature === 'GIF87a' || signature === 'GIF89a') return 'gif';
+  if (
+    buffer.toString('latin1', 0, 4) === 'RIFF' &&
+    buffer.toString('latin1', 8, 12) === 'WEBP'
+  ) {
+    return 'webp';
+  }
+  return null;
+};
+
+const readPng = (buffer: Buffer) => {
+  let width = 0;
+  let height = 0;
+  let frameCount = 1;
+  let offset = PNG_SIGNATURE.length;
+  // Chunks up to the first IDAT carry everything we need
+  while (offset + 8 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const data = offset + 8;
+    if (data + length > buffer.length) break;
+
+    if (type === 'IHDR' && length >= 8) {
+      width = buffer.readUInt32BE(data);
+      height = buffer.readUInt32BE(data + 4);
+    } else if (type === 'acTL' && length >= 4) {
+      frameCount = buffer.readUInt32BE(data);
+    } else if (type === 'IDAT') {
+      return { width, height, frameCount };
+    }
+    // Data plus the trailing CRC
+    offset = data + length + 4;
+  }
+  throw new CorruptImageError('PNG image data is missing or truncated');
+};
+
+const isStartOfFrame = (marker: number) =>
+  marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+const readJpeg = (buffer: Buffer) => {
+  let offset = 2;
+  while (offset + 4 <= buffer.length) {
+    if (buffer[offset] !== 0xff) break;
+    const marker = buffer[offset + 1];
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    if (marker === 0xd9 || marker === 0xda) break;
+
+    const length = buffer.readUInt16BE(offset + 2);
+    if (isStartOfFrame(marker)) {
+      if (offset + 9 > buffer.length) break;
+      return {
+        width: buffer.readUInt16BE(offset + 7),
+        height: buffer.readUInt16BE(offset + 5),
+        frameCount: 1,
+      };
+    }
+    offset += 2 + length;
+  }
+  throw new CorruptImageError('JPEG frame header is missing or truncated');
+};
+
+const readWebp = (buffer: Buffer) => {
+  let width = 0;
+  let height = 0;
+  let frameCount = 0;
+  let offset = 12;
+  while (offset + 8 <= buffer.length) {
+    const type = buffer.toString('latin1', offset, offset + 4);
+    const length = buffer.readUInt32LE(offset + 4);
+    const data = offset + 8;
+    if (data + length > buffer.length) {
+      throw new CorruptImageError(`WebP ${type.trim()} chunk is truncated`);
+    }
+
+    if (type === 'VP8X' && length >= 10) {
+      width = buffer.readUIntLE(data + 4, 3) + 1;
+      height = buffer.readUIntLE(data + 7, 3) + 1;
+    } else if (type === 'VP8 ' && length >= 10) {
+      frameCount += 1;
+      width ||= buffer.readUInt16LE(data + 6) & 0x3fff;
+      height ||= buffer.readUInt16LE(data + 8) & 0x3fff;
+    } else if (type === 'VP8L' && length >= 5) {
+      frameCount += 1;
+      const bits = buffer.readUInt32LE(data + 1);
+      width ||= (bits & 0x3fff) + 1;
+      height ||= ((bits >> 14) & 0x3fff) + 1;
+    } else if (type === 'ANMF') {
+      frameCount += 1;
+    }
+    // Chunks are padded to an even length
+    offset = data + length + (length % 2);
+  }
+  if (frameCount === 0) {
+    throw new CorruptImageError('WebP image data is missing');
+  }
+  return { width, height, frameCount };
+};
+
+const skipSubBlocks = (buffer: Buffer, offset: number): number => {
+  let position = offset;
+  while (position < buffer.length) {
+    const size = buffer[position];
+    position += 1 + size;
+    if (size === 0) return position;
+  }
+  throw new CorruptImageError('GIF data block is truncated');
+};
+
+const readGif = (buffer: Buffer) => {
+  if (buffer.length < 13) {
+    throw new CorruptImageError('GIF screen descriptor is truncated');
+  }
+  const width = buffer.readUInt16LE(6);
+  const height = buffer.readUInt16LE(8);
+  const flags = buffer[10];
+  let offset = 13 + (flags & 0x80 ? 3 * 2 ** ((flags & 0x07) + 1) : 0);
+  let frameCount = 0;
+
+  while (offset < buffer.length) {
+    const block = buffer[offset];
+    if (block === 0x3b) {
+      if (frameCount === 0) break;
+      return { width, height, frameCount };
+    }
+    if (block === 0x21) {
+      offset = skipSubBlocks(buffer, offset + 2);
+    } else if (block === 0x2c) {
+      if (offset + 10 > buffer.length) break;
+      const imageFlags = buffer[offset + 9];
+      offset += 10 + (imageFlags & 0x80 ? 3 * 2 ** ((imageFlags & 0x07) + 1) : 0);
+      // LZW minimum code size, then the image data
+      offset = skipSubBlocks(buffer, offset + 1);
+      frameCount += 1;
+    } else {
+      throw new CorruptImageError(`Unexpected GIF block 0x${block.toString(16)}`);
+    }
+  }
+  throw new CorruptImageError('GIF image data is missing or truncated');
+};
+
+const READERS: Record<
+  SniffedImageFormat,
+  (buffer: Buffer) => Pick<ImageHeader, 'width' | 'height' | 'frameCount'>
+> = {
+  png: readPng,
+  jpeg: readJpeg,
+  webp: readWebp,
+  gif: readGif,
+};
+
+/**
+ * Reads the real format, dimensions and frame count from the image header.
+ * Returns null for bytes that are not a supported image; throws CorruptImageError
+ * when the header of a recognised format is malformed.
+ */
+export const readImageHeader = (buffer: Buffer): ImageHeader | null => {
+  const format = sniffImageFormat(buffer);
+  if (!format) return null;
+
+  let header: Pick<ImageHeader, 'width' | 'height' | 'frameCount'>;
+  try {
+    header = READERS[format](buffer);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new CorruptImageError(`${format.toUpperCase()} header is truncated`);
+    }
+    throw error;
+  }
+  if (header.width <= 0 || header.height <= 0) {
+    throw new CorruptImageError(`${format.toUpperCase()} header has no dimensions`);
+  }
+  return { format, mimeType: MIME_TYPES[format], ...header };
+};
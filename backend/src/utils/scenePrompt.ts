@@ -0,0 +1,12 @@
+import { SCENE_FIELD_LABELS, SCENE_FIELDS, SceneDescription } from '../types/sceneDescription';
+
+const endSentence = (text: string): string => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+/**
+ * Renders a scene description as the text prompt sent to the image model:
+ * one labelled line per filled-in field, in SCENE_FIELDS order
+ */
+export const renderScenePrompt = (scene: SceneDescription): string =>
+  SCENE_FIELDS.filter((field) => scene[field].trim())
+    .map((field) => `${SCENE_FIELD_LABELS[field]}: ${endSentence(scene[field].trim())}`)
+    .join('\n');
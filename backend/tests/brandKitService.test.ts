@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { BrandKitService } from '../src/services/brandKitService';
+
+const fields = {
+  name: 'Acme',
+  palette: ['#FF5500', '#111111'],
+  styleDescriptors: ['bold geometric sans-serif'],
+  doRules: ['Show the product in natural daylight'],
+  dontRules: ['No alcohol or smoking'],
+  referenceAssetKeys: ['internaluse/inputs/logo.png'],
+};
+
+describe('BrandKitService', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'brand-kits-'));
+    filePath = path.join(dir, 'nested', 'brand-kits.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('persists kits across instances', async () => {
+    const service = new BrandKitService(filePath);
+    const kit = await service.create(fields);
+
+    expect(kit).toMatchObject({ ...fields, id: expect.any(String) });
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toHaveLength(1);
+
+    const reloaded = new BrandKitService(filePath);
+    expect(await reloaded.get(kit.id)).toEqual(kit);
+  });
+
+  it('updates and removes kits', async () => {
+    const service = new BrandKitService(filePath);
+    const kit = await service.create(fields);
+
+    const updated = await service.update(kit.id, { palette: ['#000000'] });
+    expect(updated).toMatchObject({
+      id: kit.id,
+      name: 'Acme',
+      palette: ['#000000'],
+      createdAt: kit.createdAt,
+    });
+    expect(await service.update('missing', { name: 'Other' })).toBeUndefined();
+
+    expect(await service.remove(kit.id)).toBe(true);
+    expect(await service.remove(kit.id)).toBe(false);
+    expect(await new BrandKitService(filePath).list()).toEqual([]);
+  });
+
+  it('keeps every write from concurrent first calls', async () => {
+    const service = new BrandKitService(filePath);
+    await Promise.all(['First', 'Second'].map((name) => service.create({ ...fields, name })));
+
+    expect(JSON.parse(await readFile(filePath, 'utf8'))).toHaveLength(2);
+  });
+});
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ExperimentService, pickExperimentArm } from '../src/services/experimentService';
+import { PromptTemplateService } from '../src/services/promptTemplateService';
+import { ImageFlowOutcome } from '../src/types/imageFlow';
+
+describe('ExperimentService', () => {
+  let dir: string;
+  let templates: PromptTemplateService;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'experiments-'));
+    templates = new PromptTemplateService(path.join(dir, 'prompt-templates.json'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createEditors = async () => {
+    const control = await templates.create({
+      name: 'Control',
+      role: 'promptEditor',
+      content: 'v1',
+    });
+    const candidate = await templates.create({
+      name: 'Candidate',
+      role: 'promptEditor',
+      content: 'v1',
+    });
+    await templates.update(candidate.id, { content: 'v2' });
+    return { control, candidate };
+  };
+
+  it('assigns users to weighted arms stickily unless a template was requested', async () => {
+    const { control, candidate } = await createEditors();
+    const service = new ExperimentService(path.join(dir, 'experiments.json'), templates);
+    const experiment = await service.create({
+      name: 'Stricter editor',
+      role: 'promptEditor',
+      arms: [
+        { name: 'control', templateId: control.id, weight: 80 },
+        { name: 'candidate', templateId: candidate.id, weight: 20 },
+      ],
+    });
+
+    expect(experiment.arms.map((arm) => arm.version)).toEqual([1, 2]);
+    expect(pickExperimentArm(experiment.arms, 0.79).name).toBe('control');
+    expect(pickExperimentArm(experiment.arms, 0.8).name).toBe('candidate');
+
+    const first = await service.resolve({}, 'user-1');
+    const reloaded = new ExperimentService(path.join(dir, 'experiments.json'), templates);
+    const again = await reloaded.resolve({}, 'user-1');
+    expect(again).toEqual(first);
+    expect(first.experimentArms).toEqual([
+      expect.objectContaining({ experimentId: experiment.id, role: 'promptEditor' }),
+    ]);
+    const arm = experiment.arms.find(({ id }) => id === first.experimentArms[0].armId);
+    expect(first.promptTemplates.promptEditor).toMatchObject({
+      id: arm?.templateId,
+      version: arm?.version,
+    });
+
+    // Runs that skip Step 2 never use the promptEditor template, so they get no arm
+    expect(await reloaded.resolve({}, 'user-1', ['imageUnderstand'])).toEqual({
+      promptTemplates: {},
+      experimentArms: [],
+    });
+
+    expect(
+      await reloaded.resolve({ promptEditor: { id: control.id, version: 1 } }, 'user-1'),
+    ).toEqual({
+      promptTemplates: { promptEditor: expect.objectContaining({ id: control.id }) },
+      experimentArms: [],
+    });
+
+    // One running experiment per role
+    await expect(
+      reloaded.create({
+        name: 'Another',
+        role: 'promptEditor',
+        arms: experiment.arms,
+      }),
+    ).rejects.toMatchObject({ status: 409 });
+    await reloaded.update(experiment.id, { status: 'paused' });
+    expect((await reloaded.resolve({}, 'user-1')).experimentArms).toEqual([]);
+  });
+
+  it('pauses an experiment whose arm template no longer resolves', async () => {
+    const { control, candidate } = await createEditors();
+    const filePath = path.join(dir, 'experiments.json');
+    const experiment = await new ExperimentService(filePath, templates).create({
+      name: 'Stricter editor',
+      role: 'promptEditor',
+      arms: [
+        { name: 'control', templateId: control.id, weight: 1 },
+        { name: 'candidate', templateId: candidate.id, weight: 1 },
+      ],
+    });
+    // A template store without the arm templates, e.g. restored from an older backup
+    const service = new ExperimentService(
+      filePath,
+      new PromptTemplateService(path.join(dir, 'empty-templates.json')),
+    );
+
+    expect(await service.resolve({}, 'user-1')).toEqual({
+      promptTemplates: {},
+      experimentArms: [],
+    });
+    expect(await service.get(experiment.id)).toMatchObject({
+      status: 'paused',
+      pausedReason: expect.stringMatching(/no longer resolves/),
+    });
+    expect((await service.report(experiment.id))?.arms).toEqual([
+      expect.objectContaining({ templateAvailable: false }),
+      expect.objectContaining({ templateAvailable: false }),
+    ]);
+    await expect(
+      service.update(experiment.id, { status: 'running' }),
+    ).rejects.toMatchObject({ status: 409 });
+  });
+
+  it('keeps every write from concurrent first calls', async () => {
+    const { control, candidate } = await createEditors();
+    const filePath = path.join(dir, 'experiments.json');
+    const service = new ExperimentService(filePath, templates);
+    const arms = [
+      { name: 'control', templateId: control.id, weight: 1 },
+      { name: 'candidate', templateId: candidate.id, weight: 1 },
+    ];
+
+    await Promise.all(
+      ['First', 'Second'].map((name) =>
+        service.create({ name, role: 'promptEditor', arms, status: 'paused' })),
+    );
+
+    expect(await new ExperimentService(filePath, templates).list()).toEqual([
+      expect.objectContaining({ name: 'First' }),
+      expect.objectContaining({ name: 'Second' }),
+    ]);
+  });
+
+  it('aggregates recorded runs and ratings per arm', async () => {
+    const { control, candidate } = await createEditors();
+    const service = new ExperimentService(path.join(dir, 'experiments.json'), templates);
+    const experiment = await service.create({
+      name: 'Stricter editor',
+      role: 'promptEditor',
+      arms: [
+        { name: 'control', templateId: control.id, weight: 1 },
+        { name: 'candidate', templateId: candidate.id, version: 1, weight: 1 },
+      ],
+    });
+    const [controlArm, candidateArm] = experiment.arms;
+    const record = (jobId: string, armId: string, outcome: ImageFlowOutcome | null) =>
+      service.recordRun({
+        jobId,
+        experimentArms: [
+          { experimentId: experiment.id, armId, armName: 'arm', role: 'promptEditor' },
+        ],
+        outcome,
+      });
+    const succeeded = (overall: number) => ({
+      isPromptGenerated: true,
+      outputQualityScores: [{ overall }, null],
+    }) as unknown as ImageFlowOutcome;
+    const refused = {
+      isPromptGenerated: false,
+      refusalReason: 'safety',
+    } as unknown as ImageFlowOutcome;
+
+    await record('a', controlArm.id, succeeded(4));
+    await record('b', controlArm.id, succeeded(3));
+    await record('c', candidateArm.id, refused);
+    await record('d', candidateArm.id, null);
+    expect(await service.rate('a', 5)).toBe(true);
+    expect(await service.rate('unknown', 5)).toBe(false);
+
+    const report = await new ExperimentService(
+      path.join(dir, 'experiments.json'),
+      templates,
+    ).report(experiment.id);
+    expect(report?.arms).toEqual([
+      expect.objectContaining({
+        id: controlArm.id,
+        templateAvailable: true,
+        runs: 2,
+        succeeded: 2,
+        refusalRate: 0,
+        judgeScore: { count: 2, mean: 3.5 },
+        userRating: { count: 1, mean: 5 },
+      }),
+      expect.objectContaining({
+        id: candidateArm.id,
+        runs: 2,
+        refused: 1,
+        failed: 1,
+        refusalRate: 0.5,
+        judgeScore: { count: 0, mean: null },
+        userRating: { count: 0, mean: null },
+      }),
+    ]);
+  });
+});
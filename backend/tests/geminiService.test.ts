@@ -86,5 +86,97 @@ describe('GeminiService', () => {
     );
     expect(fallback.generateImage).not.toHaveBeenCalled();
   });
-});
 
+  it('generates variants in parallel and tops up quota failures via fal.ai', async () => {
+    const quotaError = Object.assign(new Error('RESOURCE_EXHAUSTED'), {
+      code: 8,
+    });
+    const inlineResponse = {
+      response: {
+        candidates: [
+          {
+            content: {
+              parts: [
+                { inlineData: { data: Buffer.from('vertex').toString('base64') } },
+              ],
+            },
+          },
+        ],
+      },
+    };
+    const generateContent = vi
+      .fn()
+      .mockResolvedValueOnce(inlineResponse)
+      .mockRejectedValueOnce(quotaError)
+      .mockRejectedValueOnce(quotaError);
+    const fallback = {
+      generateImages: vi
+        .fn()
+        .mockResolvedValue([Buffer.from('fal-1'), Buffer.from('fal-2')]),
+    };
+    const onFallback = vi.fn();
+
+    const service = new GeminiService({ generateContent } as any, fallback as any);
+    const buffers = await service.generateImages('prompt', 3, {}, { onFallback });
+
+    expect(generateContent).toHaveBeenCalledTimes(3);
+    expect(fallback.generateImages).toHaveBeenCalledWith('prompt', 2, {
+      aspectRatio: config.fal.aspectRatio,
+    });
+    expect(onFallback).toHaveBeenCalledOnce();
+    expect(buffers.map((buffer) => buffer.toString())).toEqual([
+      'vertex',
+      'fal-1',
+      'fal-2',
+    ]);
+  });
+
+  it('sends source images inline in edit mode and to the fal.ai edit endpoint on fallback', async () => {
+    const quotaError = Object.assign(new Error('RESOURCE_EXHAUSTED'), {
+      code: 8,
+    });
+    const generateContent = vi.fn().mockRejectedValue(quotaError);
+    const fallback = {
+      generateImage: vi.fn().mockResolvedValue(Buffer.from('fal-edit')),
+    };
+    const sourceImages = [
+      {
+        buffer: Buffer.from('base'),
+        mimeType: 'image/png',
+        url: 'https://public.example.com/internaluse/inputs/base.png',
+      },
+      {
+        buffer: Buffer.from('reference'),
+        mimeType: 'image/jpeg',
+        url: 'https://public.example.com/internaluse/inputs/reference.jpg',
+      },
+    ];
+
+    const service = new GeminiService({ generateContent } as any, fallback as any);
+    const buffer = await service.generateImage('prompt', {
+      aspectRatio: '1:1',
+      sourceImages,
+    });
+
+    expect(generateContent.mock.calls[0][0].contents[0].parts).toEqual([
+      {
+        inlineData: {
+          mimeType: 'image/png',
+          data: Buffer.from('base').toString('base64'),
+        },
+      },
+      {
+        inlineData: {
+          mimeType: 'image/jpeg',
+          data: Buffer.from('reference').toString('base64'),
+        },
+      },
+      { text: 'prompt' },
+    ]);
+    expect(fallback.generateImage).toHaveBeenCalledWith('prompt', {
+      aspectRatio: '1:1',
+      imageUrls: sourceImages.map((image) => image.url),
+    });
+    expect(buffer.toString()).toBe('fal-edit');
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ImageFlowJobService } from '../src/services/imageFlowJobService';
+
+const input = {
+  baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+  referenceImages: [],
+  payload: {},
+};
+
+const flushJobs = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('ImageFlowJobService', () => {
+  it('returns a queued job immediately and records the final payload', async () => {
+    const result = {
+      baseImage: 'https://public.example.com/base.png',
+      baseImageKey: 'base.png',
+      referenceImages: [],
+      referenceImageKeys: [],
+      prompt1: 'prompt1',
+      prompt2: 'prompt1',
+      outputImage: 'https://public.example.com/out.png',
+      outputImageKey: 'out.png',
+      isPromptGenerated: true,
+      step2Executed: false,
+    };
+    const pipeline = {
+      run: vi.fn().mockImplementation(async (_input, hooks) => {
+        hooks.onStep('reconstruct');
+        hooks.onStep('generate');
+        return result;
+      }),
+    };
+    const service = new ImageFlowJobService(pipeline as any);
+
+    const job = service.submit(input);
+    expect(job.status).toBe('queued');
+
+    await flushJobs();
+
+    const finished = service.get(job.id);
+    expect(finished?.status).toBe('succeeded');
+    expect(finished?.step).toBe('generate');
+    expect(finished?.result).toEqual(result);
+    expect(service.getEvents(job.id).map((event) => event.type)).toEqual([
+      'step',
+      'step',
+      'job.succeeded',
+    ]);
+  });
+
+  it('forwards pipeline events to subscribers and supports resuming', async () => {
+    const pipeline = {
+      run: vi.fn().mockImplementation(async (_input, hooks) => {
+        await Promise.resolve();
+        hooks.onEvent({ type: 'prompt1.ready', prompt1: 'prompt1' });
+        hooks.onEvent({ type: 'prompt2.skipped', prompt2: 'prompt1' });
+        throw new Error('boom');
+      }),
+    };
+    const service = new ImageFlowJobService(pipeline as any);
+    const listener = vi.fn();
+
+    const job = service.submit(input);
+    const unsubscribe = service.subscribe(job.id, listener);
+    await flushJobs();
+    unsubscribe();
+
+    expect(listener.mock.calls.map(([event]) => event.type)).toEqual([
+      'prompt1.ready',
+      'prompt2.skipped',
+      'job.failed',
+    ]);
+    expect(service.getEvents(job.id, 2).map((event) => event.id)).toEqual([3]);
+  });
+
+  it('marks the job failed when a prompt step is refused', async () => {
+    const pipeline = {
+      run: vi.fn().mockResolvedValue({
+        baseImage: 'https://public.example.com/base.png',
+        referenceImages: [],
+        prompt1: null,
+        prompt2: null,
+        outputImage: null,
+        error: 'OpenAI prompt reconstruction failed',
+        isPromptGenerated: false,
+      }),
+    };
+    const service = new ImageFlowJobService(pipeline as any);
+
+    const job = service.submit(input);
+    await flushJobs();
+
+    const finished = service.get(job.id);
+    expect(finished?.status).toBe('failed');
+    expect(finished?.error).toBe('OpenAI prompt reconstruction failed');
+  });
+
+  it('marks the job failed when generation throws', async () => {
+    const pipeline = { run: vi.fn().mockRejectedValue(new Error('boom')) };
+    const service = new ImageFlowJobService(pipeline as any);
+
+    const job = service.submit(input);
+    await flushJobs();
+
+    expect(service.get(job.id)).toMatchObject({ status: 'failed', error: 'boom' });
+  });
+});
@@ -0,0 +1,1109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ImageFlowPipeline } from '../src/services/imageFlowPipeline';
+import { imageRenderSchema } from '../src/types/imageFlow';
+
+const createStorage = () => {
+  let counter = 0;
+  return {
+    uploadBuffer: vi.fn().mockImplementation(async ({ prefix }) => {
+      counter += 1;
+      const key = `internaluse/${prefix}/${counter}.png`;
+      return { key, url: `https://public.example.com/${key}` };
+    }),
+    getPublicUrl: vi.fn((key: string) => `https://public.example.com/${key}`),
+    downloadBuffer: vi.fn().mockImplementation(async (key: string) => ({
+      buffer: Buffer.from(key),
+      mimeType: 'image/png',
+    })),
+  };
+};
+
+// Stored inputs as the /render route loads them, with the same bytes createStorage serves
+const storedImages = (baseImageKey: string, referenceImageKeys: string[] = []) => ({
+  baseImage: { buffer: Buffer.from(baseImageKey), mimeType: 'image/png', key: baseImageKey },
+  referenceImages: referenceImageKeys.map((key) => ({
+    buffer: Buffer.from(key),
+    mimeType: 'image/png',
+    key,
+  })),
+});
+
+// Inputs and outputs in these tests are placeholder bytes, so normalization and conversion are pass-throughs
+const createImageProcessor = () => ({
+  normalizeInput: vi.fn(async (buffer: Buffer) => ({ buffer, mimeType: 'image/png' })),
+  convert: vi.fn(async (buffer: Buffer) => buffer),
+  resize: vi.fn(),
+  compositeLogo: vi.fn(),
+  createRendition: vi.fn(async (buffer: Buffer, request: { width?: number }) => ({
+    buffer: Buffer.concat([buffer, Buffer.from(`@${request.width}`)]),
+    width: request.width ?? 1024,
+    height: 512,
+  })),
+});
+
+describe('ImageFlowPipeline', () => {
+  it('renders an edited prompt without re-running the prompt steps', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi
+        .fn()
+        .mockResolvedValue([Buffer.from('a'), Buffer.from('b')]),
+    };
+    // Only the per-output alt text goes through OpenAI
+    const openai = {
+      reconstructPromptFromImage: vi.fn(),
+      applyUserInstructions: vi.fn(),
+      describeImageForAccessibility: vi
+        .fn()
+        .mockResolvedValue({ altText: 'Red chair', description: 'A red chair in a bright room.' }),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.render(
+      {
+        prompt: '  edited prompt  ',
+        prompt1: 'original prompt',
+        baseImageKey: 'internaluse/inputs/base.png',
+        aspectRatio: '4:5',
+        variantCount: 2,
+      },
+      storedImages('internaluse/inputs/base.png'),
+    );
+
+    expect(openai.reconstructPromptFromImage).not.toHaveBeenCalled();
+    expect(openai.applyUserInstructions).not.toHaveBeenCalled();
+    expect(generator.generateImages).toHaveBeenCalledWith(
+      'edited prompt',
+      2,
+      { aspectRatio: '4:5' },
+      expect.any(Object),
+    );
+    expect(result).toMatchObject({
+      baseImage: 'https://public.example.com/internaluse/inputs/base.png',
+      baseImageKey: 'internaluse/inputs/base.png',
+      prompt1: 'original prompt',
+      prompt2: 'edited prompt',
+      step2Executed: false,
+    });
+    expect(result.outputImageKeys).toHaveLength(2);
+    expect(openai.describeImageForAccessibility).toHaveBeenCalledWith(
+      Buffer.from('a@1024'),
+      'image/jpeg',
+    );
+    expect(result.outputAltTexts).toEqual([
+      { altText: 'Red chair', description: 'A red chair in a bright room.' },
+      { altText: 'Red chair', description: 'A red chair in a bright room.' },
+    ]);
+  });
+
+  it('skips Step 2 when no instructions are given', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'reconstructed prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      applyUserInstructions: vi.fn(),
+    };
+    const events: string[] = [];
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.run(
+      {
+        baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+        referenceImages: [],
+        payload: { userPrompt: '   ' },
+        promptTemplates: {
+          promptEditor: { id: 'tpl-1', name: 'Careful editor', version: 3, content: 'Edit.' },
+        },
+        experimentArms: [
+          { experimentId: 'exp-1', armId: 'arm-1', armName: 'careful', role: 'promptEditor' },
+        ],
+      },
+      { onEvent: (event) => events.push(event.type) },
+    );
+
+    expect(openai.applyUserInstructions).not.toHaveBeenCalled();
+    expect(result).toMatchObject({
+      prompt1: 'reconstructed prompt',
+      prompt2: 'reconstructed prompt',
+      isPromptGenerated: true,
+      step2Executed: false,
+    });
+    // The promptEditor template never ran, so neither it nor its arm is recorded
+    expect(result).not.toHaveProperty('promptTemplates');
+    expect(result).not.toHaveProperty('experimentArms');
+    expect(events).toEqual([
+      'uploads.stored',
+      'prompt1.ready',
+      'prompt2.skipped',
+      'output.uploaded',
+    ]);
+  });
+
+  it('passes the stored source images to the generator in edit mode', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      vi.fn(),
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.render(
+      {
+        prompt: 'keep the product, change the background',
+        baseImageKey: 'internaluse/inputs/base.png',
+        referenceImageKeys: ['internaluse/inputs/ref.png'],
+        mode: 'edit',
+      },
+      storedImages('internaluse/inputs/base.png', ['internaluse/inputs/ref.png']),
+    );
+
+    expect(storage.downloadBuffer).not.toHaveBeenCalled();
+    expect(generator.generateImages).toHaveBeenCalledWith(
+      'keep the product, change the background',
+      1,
+      {
+        aspectRatio: undefined,
+        sourceImages: [
+          {
+            buffer: Buffer.from('internaluse/inputs/base.png'),
+            mimeType: 'image/png',
+            url: 'https://public.example.com/internaluse/inputs/base.png',
+          },
+          {
+            buffer: Buffer.from('internaluse/inputs/ref.png'),
+            mimeType: 'image/png',
+            url: 'https://public.example.com/internaluse/inputs/ref.png',
+          },
+        ],
+      },
+      expect.any(Object),
+    );
+    expect(result.mode).toBe('edit');
+  });
+
+  it('renders one output per aspect ratio for a channel pack', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi
+        .fn()
+        .mockImplementation(async (_prompt, _count, options) => [
+          Buffer.from(options.aspectRatio),
+        ]),
+    };
+    const events: Array<{ type: string; aspectRatio?: string }> = [];
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      vi.fn(),
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.render(
+      {
+        prompt: 'campaign visual',
+        baseImageKey: 'internaluse/inputs/base.png',
+        aspectRatios: ['1:1', '9:16', '16:9'],
+      },
+      storedImages('internaluse/inputs/base.png'),
+      { onEvent: (event) => events.push(event as any) },
+    );
+
+    expect(generator.generateImages).toHaveBeenCalledTimes(3);
+    expect(generator.generateImages.mock.calls.map(([, count, options]) => [count, options])).toEqual([
+      [1, { aspectRatio: '1:1' }],
+      [1, { aspectRatio: '9:16' }],
+      [1, { aspectRatio: '16:9' }],
+    ]);
+    expect(result.renders?.map((render) => render.aspectRatio)).toEqual(['1:1', '9:16', '16:9']);
+    expect(result.outputImageKeys).toEqual(result.renders?.map((render) => render.outputImageKey));
+    expect(events.map((event) => event.aspectRatio).sort()).toEqual(['16:9', '1:1', '9:16']);
+  });
+
+  it('applies the channel preset ratio, prompt suffix and output size', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('raw')]),
+    };
+    const imageProcessor = {
+      ...createImageProcessor(),
+      resize: vi.fn().mockResolvedValue(Buffer.from('resized')),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      vi.fn(),
+      imageProcessor as any,
+    );
+
+    const result = await pipeline.render(
+      {
+        prompt: 'campaign visual',
+        baseImageKey: 'internaluse/inputs/base.png',
+        aspectRatio: '1:1',
+        preset: 'instagram-story',
+      },
+      storedImages('internaluse/inputs/base.png'),
+    );
+
+    expect(generator.generateImages).toHaveBeenCalledWith(
+      expect.stringMatching(/^campaign visual\n\nLeave a clear safe area/),
+      1,
+      { aspectRatio: '9:16' },
+      expect.any(Object),
+    );
+    expect(imageProcessor.resize).toHaveBeenCalledWith(Buffer.from('raw'), {
+      width: 1080,
+      height: 1920,
+      format: 'jpeg',
+    });
+    expect(storage.uploadBuffer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        buffer: Buffer.from('resized'),
+        mimeType: 'image/jpeg',
+        extension: 'jpeg',
+      }),
+    );
+    expect(result).toMatchObject({ prompt2: 'campaign visual', preset: 'instagram-story' });
+  });
+
+  it('renders an edited prompt from a preset history item', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('raw')]),
+    };
+    const imageProcessor = {
+      ...createImageProcessor(),
+      resize: vi.fn().mockResolvedValue(Buffer.from('resized')),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      vi.fn(),
+      imageProcessor as any,
+    );
+    // History keeps the preset's pixel size for display; the request carries its ratio
+    const historyItem = { preset: 'instagram-story', aspectRatio: '1080:1920' };
+    const request = {
+      prompt: 'campaign visual',
+      baseImageKey: 'internaluse/inputs/base.png',
+      preset: historyItem.preset,
+    };
+
+    expect(() =>
+      imageRenderSchema.parse({ ...request, aspectRatio: historyItem.aspectRatio }),
+    ).toThrow();
+    const result = await pipeline.render(
+      imageRenderSchema.parse({ ...request, aspectRatio: '9:16' }),
+      storedImages('internaluse/inputs/base.png'),
+    );
+
+    expect(generator.generateImages).toHaveBeenCalledWith(
+      expect.any(String),
+      1,
+      { aspectRatio: '9:16' },
+      expect.any(Object),
+    );
+    expect(imageProcessor.resize).toHaveBeenCalledWith(Buffer.from('raw'), {
+      width: 1080,
+      height: 1920,
+      format: 'jpeg',
+    });
+    expect(result).toMatchObject({ prompt2: 'campaign visual', preset: 'instagram-story' });
+  });
+
+  it('stores the clean render next to the one with the logo', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('raw')]),
+    };
+    const imageProcessor = {
+      ...createImageProcessor(),
+      compositeLogo: vi.fn().mockResolvedValue(Buffer.from('branded')),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      vi.fn(),
+      imageProcessor as any,
+    );
+    const logo = { position: 'top-left' as const, scale: 0.2, opacity: 0.8, margin: 0.05 };
+
+    const result = await pipeline.render(
+      {
+        prompt: 'campaign visual',
+        baseImageKey: 'internaluse/inputs/base.png',
+        logo,
+      },
+      storedImages('internaluse/inputs/base.png'),
+    );
+
+    expect(imageProcessor.compositeLogo).toHaveBeenCalledWith(Buffer.from('raw'), logo);
+    const uploads = await Promise.all(
+      storage.uploadBuffer.mock.calls.map(async ([input], index) => ({
+        buffer: input.buffer as Buffer,
+        upload: await storage.uploadBuffer.mock.results[index].value,
+      })),
+    );
+    const branded = uploads.find(({ buffer }) => buffer.equals(Buffer.from('branded')));
+    const clean = uploads.find(({ buffer }) => buffer.equals(Buffer.from('raw')));
+    expect(result.outputImageKey).toBe(branded?.upload.key);
+    expect(result.cleanOutputImageKeys).toEqual([clean?.upload.key]);
+    expect(result.cleanOutputImages).toEqual([clean?.upload.url]);
+  });
+
+  it('typesets copy before the logo and re-applies edited copy to the clean render', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('raw')]),
+    };
+    const imageProcessor = {
+      ...createImageProcessor(),
+      compositeLogo: vi.fn().mockImplementation(async (buffer: Buffer) =>
+        Buffer.concat([buffer, Buffer.from('+logo')]),
+      ),
+    };
+    const textRenderer = {
+      render: vi.fn().mockImplementation(async (buffer: Buffer, spec: { headline: string }) =>
+        Buffer.concat([buffer, Buffer.from(`+${spec.headline}`)]),
+      ),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      vi.fn(),
+      imageProcessor as any,
+      textRenderer as any,
+    );
+    const logo = { position: 'top-left' as const, scale: 0.2, opacity: 1, margin: 0.05 };
+    const textOverlay = {
+      headline: 'Summer sale',
+      layout: 'bottom-band' as const,
+      textColor: '#FFFFFF',
+      accentColor: '#E4572E',
+    };
+
+    const result = await pipeline.render(
+      {
+        prompt: 'campaign visual',
+        baseImageKey: 'internaluse/inputs/base.png',
+        logo,
+        textOverlay,
+      },
+      storedImages('internaluse/inputs/base.png'),
+    );
+
+    expect(storage.uploadBuffer).toHaveBeenCalledWith(
+      expect.objectContaining({ buffer: Buffer.from('raw+Summer sale+logo') }),
+    );
+    expect(result).toMatchObject({ textOverlay, logo });
+    expect(result.cleanOutputImageKeys).toHaveLength(1);
+
+    const cleanImageKey = result.cleanOutputImageKeys![0];
+    const overlaid = await pipeline.overlay(
+      { key: cleanImageKey, buffer: Buffer.from('raw'), mimeType: 'image/png' },
+      { textOverlay: { ...textOverlay, headline: 'Autumn sale' } },
+    );
+
+    expect(storage.uploadBuffer).toHaveBeenCalledWith(
+      expect.objectContaining({ buffer: Buffer.from('raw+Autumn sale'), extension: 'png' }),
+    );
+    expect(overlaid).toMatchObject({
+      cleanOutputImageKey: cleanImageKey,
+      textOverlay: { headline: 'Autumn sale' },
+    });
+    expect(overlaid.outputImageKey).not.toBe(cleanImageKey);
+  });
+
+  it('transcodes outputs and returns every requested rendition', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a'), Buffer.from('b')]),
+    };
+    const imageProcessor = {
+      ...createImageProcessor(),
+      createRendition: vi.fn().mockImplementation(async (buffer: Buffer, request) => ({
+        buffer: Buffer.concat([buffer, Buffer.from(`@${request.width}.${request.format}`)]),
+        width: request.width ?? 1024,
+        height: 512,
+      })),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      vi.fn(),
+      imageProcessor as any,
+    );
+
+    const result = await pipeline.render(
+      {
+        prompt: 'campaign visual',
+        baseImageKey: 'internaluse/inputs/base.png',
+        variantCount: 2,
+        renditions: [{ format: 'webp', width: 640, quality: 80 }, { format: 'avif' }],
+      },
+      storedImages('internaluse/inputs/base.png'),
+    );
+
+    expect(imageProcessor.convert).toHaveBeenCalledWith(Buffer.from('a'), 'png');
+    expect(storage.uploadBuffer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        buffer: Buffer.from('b@640.webp'),
+        mimeType: 'image/webp',
+        extension: 'webp',
+      }),
+    );
+    expect(result.outputRenditions).toHaveLength(2);
+    expect(result.outputRenditions?.[1]).toEqual([
+      expect.objectContaining({ format: 'webp', width: 640, height: 512, quality: 80 }),
+      expect.objectContaining({ format: 'avif', width: 1024, height: 512 }),
+    ]);
+    result.outputRenditions?.flat().forEach((rendition) => {
+      expect(rendition.url).toBe(`https://public.example.com/${rendition.key}`);
+    });
+  });
+
+  it('stores small and medium thumbnails of the inputs and outputs', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'reconstructed prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      applyUserInstructions: vi.fn(),
+    };
+    const imageProcessor = createImageProcessor();
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      imageProcessor as any,
+    );
+
+    const result = await pipeline.run({
+      baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      referenceImages: [{ buffer: Buffer.from('ref'), mimeType: 'image/png' }],
+      payload: {},
+    });
+
+    expect(imageProcessor.createRendition).toHaveBeenCalledWith(Buffer.from('a'), {
+      format: 'webp',
+      width: 320,
+      quality: 75,
+    });
+    expect(storage.uploadBuffer).toHaveBeenCalledWith(
+      expect.objectContaining({
+        buffer: Buffer.from('a@960'),
+        prefix: 'thumbnails',
+        mimeType: 'image/webp',
+      }),
+    );
+    expect(result.outputThumbnails?.[0]).toMatchObject({
+      small: { width: 320, thumbnailKey: expect.stringContaining('/thumbnails/') },
+      medium: { width: 960, thumbnailKey: expect.stringContaining('/thumbnails/') },
+    });
+    expect(result.baseImageThumbnails?.small.thumbnailUrl).toMatch(/^https:\/\/public\.example\.com\//);
+    expect(result.referenceImageThumbnails).toHaveLength(1);
+  });
+
+  it('keeps outputs when thumbnailing fails', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const imageProcessor = {
+      ...createImageProcessor(),
+      createRendition: vi.fn().mockRejectedValue(new Error('unsupported image')),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      vi.fn(),
+      imageProcessor as any,
+    );
+
+    const result = await pipeline.render(
+      {
+        prompt: 'campaign visual',
+        baseImageKey: 'internaluse/inputs/base.png',
+      },
+      storedImages('internaluse/inputs/base.png'),
+    );
+
+    expect(result.outputImageKeys).toHaveLength(1);
+    expect(result.outputThumbnails).toEqual([null]);
+  });
+
+  it('runs Step 2 with the brand kit even without user instructions', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'reconstructed prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      applyUserInstructions: vi.fn().mockResolvedValue({
+        prompt: 'on-brand prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+    };
+    const brandKit = {
+      kit: {
+        id: 'kit-1',
+        name: 'Acme',
+        palette: ['#FF5500'],
+        styleDescriptors: [],
+        doRules: [],
+        dontRules: ['No alcohol'],
+        referenceAssetKeys: ['internaluse/inputs/asset.jpg'],
+        createdAt: '2024-01-01T00:00:00.000Z',
+        updatedAt: '2024-01-01T00:00:00.000Z',
+      },
+      assets: [{ buffer: Buffer.from('asset'), mimeType: 'image/jpeg' }],
+    };
+    const imageProcessor = createImageProcessor();
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      imageProcessor as any,
+    );
+
+    const result = await pipeline.run({
+      baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      referenceImages: [],
+      payload: { brandKitId: 'kit-1' },
+      brandKit,
+    });
+
+    // Kit assets are normalized like uploaded reference images
+    expect(imageProcessor.normalizeInput).toHaveBeenCalledWith(Buffer.from('asset'));
+    expect(openai.applyUserInstructions).toHaveBeenCalledWith(
+      'reconstructed prompt',
+      '',
+      undefined,
+      { kit: brandKit.kit, assets: [{ buffer: Buffer.from('asset'), mimeType: 'image/png' }] },
+      undefined,
+    );
+    expect(result).toMatchObject({
+      prompt2: 'on-brand prompt',
+      step2Executed: true,
+      brandKitId: 'kit-1',
+    });
+  });
+
+  it('edits a structured scene field by field in Step 2', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const scene1 = {
+      subjects: 'A woman',
+      identity: '',
+      pose: 'Standing',
+      clothing: 'Red coat',
+      background: 'City street',
+      lighting: 'Overcast daylight',
+      mood: 'Calm',
+      camera: '50mm, eye level',
+      style: 'Photorealistic',
+    };
+    const scene2 = { ...scene1, lighting: 'Golden hour sun' };
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'rendered scene1',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+        scene: scene1,
+      }),
+      editScene: vi.fn().mockResolvedValue({
+        prompt: 'rendered scene2',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+        scene: scene2,
+        changedFields: ['lighting'],
+      }),
+      applyUserInstructions: vi.fn(),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.run({
+      baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      referenceImages: [],
+      payload: { userPrompt: 'make it golden hour' },
+    });
+
+    expect(openai.editScene).toHaveBeenCalledWith(
+      scene1,
+      'make it golden hour',
+      undefined,
+      undefined,
+      undefined,
+    );
+    expect(openai.applyUserInstructions).not.toHaveBeenCalled();
+    expect(generator.generateImages.mock.calls[0][0]).toBe('rendered scene2');
+    expect(result).toMatchObject({
+      prompt1: 'rendered scene1',
+      prompt2: 'rendered scene2',
+      scene1,
+      scene2,
+      sceneChanges: ['lighting'],
+    });
+  });
+
+  it('runs the prompt steps with the resolved templates and records their versions', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'reconstructed prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      applyUserInstructions: vi.fn().mockResolvedValue({
+        prompt: 'edited prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.run({
+      baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      referenceImages: [],
+      payload: { userPrompt: 'add a hat' },
+      promptTemplates: {
+        promptEditor: {
+          id: 'tpl-1',
+          name: 'Careful editor',
+          version: 3,
+          content: 'You edit carefully.',
+        },
+      },
+      experimentArms: [
+        { experimentId: 'exp-1', armId: 'arm-1', armName: 'careful', role: 'promptEditor' },
+      ],
+    });
+
+    expect(openai.reconstructPromptFromImage).toHaveBeenCalledWith(
+      Buffer.from('img'),
+      'image/png',
+      undefined,
+    );
+    expect(openai.applyUserInstructions).toHaveBeenCalledWith(
+      'reconstructed prompt',
+      'add a hat',
+      undefined,
+      undefined,
+      'You edit carefully.',
+    );
+    expect(result.promptTemplates).toEqual({
+      promptEditor: { id: 'tpl-1', name: 'Careful editor', version: 3 },
+    });
+    expect(result.experimentArms).toEqual([
+      { experimentId: 'exp-1', armId: 'arm-1', armName: 'careful', role: 'promptEditor' },
+    ]);
+  });
+
+  it('writes marketing copy from the final prompt and tolerates a failed copy step', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const variant = {
+      headline: 'Summer is here',
+      body: 'Fresh styles for sunny days.',
+      cta: 'Shop now',
+      hashtags: ['#summer'],
+      channels: [{ channel: 'x', text: 'Fresh styles. #summer', characterLimit: 280 }],
+    };
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'reconstructed prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      applyUserInstructions: vi.fn().mockResolvedValue({
+        prompt: 'beach prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      generateMarketingCopy: vi
+        .fn()
+        .mockResolvedValueOnce([variant])
+        .mockRejectedValueOnce(new Error('rate limited')),
+    };
+    const events: string[] = [];
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+    const input = {
+      baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      referenceImages: [],
+      payload: {
+        userPrompt: 'move it to the beach',
+        marketingCopy: { channels: ['x' as const], variantCount: 1 },
+      },
+    };
+
+    const result = await pipeline.run(input, { onEvent: (event) => events.push(event.type) });
+
+    expect(openai.generateMarketingCopy).toHaveBeenCalledWith({
+      prompt: 'beach prompt',
+      userInstructions: 'move it to the beach',
+      brandKit: undefined,
+      channels: ['x'],
+      variantCount: 1,
+    });
+    expect(result).toMatchObject({ marketingCopyVariants: [variant] });
+    expect(events).toContain('marketingCopy.ready');
+
+    const withoutCopy = await pipeline.run(input);
+    expect(withoutCopy).toMatchObject({ isPromptGenerated: true });
+    expect(withoutCopy).not.toHaveProperty('marketingCopyVariants');
+  });
+
+  it('scores every output against the base image and the instructions', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a'), Buffer.from('b')]),
+    };
+    const criterion = { score: 4, rationale: 'Looks right.' };
+    const qualityScore = {
+      instructionAdherence: criterion,
+      identityPreservation: criterion,
+      artifacts: criterion,
+      brandFit: criterion,
+      overall: 4,
+    };
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'reconstructed prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      applyUserInstructions: vi.fn().mockResolvedValue({
+        prompt: 'beach prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      evaluateOutput: vi
+        .fn()
+        .mockResolvedValueOnce(qualityScore)
+        .mockRejectedValueOnce(new Error('rate limited')),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.run({
+      baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      referenceImages: [],
+      payload: { userPrompt: 'move it to the beach', variantCount: 2 },
+    });
+
+    expect(openai.evaluateOutput).toHaveBeenCalledWith({
+      baseImage: { buffer: Buffer.from('img@1024'), mimeType: 'image/jpeg' },
+      output: { buffer: Buffer.from('a@1024'), mimeType: 'image/jpeg' },
+      instructions: 'move it to the beach',
+      brandKit: undefined,
+    });
+    expect(result).toMatchObject({
+      outputImages: [expect.any(String), expect.any(String)],
+      outputQualityScores: [qualityScore, null],
+    });
+  });
+
+  it('judges Step 3 only renders against the edited prompt', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const openai = { evaluateOutput: vi.fn().mockResolvedValue(undefined) };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+
+    await pipeline.render(
+      {
+        prompt: 'edited prompt',
+        baseImageKey: 'internaluse/inputs/base.png',
+      },
+      storedImages('internaluse/inputs/base.png'),
+    );
+
+    expect(openai.evaluateOutput).toHaveBeenCalledWith(
+      expect.objectContaining({
+        baseImage: {
+          buffer: Buffer.from('internaluse/inputs/base.png@1024'),
+          mimeType: 'image/jpeg',
+        },
+        instructions: 'edited prompt',
+      }),
+    );
+  });
+
+  it('re-renders with a revised prompt until the judge score reaches the threshold', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi
+        .fn()
+        .mockResolvedValueOnce([Buffer.from('a')])
+        .mockResolvedValueOnce([Buffer.from('b')]),
+    };
+    const scored = (overall: number) => {
+      const criterion = { score: Math.round(overall), rationale: 'The hands are distorted.' };
+      return {
+        instructionAdherence: criterion,
+        identityPreservation: criterion,
+        artifacts: criterion,
+        brandFit: criterion,
+        overall,
+      };
+    };
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'reconstructed prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      applyUserInstructions: vi.fn().mockResolvedValue({
+        prompt: 'beach prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      evaluateOutput: vi
+        .fn()
+        .mockResolvedValueOnce(scored(2.5))
+        .mockResolvedValueOnce(scored(4.5)),
+      revisePromptFromCritique: vi.fn().mockResolvedValue({
+        prompt: 'beach prompt with five-fingered hands',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+    };
+    const events: string[] = [];
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.run(
+      {
+        baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+        referenceImages: [],
+        payload: {
+          userPrompt: 'move it to the beach',
+          selfCorrection: { threshold: 4, maxAttempts: 3 },
+        },
+      },
+      { onEvent: (event) => events.push(event.type) },
+    );
+
+    expect(openai.revisePromptFromCritique).toHaveBeenCalledTimes(1);
+    expect(openai.revisePromptFromCritique).toHaveBeenCalledWith({
+      prompt: 'beach prompt',
+      critique: scored(2.5),
+      userInstructions: 'move it to the beach',
+      brandKit: undefined,
+    });
+    expect(generator.generateImages).toHaveBeenLastCalledWith(
+      'beach prompt with five-fingered hands',
+      1,
+      expect.any(Object),
+      expect.any(Object),
+    );
+    expect(events).toContain('selfCorrection.retry');
+    if (!result.isPromptGenerated) throw new Error('expected a result');
+    expect(result.prompt2).toBe('beach prompt with five-fingered hands');
+    expect(result.outputImage).toBe(result.selfCorrection?.attempts[1].outputImage);
+    expect(result.selfCorrection).toMatchObject({
+      threshold: 4,
+      maxAttempts: 3,
+      selectedAttempt: 2,
+      accepted: true,
+      attempts: [
+        { attempt: 1, prompt2: 'beach prompt', qualityScore: scored(2.5) },
+        { attempt: 2, prompt2: 'beach prompt with five-fingered hands', qualityScore: scored(4.5) },
+      ],
+    });
+  });
+
+  it('stops self-correcting at maxAttempts and keeps the best attempt', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const scored = (overall: number) => ({
+      instructionAdherence: { score: 3, rationale: 'Partly applied.' },
+      identityPreservation: { score: 3, rationale: 'Face changed.' },
+      artifacts: { score: 3, rationale: 'Blurry text.' },
+      brandFit: { score: 3, rationale: 'Off palette.' },
+      overall,
+    });
+    const openai = {
+      reconstructPromptFromImage: vi.fn().mockResolvedValue({
+        prompt: 'reconstructed prompt',
+        isPromptGenerated: true,
+        status: 'generated',
+        refusalReason: null,
+      }),
+      applyUserInstructions: vi.fn(),
+      evaluateOutput: vi
+        .fn()
+        .mockResolvedValueOnce(scored(2))
+        .mockResolvedValueOnce(scored(3.5))
+        .mockResolvedValueOnce(scored(3)),
+      revisePromptFromCritique: vi
+        .fn()
+        .mockResolvedValueOnce({
+          prompt: 'second prompt',
+          isPromptGenerated: true,
+          status: 'generated',
+          refusalReason: null,
+        })
+        .mockResolvedValueOnce({
+          prompt: 'third prompt',
+          isPromptGenerated: true,
+          status: 'generated',
+          refusalReason: null,
+        }),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+
+    const result = await pipeline.run({
+      baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      referenceImages: [],
+      payload: { selfCorrection: { threshold: 4.5, maxAttempts: 3 } },
+    });
+
+    expect(generator.generateImages).toHaveBeenCalledTimes(3);
+    expect(result).toMatchObject({
+      prompt2: 'second prompt',
+      selfCorrection: { selectedAttempt: 2, accepted: false },
+    });
+    if (!result.isPromptGenerated) throw new Error('expected a result');
+    expect(result.selfCorrection?.attempts).toHaveLength(3);
+  });
+
+  it('stops on a structured refusal and carries partial prompts through as warnings', async () => {
+    const storage = createStorage();
+    const generator = {
+      generateImages: vi.fn().mockResolvedValue([Buffer.from('a')]),
+    };
+    const openai = {
+      reconstructPromptFromImage: vi
+        .fn()
+        .mockResolvedValueOnce({
+          prompt: 'The image shows a recognisable public figure.',
+          isPromptGenerated: false,
+          status: 'refused',
+          refusalReason: 'real_person',
+        })
+        .mockResolvedValueOnce({
+          prompt: 'A person in a red coat on a beach',
+          isPromptGenerated: true,
+          status: 'partial',
+          refusalReason: 'real_person',
+        }),
+      applyUserInstructions: vi.fn(),
+    };
+    const pipeline = new ImageFlowPipeline(
+      storage as any,
+      generator as any,
+      () => openai as any,
+      createImageProcessor() as any,
+    );
+    const input = {
+      baseImage: { buffer: Buffer.from('img'), mimeType: 'image/png' },
+      referenceImages: [],
+      payload: {},
+    };
+
+    const refused = await pipeline.run(input);
+    expect(refused).toMatchObject({
+      isPromptGenerated: false,
+      prompt1: 'The image shows a recognisable public figure.',
+      refusalReason: 'real_person',
+    });
+    expect(generator.generateImages).not.toHaveBeenCalled();
+
+    const partial = await pipeline.run(input);
+    expect(partial).toMatchObject({
+      isPromptGenerated: true,
+      prompt2: 'A person in a red coat on a beach',
+      promptWarnings: [{ step: 'reconstruct', refusalReason: 'real_person' }],
+    });
+  });
+});
+
@@ -0,0 +1,108 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import sharp from 'sharp';
+
+// The router's moderation singleton is built from config at import time
+vi.hoisted(() => {
+  process.env.MODERATION_PROVIDER = 'local';
+});
+
+import { imageFlowRouter } from '../src/routes/imageFlow';
+import { errorHandler } from '../src/middlewares/errorHandler';
+import { storageService } from '../src/services/storageService';
+import { imageFlowJobService } from '../src/services/imageFlowJobService';
+
+describe('POST /api/image-flow/render', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/image-flow', imageFlowRouter);
+    app.use(errorHandler);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const storePng = async () => {
+    const png = await sharp({
+      create: { width: 4, height: 4, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+    const downloadBuffer = vi.spyOn(storageService, 'downloadBuffer').mockResolvedValue({
+      buffer: png,
+      mimeType: 'image/png',
+    });
+    return { png, downloadBuffer };
+  };
+
+  const postRender = (body: Record<string, unknown>) =>
+    fetch(`${baseUrl}/api/image-flow/render`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+
+  it('rejects blocked prompt text before queuing the render', async () => {
+    await storePng();
+    const submitRender = vi.spyOn(imageFlowJobService, 'submitRender');
+
+    const response = await postRender({
+      prompt: 'a gory battlefield at dawn',
+      baseImageKey: 'internaluse/inputs/base.png',
+    });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({
+      details: {
+        reason: 'content_policy',
+        flagged: [{ field: 'prompt', categories: ['violence/graphic'] }],
+      },
+    });
+    expect(submitRender).not.toHaveBeenCalled();
+  });
+
+  it('renders the stored images it checked without downloading them again', async () => {
+    const { png, downloadBuffer } = await storePng();
+    const submitRender = vi.spyOn(imageFlowJobService, 'submitRender').mockReturnValue({
+      id: 'job-1',
+      status: 'queued',
+      step: null,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      result: null,
+      error: null,
+    });
+
+    const response = await postRender({
+      prompt: 'a calm beach at dawn',
+      baseImageKey: 'internaluse/inputs/base.png',
+      referenceImageKeys: ['internaluse/inputs/ref.png'],
+    });
+
+    expect(response.status).toBe(202);
+    expect(downloadBuffer).toHaveBeenCalledTimes(2);
+    expect(submitRender).toHaveBeenCalledWith(
+      expect.objectContaining({ prompt: 'a calm beach at dawn' }),
+      {
+        baseImage: { key: 'internaluse/inputs/base.png', buffer: png, mimeType: 'image/png' },
+        referenceImages: [
+          { key: 'internaluse/inputs/ref.png', buffer: png, mimeType: 'image/png' },
+        ],
+      },
+    );
+  });
+});
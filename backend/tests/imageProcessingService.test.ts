@@ -0,0 +1,140 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { ImageProcessingService } from '../src/services/imageProcessingService';
+
+describe('ImageProcessingService', () => {
+  const tmpDir = mkdtempSync(path.join(os.tmpdir(), 'image-processing-'));
+
+  afterAll(() => {
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('crops to the exact pixel size and re-encodes', async () => {
+    const source = await sharp({
+      create: { width: 400, height: 300, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+
+    const service = new ImageProcessingService();
+    const output = await service.resize(source, {
+      width: 120,
+      height: 15,
+      format: 'jpeg',
+    });
+
+    const metadata = await sharp(output).metadata();
+    expect(metadata).toMatchObject({ width: 120, height: 15, format: 'jpeg' });
+  });
+
+  it('composites the logo inside the safe margin and keeps the format', async () => {
+    const logoPath = path.join(tmpDir, 'logo.png');
+    writeFileSync(
+      logoPath,
+      await sharp({
+        create: { width: 50, height: 50, channels: 4, background: '#ff0000' },
+      })
+        .png()
+        .toBuffer(),
+    );
+    const source = await sharp({
+      create: { width: 200, height: 100, channels: 3, background: '#000000' },
+    })
+      .jpeg()
+      .toBuffer();
+
+    const service = new ImageProcessingService(logoPath);
+    const output = await service.compositeLogo(source, {
+      position: 'bottom-right',
+      scale: 0.1,
+      opacity: 1,
+      margin: 0.1,
+    });
+
+    const metadata = await sharp(output).metadata();
+    expect(metadata).toMatchObject({ width: 200, height: 100, format: 'jpeg' });
+    const { data, info } = await sharp(output).raw().toBuffer({ resolveWithObject: true });
+    const pixel = (x: number, y: number) => {
+      const offset = (y * info.width + x) * info.channels;
+      return [data[offset], data[offset + 1], data[offset + 2]];
+    };
+    // 20px logo, 10px margin from the bottom-right corner
+    expect(pixel(180, 80)[0]).toBeGreaterThan(200);
+    expect(pixel(195, 95)[0]).toBeLessThan(30);
+    expect(pixel(10, 10)[0]).toBeLessThan(30);
+  });
+
+  it('transcodes only when the bytes are not already in the output format', async () => {
+    const png = await sharp({
+      create: { width: 40, height: 30, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+
+    const service = new ImageProcessingService();
+    expect(await service.convert(png, 'png')).toBe(png);
+    const avif = await service.convert(png, 'avif');
+    expect(await sharp(avif).metadata()).toMatchObject({ format: 'heif', compression: 'av1' });
+    expect(await service.convert(avif, 'avif')).toBe(avif);
+  });
+
+  it('creates renditions at a width without upscaling', async () => {
+    const source = await sharp({
+      create: { width: 400, height: 200, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+
+    const service = new ImageProcessingService();
+    const small = await service.createRendition(source, { format: 'webp', width: 100, quality: 70 });
+    const large = await service.createRendition(source, { format: 'jpeg', width: 800 });
+
+    expect(small).toMatchObject({ width: 100, height: 50 });
+    expect((await sharp(small.buffer).metadata()).format).toBe('webp');
+    expect(large).toMatchObject({ width: 400, height: 200 });
+    expect((await sharp(large.buffer).metadata()).format).toBe('jpeg');
+  });
+
+  it('rotates inputs upright, strips metadata and downscales to the max edge', async () => {
+    // Stored sideways: EXIF orientation 6 turns it into a 200x300 portrait
+    const photo = await sharp({
+      create: { width: 300, height: 200, channels: 3, background: '#336699' },
+    })
+      .jpeg()
+      .withMetadata({ orientation: 6 })
+      .withExif({ IFD0: { Make: 'PhoneCo' }, IFD3: { GPSLatitudeRef: 'N' } })
+      .toBuffer();
+
+    const service = new ImageProcessingService(undefined, 150);
+    const normalized = await service.normalizeInput(photo);
+
+    expect(normalized.mimeType).toBe('image/jpeg');
+    const metadata = await sharp(normalized.buffer).metadata();
+    expect(metadata).toMatchObject({ format: 'jpeg', width: 100, height: 150 });
+    expect(metadata.orientation).toBeUndefined();
+    expect(metadata.exif).toBeUndefined();
+  });
+
+  it('keeps small inputs at their size', async () => {
+    const png = await sharp({
+      create: { width: 40, height: 30, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+
+    const normalized = await new ImageProcessingService(undefined, 150).normalizeInput(png);
+
+    expect(await sharp(normalized.buffer).metadata()).toMatchObject({
+      format: 'png',
+      width: 40,
+      height: 30,
+    });
+  });
+
+  it('reports whether a logo is configured', () => {
+    expect(new ImageProcessingService(undefined).isLogoConfigured).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { HttpError } from '../src/middlewares/errorHandler';
+import { validateImage } from '../src/middlewares/imageUpload';
+
+const createImage = (format: 'png' | 'jpeg' | 'webp' | 'gif') =>
+  sharp({ create: { width: 40, height: 30, channels: 3, background: '#336699' } })
+    .toFormat(format)
+    .toBuffer();
+
+const asUpload = (buffer: Buffer, mimetype: string) => ({ buffer, mimetype, size: buffer.length });
+
+const rejection = (run: () => unknown): HttpError => {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(HttpError);
+    return error as HttpError;
+  }
+  throw new Error('Expected the image to be rejected');
+};
+
+describe('validateImage', () => {
+  it.each(['png', 'jpeg', 'webp', 'gif'] as const)(
+    'reads the %s header from the bytes',
+    async (format) => {
+      const buffer = await createImage(format);
+
+      const header = validateImage(asUpload(buffer, `image/${format}`), 'Base image', 'baseImage');
+
+      expect(header).toMatchObject({ format, width: 40, height: 30, frameCount: 1 });
+    },
+  );
+
+  it('accepts image/jpg as a JPEG alias', async () => {
+    const buffer = await createImage('jpeg');
+
+    expect(validateImage(asUpload(buffer, 'image/jpg'), 'Image', 'image').mimeType).toBe(
+      'image/jpeg',
+    );
+  });
+
+  it('rejects a file whose bytes do not match the declared type', async () => {
+    const buffer = await createImage('jpeg');
+
+    const error = rejection(() =>
+      validateImage(asUpload(buffer, 'image/png'), 'Reference image 2', 'referenceImages[1]'),
+    );
+
+    expect(error.status).toBe(400);
+    expect(error.details).toEqual({
+      field: 'referenceImages[1]',
+      reason: 'type_mismatch',
+      declaredType: 'image/png',
+      detectedType: 'image/jpeg',
+    });
+  });
+
+  it('rejects animated GIFs', async () => {
+    const frames = await Promise.all(['#ff0000', '#00ff00', '#0000ff'].map(async (background) =>
+      sharp({ create: { width: 20, height: 20, channels: 3, background } }).png().toBuffer(),
+    ));
+    const buffer = await sharp(frames, { join: { animated: true } }).gif().toBuffer();
+
+    const error = rejection(() => validateImage(asUpload(buffer, 'image/gif'), 'Base image', 'baseImage'));
+
+    expect(error.details).toMatchObject({ field: 'baseImage', reason: 'animated_gif', frameCount: 3 });
+  });
+
+  it('rejects truncated and unrecognised files', async () => {
+    const png = await createImage('png');
+
+    expect(
+      rejection(() => validateImage(asUpload(png.subarray(0, 20), 'image/png'), 'Image', 'image'))
+        .details,
+    ).toMatchObject({ field: 'image', reason: 'corrupt' });
+    expect(
+      rejection(() =>
+        validateImage(asUpload(Buffer.from('<svg></svg>'), 'image/png'), 'Image', 'image'),
+      ).details,
+    ).toMatchObject({ field: 'image', reason: 'unrecognized_content' });
+  });
+});
@@ -0,0 +1,113 @@
+import { createHash } from 'crypto';
+import { describe, expect, it, vi } from 'vitest';
+import { HttpError } from '../src/middlewares/errorHandler';
+import {
+  LocalModerationProvider,
+  ModerationService,
+  OpenAIModerationProvider,
+} from '../src/services/moderationService';
+
+const policy = { blockedCategories: ['sexual' as const, 'violence/graphic' as const], threshold: 0.5 };
+
+describe('LocalModerationProvider', () => {
+  it('scores whole-word term matches and known image hashes deterministically', async () => {
+    const image = Buffer.from('known-bad-image');
+    const provider = new LocalModerationProvider(
+      { 'violence/graphic': ['gore'] },
+      { [createHash('sha256').update(image).digest('hex')]: ['sexual'] },
+    );
+
+    await expect(provider.classify({ field: 'userPrompt', text: 'Add GORE everywhere' }))
+      .resolves.toEqual({ 'violence/graphic': 1 });
+    await expect(provider.classify({ field: 'userPrompt', text: 'a gorgeous sunset' }))
+      .resolves.toEqual({});
+    await expect(
+      provider.classify({ field: 'baseImage', image: { buffer: image, mimeType: 'image/png' } }),
+    ).resolves.toEqual({ sexual: 1 });
+    await expect(
+      provider.classify({ field: 'baseImage', image: { buffer: Buffer.from('fine'), mimeType: 'image/png' } }),
+    ).resolves.toEqual({});
+  });
+});
+
+describe('ModerationService', () => {
+  it('rejects blocked fields with a 422 listing the categories', async () => {
+    const service = new ModerationService(new LocalModerationProvider(), policy);
+
+    const error = await service
+      .ensureAllowed(
+        [
+          { field: 'userPrompt', text: 'make the scene gory and nude' },
+          { field: 'baseImage', image: { buffer: Buffer.from('img'), mimeType: 'image/png' } },
+        ],
+        'test',
+      )
+      .catch((err) => err);
+
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.status).toBe(422);
+    expect(error.details).toEqual({
+      reason: 'content_policy',
+      categories: ['sexual', 'violence/graphic'],
+      flagged: [{ field: 'userPrompt', categories: ['sexual', 'violence/graphic'] }],
+    });
+  });
+
+  it('only blocks the policy categories at or above the threshold', async () => {
+    const provider = {
+      name: 'stub',
+      classify: vi.fn().mockResolvedValue({ sexual: 0.49, hate: 0.9, 'violence/graphic': 0.5 }),
+    };
+    const service = new ModerationService(provider, policy);
+
+    const decision = await service.moderate(
+      [
+        { field: 'userPrompt', text: 'anything' },
+        // Empty instructions are not sent to the provider
+        { field: 'userPrompt', text: '   ' },
+      ],
+      'test',
+    );
+
+    expect(provider.classify).toHaveBeenCalledTimes(1);
+    expect(decision).toMatchObject({
+      allowed: false,
+      categories: ['violence/graphic'],
+    });
+  });
+
+  it('allows everything when moderation is off and fails closed when the provider errors', async () => {
+    const off = new ModerationService(null, policy);
+    await expect(off.ensureAllowed([{ field: 'userPrompt', text: 'gore' }], 'test'))
+      .resolves.toBeUndefined();
+
+    const broken = new ModerationService(
+      { name: 'stub', classify: vi.fn().mockRejectedValue(new Error('timeout')) },
+      policy,
+    );
+    await expect(broken.ensureAllowed([{ field: 'userPrompt', text: 'hello' }], 'test'))
+      .rejects.toMatchObject({ status: 502 });
+  });
+});
+
+describe('OpenAIModerationProvider', () => {
+  it('sends a downscaled preview of images and keeps known categories only', async () => {
+    const openai = {
+      moderate: vi.fn().mockResolvedValue({ sexual: 0.8, 'sexual/minors': 0.01, unknown: 1 }),
+    };
+    const imageProcessor = {
+      createRendition: vi.fn().mockResolvedValue({ buffer: Buffer.from('preview'), width: 1024, height: 768 }),
+    };
+    const provider = new OpenAIModerationProvider(() => openai as any, imageProcessor as any);
+
+    const scores = await provider.classify({
+      field: 'baseImage',
+      image: { buffer: Buffer.from('original'), mimeType: 'image/png' },
+    });
+
+    expect(openai.moderate).toHaveBeenCalledWith({
+      image: { buffer: Buffer.from('preview'), mimeType: 'image/jpeg' },
+    });
+    expect(scores).toEqual({ sexual: 0.8, 'sexual/minors': 0.01 });
+  });
+});
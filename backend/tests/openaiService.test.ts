@@ -0,0 +1,245 @@
+import { describe, expect, it, vi } from 'vitest';
+import { OpenAIService } from '../src/services/openaiService';
+
+describe('OpenAIService.generateMarketingCopy', () => {
+  it('returns the requested channels within their character limits', async () => {
+    const service = new OpenAIService('test-key');
+    const chatCompletions = vi.spyOn(service, 'chatCompletions').mockResolvedValue(
+      JSON.stringify({
+        variants: [
+          {
+            headline: 'Summer is here',
+            body: 'Fresh styles for sunny days.',
+            cta: 'Shop now',
+            hashtags: ['summer', '#beach day'],
+            channels: { x: 'word '.repeat(80).trim() },
+          },
+          {
+            headline: 'Unused',
+            body: 'Only one variant was requested.',
+            cta: 'Go',
+            hashtags: [],
+            channels: {},
+          },
+        ],
+      }),
+    );
+
+    const variants = await service.generateMarketingCopy({
+      prompt: 'a sunny beach with a linen shirt',
+      channels: ['x', 'google-ads'],
+      variantCount: 1,
+    });
+
+    const messages = chatCompletions.mock.calls[0][0];
+    expect(messages[1].content).toContain('x (X post): at most 280 characters');
+    expect(chatCompletions.mock.calls[0][1]).toMatchObject({ jsonMode: true });
+    expect(variants).toHaveLength(1);
+    expect(variants[0].hashtags).toEqual(['#summer', '#beachday']);
+    const [x, googleAds] = variants[0].channels;
+    expect(x.characterLimit).toBe(280);
+    expect(x.text.length).toBeLessThanOrEqual(280);
+    expect(x.text.endsWith('…')).toBe(true);
+    // A skipped channel falls back to the body copy
+    expect(googleAds).toEqual({
+      channel: 'google-ads',
+      text: 'Fresh styles for sunny days.',
+      characterLimit: 90,
+    });
+  });
+
+  it('rejects replies that do not match the copy format', async () => {
+    const service = new OpenAIService('test-key');
+    vi.spyOn(service, 'chatCompletions').mockResolvedValue('{"variants": []}');
+
+    await expect(
+      service.generateMarketingCopy({ prompt: 'p', channels: ['x'], variantCount: 1 }),
+    ).rejects.toThrow();
+  });
+});
+
+describe('OpenAIService.describeImageForAccessibility', () => {
+  it('sends the image to the vision model and caps the alt text length', async () => {
+    const service = new OpenAIService('test-key');
+    const analyzeImage = vi.spyOn(service, 'analyzeImage').mockResolvedValue(
+      `Here you go: ${JSON.stringify({
+        altText: 'A '.repeat(100).trim(),
+        description: 'A linen shirt on a sunny beach. The headline reads "Summer sale".',
+      })}`,
+    );
+
+    const result = await service.describeImageForAccessibility(Buffer.from('img'), 'image/jpeg');
+
+    expect(analyzeImage).toHaveBeenCalledWith(
+      Buffer.from('img'),
+      'image/jpeg',
+      expect.stringContaining('"altText"'),
+      expect.any(String),
+    );
+    expect(result.altText.length).toBeLessThanOrEqual(150);
+    expect(result.description).toContain('Summer sale');
+  });
+});
+
+describe('OpenAIService.evaluateOutput', () => {
+  it('sends the base image and output to the vision model and averages the scores', async () => {
+    const service = new OpenAIService('test-key');
+    const chatCompletions = vi.spyOn(service, 'chatCompletions').mockResolvedValue(
+      JSON.stringify({
+        instructionAdherence: { score: 5, rationale: 'The jacket is now red.' },
+        identityPreservation: { score: 4, rationale: 'The face matches; the hair is shorter.' },
+        artifacts: { score: '3', rationale: 'The left hand has six fingers.' },
+        brandFit: { score: 4, rationale: 'Clean and premium.' },
+      }),
+    );
+
+    const score = await service.evaluateOutput({
+      baseImage: { buffer: Buffer.from('base'), mimeType: 'image/jpeg' },
+      output: { buffer: Buffer.from('out'), mimeType: 'image/jpeg' },
+      instructions: 'make the jacket red',
+    });
+
+    const [messages] = chatCompletions.mock.calls[0];
+    const content = messages[1].content as Array<{ type: string; image_url?: { url: string } }>;
+    expect(content.filter((part) => part.type === 'image_url').map((part) => part.image_url?.url))
+      .toEqual([
+        `data:image/jpeg;base64,${Buffer.from('base').toString('base64')}`,
+        `data:image/jpeg;base64,${Buffer.from('out').toString('base64')}`,
+      ]);
+    expect(score.artifacts).toEqual({ score: 3, rationale: 'The left hand has six fingers.' });
+    expect(score.overall).toBe(4);
+  });
+
+  it('rejects scores outside the 1-5 scale', async () => {
+    const service = new OpenAIService('test-key');
+    const criterion = { score: 9, rationale: 'Great.' };
+    vi.spyOn(service, 'chatCompletions').mockResolvedValue(
+      JSON.stringify({
+        instructionAdherence: criterion,
+        identityPreservation: criterion,
+        artifacts: criterion,
+        brandFit: criterion,
+      }),
+    );
+
+    await expect(
+      service.evaluateOutput({
+        baseImage: { buffer: Buffer.from('base'), mimeType: 'image/jpeg' },
+        output: { buffer: Buffer.from('out'), mimeType: 'image/jpeg' },
+        instructions: '',
+      }),
+    ).rejects.toThrow();
+  });
+});
+
+describe('OpenAIService.reconstructPromptFromImage', () => {
+  it('trusts the explicit status instead of refusal-sounding wording', async () => {
+    const service = new OpenAIService('test-key');
+    vi.spyOn(service, 'chatCompletions').mockResolvedValue(
+      JSON.stringify({
+        status: 'generated',
+        refusalReason: null,
+        prompt: "A neon sign that says 'cannot stop' above a night market",
+      }),
+    );
+
+    const result = await service.reconstructPromptFromImage(Buffer.from('img'), 'image/png');
+
+    expect(result).toEqual({
+      prompt: "A neon sign that says 'cannot stop' above a night market",
+      isPromptGenerated: true,
+      status: 'generated',
+      refusalReason: null,
+    });
+  });
+
+  it('reports refusals and partial prompts with a reason category', async () => {
+    const service = new OpenAIService('test-key');
+    vi.spyOn(service, 'chatCompletions')
+      .mockResolvedValueOnce(
+        JSON.stringify({
+          status: 'refused',
+          refusalReason: 'real_person',
+          prompt: 'This is a public figure.',
+        }),
+      )
+      .mockResolvedValueOnce(
+        JSON.stringify({ status: 'partial', refusalReason: 'made_up_code', prompt: 'A beach scene' }),
+      )
+      .mockResolvedValueOnce("I'm sorry, I can't help with that.");
+    const reconstruct = () => service.reconstructPromptFromImage(Buffer.from('img'), 'image/png');
+
+    await expect(reconstruct()).resolves.toMatchObject({
+      isPromptGenerated: false,
+      status: 'refused',
+      refusalReason: 'real_person',
+    });
+    await expect(reconstruct()).resolves.toMatchObject({
+      isPromptGenerated: true,
+      status: 'partial',
+      refusalReason: 'other',
+    });
+    // Free text is malformed output, not a refusal
+    await expect(reconstruct()).rejects.toThrow('OpenAI did not return a prompt JSON');
+  });
+});
+
+describe('OpenAIService scene prompts', () => {
+  const scene = {
+    subjects: 'A woman',
+    identity: '',
+    pose: 'Standing',
+    clothing: 'Red coat',
+    background: 'City street',
+    lighting: 'Overcast daylight',
+    mood: 'Calm',
+    camera: '50mm, eye level',
+    style: 'Photorealistic',
+  };
+
+  it('renders the reconstructed scene as the prompt, skipping empty fields', async () => {
+    const service = new OpenAIService('test-key');
+    vi.spyOn(service, 'chatCompletions').mockResolvedValue(
+      JSON.stringify({
+        status: 'generated',
+        refusalReason: null,
+        scene: { ...scene, style: null, camera: '50mm, eye level!' },
+        prompt: null,
+      }),
+    );
+
+    const result = await service.reconstructPromptFromImage(Buffer.from('img'), 'image/png');
+
+    expect(result.scene).toEqual({ ...scene, style: '', camera: '50mm, eye level!' });
+    expect(result.prompt).toBe(
+      [
+        'Subjects: A woman.',
+        'Pose: Standing.',
+        'Clothing: Red coat.',
+        'Background: City street.',
+        'Lighting: Overcast daylight.',
+        'Mood: Calm.',
+        'Camera: 50mm, eye level!',
+      ].join('\n'),
+    );
+  });
+
+  it('merges only the changed fields into the scene', async () => {
+    const service = new OpenAIService('test-key');
+    vi.spyOn(service, 'chatCompletions').mockResolvedValue(
+      JSON.stringify({
+        status: 'generated',
+        refusalReason: null,
+        // Unchanged and null fields are not reported as changes
+        changes: { lighting: 'Golden hour sun', mood: 'Calm', pose: null, style: '' },
+      }),
+    );
+
+    const result = await service.editScene(scene, 'golden hour, drop the style');
+
+    expect(result.changedFields).toEqual(['lighting', 'style']);
+    expect(result.scene).toEqual({ ...scene, lighting: 'Golden hour sun', style: '' });
+    expect(result.prompt).toContain('Lighting: Golden hour sun.');
+    expect(result.prompt).not.toContain('Style:');
+  });
+});
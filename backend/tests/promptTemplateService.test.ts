@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PromptTemplateService } from '../src/services/promptTemplateService';
+
+describe('PromptTemplateService', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'prompt-templates-'));
+    filePath = path.join(dir, 'nested', 'prompt-templates.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('appends a version for new content and keeps earlier versions', async () => {
+    const service = new PromptTemplateService(filePath);
+    const template = await service.create({
+      name: 'Editor',
+      role: 'promptEditor',
+      content: 'You edit prompts.',
+    });
+
+    await service.update(template.id, { content: 'You edit prompts.' });
+    await service.update(template.id, { content: 'You edit prompts carefully.', note: 'stricter' });
+    const renamed = await service.update(template.id, { name: 'Careful editor' });
+
+    expect(renamed?.versions.map(({ version, note }) => ({ version, note }))).toEqual([
+      { version: 1, note: undefined },
+      { version: 2, note: 'stricter' },
+    ]);
+    expect(await new PromptTemplateService(filePath).get(template.id)).toEqual(renamed);
+  });
+
+  it('resolves requested versions over activated ones and rejects mismatches', async () => {
+    const service = new PromptTemplateService(filePath);
+    const editor = await service.create({ name: 'Editor', role: 'promptEditor', content: 'v1' });
+    await service.update(editor.id, { content: 'v2' });
+    const understand = await service.create({
+      name: 'Understand',
+      role: 'imageUnderstand',
+      content: 'describe',
+    });
+
+    expect(await service.activate(editor.id, 1)).toEqual({
+      id: editor.id,
+      name: 'Editor',
+      version: 1,
+    });
+    expect(await service.activate(editor.id, 5)).toBeUndefined();
+
+    const reloaded = new PromptTemplateService(filePath);
+    expect(await reloaded.resolve()).toEqual({
+      promptEditor: { id: editor.id, name: 'Editor', version: 1, content: 'v1' },
+    });
+    expect(await reloaded.resolve({ promptEditor: { id: editor.id } })).toMatchObject({
+      promptEditor: { version: 2, content: 'v2' },
+    });
+    await expect(reloaded.resolve({ imageUnderstand: { id: editor.id } })).rejects.toMatchObject({
+      status: 400,
+    });
+    await expect(
+      reloaded.resolve({ imageUnderstand: { id: understand.id, version: 2 } }),
+    ).rejects.toThrow(`Prompt template ${understand.id} has no version 2`);
+
+    // Archiving an active template falls back to the env prompt but keeps its versions resolvable
+    expect(await reloaded.archive(editor.id)).toBe(true);
+    expect(await reloaded.listActive()).toEqual({});
+    expect((await reloaded.list()).map((template) => template.id)).toEqual([understand.id]);
+    expect(await reloaded.activate(editor.id)).toBeUndefined();
+    expect(await reloaded.resolve({ promptEditor: { id: editor.id, version: 1 } })).toMatchObject({
+      promptEditor: { version: 1, content: 'v1' },
+    });
+  });
+
+  it('keeps every write from concurrent first calls', async () => {
+    const service = new PromptTemplateService(filePath);
+    await Promise.all(
+      ['First', 'Second'].map((name) =>
+        service.create({ name, role: 'promptEditor', content: 'v1' })),
+    );
+
+    expect((await new PromptTemplateService(filePath).list()).map(({ name }) => name)).toEqual([
+      'First',
+      'Second',
+    ]);
+  });
+});
@@ -16,5 +16,36 @@ describe('StorageService', () => {
     expect(result.key).toContain('inputs');
     expect(result.url).toMatch(/^https:\/\/public/);
   });
-});
 
+  it('resolves our own keys and public URLs but rejects anything else', () => {
+    const service = new StorageService({ send: vi.fn() } as any);
+
+    expect(service.resolveKey('internaluse/inputs/a.png')).toBe('internaluse/inputs/a.png');
+    expect(
+      service.resolveKey('https://public.example.com/internaluse/outputs/b.png'),
+    ).toBe('internaluse/outputs/b.png');
+    expect(service.resolveKey('https://evil.example.com/internaluse/inputs/a.png')).toBeNull();
+    expect(service.resolveKey('otherfolder/inputs/a.png')).toBeNull();
+    expect(service.resolveKey('internaluse/../secrets.json')).toBeNull();
+  });
+
+  it('rejects malformed URLs and percent-encoding instead of throwing', () => {
+    const service = new StorageService({ send: vi.fn() } as any);
+
+    expect(service.resolveKey('http://[')).toBeNull();
+    expect(service.resolveKey('https://public.example.com/internaluse/inputs/%E0%A4%A')).toBeNull();
+  });
+
+  it('downloads stored objects with their content type', async () => {
+    const send = vi.fn().mockResolvedValue({
+      Body: { transformToByteArray: async () => new Uint8Array([1, 2, 3]) },
+      ContentType: 'image/png',
+    });
+    const service = new StorageService({ send } as any);
+
+    const result = await service.downloadBuffer('internaluse/inputs/a.png');
+
+    expect(result.mimeType).toBe('image/png');
+    expect([...result.buffer]).toEqual([1, 2, 3]);
+  });
+});
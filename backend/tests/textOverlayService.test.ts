@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { TextOverlayService } from '../src/services/textOverlayService';
+
+const brightness = async (image: Buffer, top: number, height: number) => {
+  const { data } = await sharp(image)
+    .extract({ left: 0, top, width: 400, height })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  return data.reduce((sum, value) => sum + value, 0) / data.length;
+};
+
+describe('TextOverlayService', () => {
+  const service = new TextOverlayService(path.join(os.tmpdir(), 'no-such-font-dir'));
+
+  it('typesets the copy inside the layout region and keeps size and format', async () => {
+    const source = await sharp({
+      create: { width: 400, height: 300, channels: 3, background: '#808080' },
+    })
+      .jpeg()
+      .toBuffer();
+
+    const output = await service.render(source, {
+      headline: 'Summer sale',
+      subheadline: 'This weekend only',
+      cta: 'Shop now',
+      layout: 'bottom-band',
+      textColor: '#FFFFFF',
+      accentColor: '#E4572E',
+    });
+
+    const metadata = await sharp(output).metadata();
+    expect(metadata).toMatchObject({ width: 400, height: 300, format: 'jpeg' });
+    // The top of the frame is untouched; the band is darkened by the scrim
+    expect(await brightness(output, 0, 60)).toBeCloseTo(await brightness(source, 0, 60), 0);
+    expect(await brightness(output, 240, 60)).not.toBeCloseTo(
+      await brightness(source, 240, 60),
+      0,
+    );
+  });
+
+  it('rejects fonts outside the font directory', async () => {
+    expect(await service.hasFont('../secret.ttf')).toBe(false);
+    expect(await service.hasFont('missing.ttf')).toBe(false);
+    expect(await service.listFonts()).toEqual([]);
+  });
+});
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+
+const backendUrl =
+  process.env.BACKEND_URL ?? process.env.NEXT_PUBLIC_BACKEND_URL ?? 'http://localhost:4000';
+
+export async function GET() {
+  try {
+    const response = await fetch(`${backendUrl}/api/brand-kits`, {
+      method: 'GET',
+      // Kits are edited at any time
+      cache: 'no-store',
+    });
+
+    const payload = await response.text();
+    return new NextResponse(payload, {
+      status: response.status,
+      headers: {
+        'content-type': response.headers.get('content-type') ?? 'application/json',
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error
+        ? `Network error: ${error.message}`
+        : 'Unknown error occurred while fetching brand kits';
+
+    return new NextResponse(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: {
+          'content-type': 'application/json',
+        },
+      },
+    );
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const backendUrl =
+  process.env.BACKEND_URL ?? process.env.NEXT_PUBLIC_BACKEND_URL ?? 'http://localhost:4000';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { jobId: string } },
+) {
+  const body = await request.text();
+
+  try {
+    const response = await fetch(
+      `${backendUrl}/api/experiments/runs/${encodeURIComponent(params.jobId)}/rating`,
+      {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body,
+      },
+    );
+
+    // 204 on success; errors carry a JSON body
+    const payload = response.status === 204 ? null : await response.text();
+    return new NextResponse(payload, {
+      status: response.status,
+      headers: {
+        'content-type': response.headers.get('content-type') ?? 'application/json',
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error
+        ? `Network error: ${error.message}`
+        : 'Unknown error occurred while saving the rating';
+
+    return new NextResponse(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: {
+          'content-type': 'application/json',
+        },
+      },
+    );
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const backendUrl =
+  process.env.BACKEND_URL ?? process.env.NEXT_PUBLIC_BACKEND_URL ?? 'http://localhost:4000';
+
+// WHY: Event streams must never be statically optimized or cached
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const lastEventId = request.headers.get('last-event-id');
+    const response = await fetch(
+      `${backendUrl}/api/image-flow/jobs/${encodeURIComponent(params.id)}/events`,
+      {
+        method: 'GET',
+        headers: lastEventId ? { 'last-event-id': lastEventId } : undefined,
+        cache: 'no-store',
+        // Stop reading from the backend once the browser disconnects
+        signal: request.signal,
+      },
+    );
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      return new NextResponse(errorText, {
+        status: response.status,
+        headers: {
+          'content-type': 'application/json',
+        },
+      });
+    }
+
+    // Pipe the backend stream through untouched so events arrive as they are emitted
+    return new NextResponse(response.body, {
+      status: 200,
+      headers: {
+        'content-type': 'text/event-stream',
+        'cache-control': 'no-cache, no-transform',
+        connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error
+        ? `Network error: ${error.message}`
+        : 'Unknown error occurred while streaming job events';
+
+    return new NextResponse(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: {
+          'content-type': 'application/json',
+        },
+      },
+    );
+  }
+}
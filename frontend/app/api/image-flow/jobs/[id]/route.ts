@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const backendUrl =
+  process.env.BACKEND_URL ?? process.env.NEXT_PUBLIC_BACKEND_URL ?? 'http://localhost:4000';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: { id: string } },
+) {
+  try {
+    const response = await fetch(
+      `${backendUrl}/api/image-flow/jobs/${encodeURIComponent(params.id)}`,
+      {
+        method: 'GET',
+        // Job state changes on every poll
+        cache: 'no-store',
+      },
+    );
+
+    const payload = await response.text();
+    return new NextResponse(payload, {
+      status: response.status,
+      headers: {
+        'content-type': response.headers.get('content-type') ?? 'application/json',
+        'cache-control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error
+        ? `Network error: ${error.message}`
+        : 'Unknown error occurred while fetching job status';
+
+    return new NextResponse(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: {
+          'content-type': 'application/json',
+        },
+      },
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+const backendUrl =
+  process.env.BACKEND_URL ?? process.env.NEXT_PUBLIC_BACKEND_URL ?? 'http://localhost:4000';
+
+export async function POST(request: NextRequest) {
+  const body = await request.text();
+
+  try {
+    // Synchronous: the backend answers with the re-rendered output, not a job
+    const response = await fetch(`${backendUrl}/api/image-flow/overlay`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+      },
+      body,
+    });
+
+    const payload = await response.text();
+    return new NextResponse(payload, {
+      status: response.status,
+      headers: {
+        'content-type': response.headers.get('content-type') ?? 'application/json',
+      },
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error
+        ? `Network error: ${error.message}`
+        : 'Unknown error occurred while applying the overlay';
+
+    return new NextResponse(
+      JSON.stringify({ error: errorMessage }),
+      {
+        status: 500,
+        headers: {
+          'content-type': 'application/json',
+        },
+      },
+    );
+  }
+}
@@ -5,19 +5,16 @@ const backendUrl =
 
 export async function POST(request: NextRequest) {
   const formData = await request.formData();
+  // Keeps the user on the same arm of running prompt experiments
+  const userId = request.headers.get('x-user-id');
   
   try {
-    // Create abort controller for timeout (5 minutes)
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 300000);
-    
+    // The backend answers with a job ID right away; generation progress is polled via /jobs/[id]
     const response = await fetch(`${backendUrl}/api/image-flow`, {
       method: 'POST',
+      headers: userId ? { 'x-user-id': userId } : undefined,
       body: formData,
-      signal: controller.signal,
     });
-    
-    clearTimeout(timeoutId);
 
     const payload = await response.text();
     return new NextResponse(payload, {
@@ -27,15 +24,12 @@ export async function POST(request: NextRequest) {
       },
     });
   } catch (error) {
-    // Handle network errors, timeouts, and connection resets
-    const isAbortError = error instanceof Error && error.name === 'AbortError';
+    // Handle network errors and connection resets
     const isConnectionReset =
       error instanceof Error &&
       ('code' in error || error.message.includes('ECONNRESET') || error.message.includes('fetch failed'));
     
-    const errorMessage = isAbortError
-      ? 'Request timeout - the image generation is taking too long. Please try again.'
-      : isConnectionReset
+    const errorMessage = isConnectionReset
       ? 'Connection to backend failed. Please ensure the backend server is running on port 4000 and try again.'
       : error instanceof Error
       ? `Network error: ${error.message}`
@@ -0,0 +1,78 @@
+"use client";
+
+import { useState } from 'react';
+import { EXPERIMENT_RATINGS, ExperimentArmAssignment } from '../constants/experiment';
+
+type ExperimentRatingProps = {
+  jobId: string;
+  arms: ExperimentArmAssignment[];
+};
+
+/**
+ * Experiment arms a run was assigned to, with a 1–5 rating of its output
+ */
+export const ExperimentRating = ({ jobId, arms }: ExperimentRatingProps) => {
+  const [rating, setRating] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [ratingError, setRatingError] = useState<string | null>(null);
+
+  const saveRating = async (value: number) => {
+    setIsSaving(true);
+    setRatingError(null);
+    try {
+      const response = await fetch(`/api/experiments/runs/${encodeURIComponent(jobId)}/rating`, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify({ rating: value }),
+      });
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || 'Failed to save the rating');
+      }
+      setRating(value);
+    } catch (err) {
+      console.error('Failed to save the rating:', err);
+      setRatingError(err instanceof Error ? err.message : 'Failed to save the rating');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <p style={{ margin: 0, fontSize: 13, color: 'var(--muted)', lineHeight: 1.5 }}>
+        Experiment arm: {arms.map((arm) => arm.armName).join(' · ')}
+      </p>
+      <div role="group" aria-label="Rate this output" style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+        <span style={{ fontSize: 13, fontWeight: 600, color: 'var(--text)' }}>Rate this output</span>
+        {EXPERIMENT_RATINGS.map((value) => (
+          <button
+            key={value}
+            type="button"
+            aria-pressed={rating === value}
+            disabled={isSaving}
+            onClick={() => saveRating(value)}
+            style={{
+              width: 32,
+              height: 32,
+              background: rating === value ? 'var(--accent)' : 'var(--accent-light)',
+              color: rating === value ? '#ffffff' : 'var(--accent)',
+              border: 'none',
+              borderRadius: 8,
+              fontSize: 13,
+              fontWeight: 600,
+              cursor: isSaving ? 'wait' : 'pointer',
+            }}
+          >
+            {value}
+          </button>
+        ))}
+      </div>
+      {ratingError && (
+        <p style={{ margin: 0, fontSize: 13, color: 'var(--error)', lineHeight: 1.5 }}>{ratingError}</p>
+      )}
+    </div>
+  );
+};
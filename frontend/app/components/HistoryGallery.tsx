@@ -3,6 +3,8 @@
 import { useState } from 'react';
 import { HistoryItem } from '../hooks/useImageHistory';
 import { ImageLightbox } from './ImageLightbox';
+import { thumbnailUrl } from '../constants/thumbnails';
+import { altTextOr } from '../constants/altText';
 
 type HistoryGalleryProps = {
   history: HistoryItem[];
@@ -17,7 +19,7 @@ export const HistoryGallery = ({
   onRemoveItem,
   onClearHistory,
 }: HistoryGalleryProps) => {
-  const [lightboxImage, setLightboxImage] = useState<string | null>(null);
+  const [lightboxItem, setLightboxItem] = useState<HistoryItem | null>(null);
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   const [hoveredId, setHoveredId] = useState<string | null>(null);
 
@@ -185,13 +187,13 @@ export const HistoryGallery = ({
                   }}
                   onClick={(e) => {
                     e.stopPropagation();
-                    setLightboxImage(item.outputImage);
+                    setLightboxItem(item);
                     setIsLightboxOpen(true);
                   }}
                 >
                   <img
-                    src={item.outputImage}
-                    alt="Generated image"
+                    src={thumbnailUrl(item.outputThumbnails?.[0], 'medium', item.outputImage)}
+                    alt={altTextOr(item.outputAltTexts?.[0], 'Generated image')}
                     style={{
                       width: '100%',
                       height: '100%',
@@ -337,15 +339,16 @@ export const HistoryGallery = ({
         </div>
       </div>
 
-      {lightboxImage && (
+      {lightboxItem && (
         <ImageLightbox
-          imageUrl={lightboxImage}
+          imageUrl={lightboxItem.outputImage}
           isOpen={isLightboxOpen}
           onClose={() => {
             setIsLightboxOpen(false);
-            setLightboxImage(null);
+            setLightboxItem(null);
           }}
-          alt="History image preview"
+          alt={altTextOr(lightboxItem.outputAltTexts?.[0], 'History image preview')}
+          description={lightboxItem.outputAltTexts?.[0]?.description}
         />
       )}
     </>
@@ -1,12 +1,14 @@
 "use client";
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useId, useState, useRef } from 'react';
 
 type ImageLightboxProps = {
   imageUrl: string;
   isOpen: boolean;
   onClose: () => void;
   alt?: string;
+  // Long description shown under the image and linked via aria-describedby
+  description?: string;
 };
 
 export const ImageLightbox = ({
@@ -14,7 +16,9 @@ export const ImageLightbox = ({
   isOpen,
   onClose,
   alt = 'Image preview',
+  description,
 }: ImageLightboxProps) => {
+  const descriptionId = useId();
   const [isAnimating, setIsAnimating] = useState(false);
   const closeButtonRef = useRef<HTMLButtonElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -146,6 +150,7 @@ export const ImageLightbox = ({
         <img
           src={imageUrl}
           alt={alt}
+          aria-describedby={description ? descriptionId : undefined}
           style={{
             maxWidth: '100%',
             maxHeight: '100%',
@@ -165,6 +170,29 @@ export const ImageLightbox = ({
             }
           }}
         />
+        {description && (
+          <p
+            id={descriptionId}
+            style={{
+              position: 'absolute',
+              bottom: 12,
+              left: '50%',
+              transform: 'translateX(-50%)',
+              maxWidth: 'min(720px, 90%)',
+              margin: 0,
+              padding: '8px 14px',
+              borderRadius: 10,
+              background: 'rgba(0, 0, 0, 0.6)',
+              color: '#ffffff',
+              fontSize: 13,
+              lineHeight: 1.5,
+              textAlign: 'center',
+              cursor: 'text',
+            }}
+          >
+            {description}
+          </p>
+        )}
         <button
           ref={closeButtonRef}
           onClick={onClose}
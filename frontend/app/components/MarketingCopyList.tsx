@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from 'react';
+import { MarketingCopyVariant, copyChannelLabel } from '../constants/marketingCopy';
+
+type MarketingCopyListProps = {
+  variants: MarketingCopyVariant[];
+};
+
+const labelStyle = {
+  margin: 0,
+  fontSize: 11,
+  fontWeight: 600,
+  color: 'var(--muted)',
+  textTransform: 'uppercase' as const,
+  letterSpacing: 0.4,
+};
+
+const textStyle = {
+  margin: 0,
+  fontSize: 14,
+  color: 'var(--text-secondary)',
+  lineHeight: 1.6,
+  whiteSpace: 'pre-line' as const,
+  wordBreak: 'break-word' as const,
+};
+
+/**
+ * Marketing copy variants written alongside the image, with per-channel posts ready to paste
+ */
+export const MarketingCopyList = ({ variants }: MarketingCopyListProps) => {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const copyToClipboard = async (id: string, text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopiedId(id);
+      setTimeout(() => setCopiedId((current) => (current === id ? null : current)), 1500);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      {variants.map((variant, variantIndex) => (
+        <div key={variantIndex} className="review-panel-prompt-box" style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+          <h3 className="review-panel-prompt-title">{variant.headline}</h3>
+          <p style={textStyle}>{variant.body}</p>
+          <p style={{ ...textStyle, fontWeight: 600, color: 'var(--accent)' }}>{variant.cta}</p>
+          {variant.hashtags.length > 0 && (
+            <p style={{ ...textStyle, fontSize: 13, color: 'var(--muted)' }}>{variant.hashtags.join(' ')}</p>
+          )}
+
+          {variant.channels.map((entry) => {
+            const id = `${variantIndex}-${entry.channel}`;
+            return (
+              <div
+                key={entry.channel}
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: 6,
+                  paddingTop: 10,
+                  borderTop: '1px solid var(--panel-border)',
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
+                  <p style={labelStyle}>
+                    {copyChannelLabel(entry.channel)} · {entry.text.length}/{entry.characterLimit}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => copyToClipboard(id, entry.text)}
+                    style={{
+                      background: 'var(--accent-light)',
+                      color: 'var(--accent)',
+                      border: 'none',
+                      borderRadius: 8,
+                      padding: '4px 8px',
+                      fontSize: 12,
+                      fontWeight: 600,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {copiedId === id ? 'Copied' : 'Copy'}
+                  </button>
+                </div>
+                <p style={{ ...textStyle, fontSize: 13 }}>{entry.text}</p>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -5,6 +5,24 @@ import { useState } from 'react';
 import { ImageFlowResult } from '../hooks/useImageFlow';
 import { HistoryItem } from '../hooks/useImageHistory';
 import { ImageLightbox } from './ImageLightbox';
+import { thumbnailUrl } from '../constants/thumbnails';
+import { altTextOr } from '../constants/altText';
+import { TextOverlayFields } from './TextOverlayFields';
+import { MarketingCopyList } from './MarketingCopyList';
+import { QualityScoreCard } from './QualityScoreCard';
+import { SelfCorrectionAttempts } from './SelfCorrectionAttempts';
+import { SceneFields } from './SceneFields';
+import { ExperimentRating } from './ExperimentRating';
+import { SceneDescription } from '../constants/sceneDescription';
+import { PROMPT_TEMPLATE_ROLES } from '../constants/promptTemplate';
+import { refusalGuidance } from '../constants/promptRefusal';
+import { FontOption } from '../hooks/useFonts';
+import {
+  TextOverlay,
+  TextOverlayDraft,
+  fromTextOverlayDraft,
+  toTextOverlayDraft,
+} from '../constants/textOverlay';
 
 // Helper function to get time ago string
 function getTimeAgo(timestamp: number): string {
@@ -20,9 +38,37 @@ type PromptReviewPanelProps = {
   result: ImageFlowResult | HistoryItem | null;
   isLoading?: boolean;
   onClose?: () => void;
+  // Step 3 only: render an edited final prompt without re-running OpenAI
+  onRenderPrompt?: (prompt: string) => void;
+  // Step 3 only: render edited scene fields, which the backend turns into the prompt
+  onRenderScene?: (scene: SceneDescription) => void;
+  // Re-applies edited copy to the clean renders without regenerating them
+  onEditCopy?: (textOverlay: TextOverlay) => void;
+  copyError?: string | null;
+  fonts?: FontOption[];
 };
 
-export const PromptReviewPanel = ({ result, isLoading = false, onClose }: PromptReviewPanelProps) => {
+export const PromptReviewPanel = ({
+  result,
+  isLoading = false,
+  onClose,
+  onRenderPrompt,
+  onRenderScene,
+  onEditCopy,
+  copyError,
+  fonts = [],
+}: PromptReviewPanelProps) => {
+  const [activeTab, setActiveTab] = useState<'prompts' | 'marketingCopy'>('prompts');
+  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
+  const [sourceLightboxImage, setSourceLightboxImage] = useState<string | null>(null);
+  const [isSourceLightboxOpen, setIsSourceLightboxOpen] = useState(false);
+  const [selectedVariant, setSelectedVariant] = useState(0);
+  const [isEditingPrompt, setIsEditingPrompt] = useState(false);
+  const [editedPrompt, setEditedPrompt] = useState('');
+  const [sceneDraft, setSceneDraft] = useState<SceneDescription | null>(null);
+  const [isEditingCopy, setIsEditingCopy] = useState(false);
+  const [copyDraft, setCopyDraft] = useState<TextOverlayDraft>(toTextOverlayDraft());
+
   if (!result) {
     return (
       <div
@@ -76,15 +122,26 @@ export const PromptReviewPanel = ({ result, isLoading = false, onClose }: Prompt
     );
   }
 
-  const [activeTab, setActiveTab] = useState<'prompt1' | 'prompt2'>('prompt1');
-  const [isLightboxOpen, setIsLightboxOpen] = useState(false);
-  const [sourceLightboxImage, setSourceLightboxImage] = useState<string | null>(null);
-  const [isSourceLightboxOpen, setIsSourceLightboxOpen] = useState(false);
-
   // Check if result is a HistoryItem to show additional metadata
   const isHistoryItem = 'timestamp' in result && 'userPrompt' in result && 'aspectRatio' in result;
   const historyItem = isHistoryItem ? (result as HistoryItem) : null;
 
+  // Results from before variant support only carry a single output
+  const variants = result.outputImages && result.outputImages.length > 0
+    ? result.outputImages
+    : [result.outputImage];
+  const selectedOutput = variants[selectedVariant] ?? result.outputImage;
+  const selectedRenditions = result.outputRenditions?.[selectedVariant] ?? [];
+  const selectedAltText = result.outputAltTexts?.[selectedVariant];
+  const selectedQualityScore = result.outputQualityScores?.[selectedVariant];
+  const hasMarketingCopy = (result.marketingCopyVariants?.length ?? 0) > 0;
+  // scene2 is missing once a self-corrected revision replaced the Step 2 prompt
+  const scene = result.scene2 ?? result.scene1;
+  const sceneChanges = result.scene2 ? result.sceneChanges : undefined;
+  const canRenderScene = sceneDraft !== null && Object.values(sceneDraft).some((value) => value.trim());
+  // Results without copy always show the prompts
+  const visibleTab = hasMarketingCopy ? activeTab : 'prompts';
+
   return (
     <div
       className="review-panel-wrapper"
@@ -157,8 +214,8 @@ export const PromptReviewPanel = ({ result, isLoading = false, onClose }: Prompt
           </h3>
         <div className="review-panel-image-wrapper">
           <img
-            src={result.outputImage}
-            alt="Generated image"
+            src={selectedOutput}
+            alt={altTextOr(selectedAltText, 'Generated image')}
             style={{
               width: 'auto',
               height: 'auto',
@@ -191,6 +248,92 @@ export const PromptReviewPanel = ({ result, isLoading = false, onClose }: Prompt
             aria-label="Generated image - Press Enter or Space to view full resolution"
           />
         </div>
+        {variants.length > 1 && (
+          <div
+            role="tablist"
+            aria-label={result.renders ? 'Channel pack renders' : 'Generated variants'}
+            style={{
+              display: 'flex',
+              gap: 8,
+              justifyContent: 'center',
+              flexWrap: 'wrap',
+              marginTop: 12,
+            }}
+          >
+            {variants.map((variantUrl, idx) => (
+              <button
+                key={variantUrl}
+                type="button"
+                role="tab"
+                aria-selected={idx === selectedVariant}
+                aria-label={result.renders?.[idx]
+                  ? `Show ${result.renders[idx].aspectRatio} render`
+                  : `Show variant ${idx + 1}`}
+                onClick={() => setSelectedVariant(idx)}
+                style={{
+                  width: 56,
+                  height: 56,
+                  padding: 0,
+                  borderRadius: 8,
+                  overflow: 'hidden',
+                  border: idx === selectedVariant
+                    ? '2px solid var(--accent)'
+                    : '1px solid var(--panel-border)',
+                  cursor: 'pointer',
+                  background: 'var(--upload-area-bg)',
+                  transition: 'transform 0.2s ease',
+                }}
+              >
+                <img
+                  src={thumbnailUrl(result.outputThumbnails?.[idx], 'small', variantUrl)}
+                  alt={altTextOr(
+                    result.outputAltTexts?.[idx],
+                    result.renders?.[idx] ? `${result.renders[idx].aspectRatio} render` : `Variant ${idx + 1}`,
+                  )}
+                  style={{
+                    width: '100%',
+                    height: '100%',
+                    objectFit: 'cover',
+                    display: 'block',
+                  }}
+                />
+              </button>
+            ))}
+          </div>
+        )}
+        {selectedRenditions.length > 0 && (
+          <div
+            aria-label="Download renditions"
+            style={{
+              display: 'flex',
+              gap: 6,
+              justifyContent: 'center',
+              flexWrap: 'wrap',
+              marginTop: 12,
+            }}
+          >
+            {selectedRenditions.map((rendition) => (
+              <a
+                key={rendition.key}
+                href={rendition.url}
+                download
+                target="_blank"
+                rel="noreferrer"
+                style={{
+                  background: 'var(--accent-light)',
+                  color: 'var(--accent)',
+                  borderRadius: 8,
+                  padding: '4px 8px',
+                  fontSize: 12,
+                  fontWeight: 600,
+                  textDecoration: 'none',
+                }}
+              >
+                {rendition.format.toUpperCase()} {rendition.width}×{rendition.height}
+              </a>
+            ))}
+          </div>
+        )}
       </div>
 
         {/* Right Side - Metadata and Prompts */}
@@ -291,7 +434,7 @@ export const PromptReviewPanel = ({ result, isLoading = false, onClose }: Prompt
                         title="Base image"
                       >
                         <img
-                          src={historyItem.baseImage}
+                          src={thumbnailUrl(historyItem.baseImageThumbnails, 'small', historyItem.baseImage)}
                           alt="Base"
                           style={{
                             width: '100%',
@@ -327,7 +470,7 @@ export const PromptReviewPanel = ({ result, isLoading = false, onClose }: Prompt
                         title={`Reference ${idx + 1}`}
                       >
                         <img
-                          src={refUrl}
+                          src={thumbnailUrl(historyItem.referenceImageThumbnails?.[idx], 'small', refUrl)}
                           alt={`Ref ${idx + 1}`}
                           style={{
                             width: '100%',
@@ -343,39 +486,400 @@ export const PromptReviewPanel = ({ result, isLoading = false, onClose }: Prompt
             </div>
           )}
 
-          {/* Reconstruction Prompt */}
-          <div className="review-panel-prompt-section">
-            <h3 className="review-panel-prompt-title">
-              <span style={{ color: 'var(--accent)', fontSize: 18 }}>📝</span>
-              <span>Reconstruction Prompt</span>
-            </h3>
-            <div className="review-panel-prompt-box">
-              <p>{result.prompt1}</p>
+          {/* Tabs - prompts, and the marketing copy when it was written */}
+          {hasMarketingCopy && (
+            <div role="tablist" aria-label="Result details" style={{ display: 'flex', gap: 6 }}>
+              {([
+                ['prompts', 'Prompts'],
+                ['marketingCopy', 'Marketing copy'],
+              ] as const).map(([tab, label]) => (
+                <button
+                  key={tab}
+                  type="button"
+                  role="tab"
+                  aria-selected={visibleTab === tab}
+                  onClick={() => setActiveTab(tab)}
+                  style={{
+                    background: visibleTab === tab ? 'var(--accent)' : 'var(--accent-light)',
+                    color: visibleTab === tab ? '#ffffff' : 'var(--accent)',
+                    border: 'none',
+                    borderRadius: 10,
+                    padding: '8px 14px',
+                    fontSize: 13,
+                    fontWeight: 600,
+                    cursor: 'pointer',
+                  }}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {visibleTab === 'marketingCopy' && result.marketingCopyVariants && (
+            <MarketingCopyList variants={result.marketingCopyVariants} />
+          )}
+
+          {visibleTab === 'prompts' && (
+          <>
+            {/* Quality judge verdict for the selected variant */}
+            {selectedQualityScore && (
+              <div className="review-panel-prompt-section">
+                <h3 className="review-panel-prompt-title">
+                  <span style={{ color: 'var(--accent)', fontSize: 18 }}>⭐</span>
+                  <span>Quality Score{variants.length > 1 ? ` · Variant ${selectedVariant + 1}` : ''}</span>
+                </h3>
+                <QualityScoreCard score={selectedQualityScore} />
+              </div>
+            )}
+
+            {/* Auto-retry attempts, kept for audit */}
+            {result.selfCorrection && (
+              <div className="review-panel-prompt-section">
+                <h3 className="review-panel-prompt-title">
+                  <span style={{ color: 'var(--accent)', fontSize: 18 }}>🔁</span>
+                  <span>Self-correction · {result.selfCorrection.attempts.length} attempt(s)</span>
+                </h3>
+                <SelfCorrectionAttempts report={result.selfCorrection} />
+              </div>
+            )}
+
+            {/* Partial prompts: the model left part of the image or instructions out */}
+            {result.promptWarnings?.map((warning) => (
+              <div
+                key={warning.step}
+                role="note"
+                style={{
+                  background: 'var(--accent-light)',
+                  borderRadius: 12,
+                  padding: '12px 14px',
+                  fontSize: 13,
+                  lineHeight: 1.5,
+                  color: 'var(--text-secondary)',
+                }}
+              >
+                <strong style={{ color: 'var(--warning)' }}>
+                  {warning.step === 'reconstruct'
+                    ? 'Part of the image was left out of the reconstruction prompt.'
+                    : 'Part of your instructions was left out of the edited prompt.'}
+                </strong>{' '}
+                {refusalGuidance(warning.refusalReason)}
+              </div>
+            ))}
+
+            {/* System prompt template versions, recorded so the run can be reproduced */}
+            {result.promptTemplates && (
+              <p style={{ margin: 0, fontSize: 13, color: 'var(--muted)', lineHeight: 1.5 }}>
+                {PROMPT_TEMPLATE_ROLES.map(({ id, label }) => {
+                  const usage = result.promptTemplates?.[id];
+                  return `${label}: ${usage ? `${usage.name} · v${usage.version}` : 'built-in'}`;
+                }).join(' · ')}
+              </p>
+            )}
+
+            {/* Runs assigned to a prompt experiment can be rated for its report */}
+            {result.jobId && result.experimentArms && result.experimentArms.length > 0 && (
+              <ExperimentRating key={result.jobId} jobId={result.jobId} arms={result.experimentArms} />
+            )}
+
+            {/* Reconstruction Prompt */}
+            <div className="review-panel-prompt-section">
+              <h3 className="review-panel-prompt-title">
+                <span style={{ color: 'var(--accent)', fontSize: 18 }}>📝</span>
+                <span>Reconstruction Prompt</span>
+              </h3>
+              <div className="review-panel-prompt-box">
+                <p>{result.prompt1}</p>
+              </div>
             </div>
-          </div>
 
-          {/* Edited Prompt - Only show if Step 2 was executed */}
-          {/* For history items, check if userPrompt exists; for new results, check step2Executed flag */}
-          {((isHistoryItem && historyItem.userPrompt && historyItem.userPrompt.trim().length > 0) ||
-            (!isHistoryItem && result.step2Executed === true)) && (
-          <div className="review-panel-prompt-section">
-            <h3 className="review-panel-prompt-title">
-              <span style={{ color: 'var(--accent)', fontSize: 18 }}>✏️</span>
-              <span>Edited Prompt</span>
-            </h3>
-            <div className="review-panel-prompt-box">
-              <p>{result.prompt2}</p>
+            {/* Edited Prompt - Only show if Step 2 was executed */}
+            {/* For history items, check if userPrompt exists; for new results, check step2Executed flag */}
+            {/* Renders of a hand-edited prompt also differ from the reconstruction */}
+            {((isHistoryItem && historyItem.userPrompt && historyItem.userPrompt.trim().length > 0) ||
+              (!isHistoryItem && result.step2Executed === true) ||
+              (result.prompt2 && result.prompt2 !== result.prompt1)) && (
+            <div className="review-panel-prompt-section">
+              <h3 className="review-panel-prompt-title">
+                <span style={{ color: 'var(--accent)', fontSize: 18 }}>✏️</span>
+                <span>Edited Prompt</span>
+              </h3>
+              <div className="review-panel-prompt-box">
+                <p>{result.prompt2}</p>
+              </div>
             </div>
-          </div>
+            )}
+
+            {/* Scene fields behind the prompt - each field is edited on its own (Step 3 only) */}
+            {scene && (
+              <div className="review-panel-prompt-section">
+                <h3 className="review-panel-prompt-title">
+                  <span style={{ color: 'var(--accent)', fontSize: 18 }}>🧩</span>
+                  <span>{result.scene2 ? 'Scene' : 'Reconstructed Scene'}</span>
+                </h3>
+                {sceneDraft ? (
+                  <>
+                    <SceneFields
+                      scene={sceneDraft}
+                      changedFields={sceneChanges}
+                      onChange={setSceneDraft}
+                      idPrefix="review-scene"
+                    />
+                    <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+                      <button
+                        type="button"
+                        onClick={() => setSceneDraft(null)}
+                        style={{
+                          background: 'transparent',
+                          color: 'var(--muted)',
+                          border: '1px solid var(--panel-border)',
+                          borderRadius: 10,
+                          padding: '8px 14px',
+                          fontSize: 13,
+                          cursor: 'pointer',
+                        }}
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        disabled={isLoading || !canRenderScene}
+                        onClick={() => {
+                          if (!onRenderScene) return;
+                          onRenderScene(sceneDraft);
+                          setSceneDraft(null);
+                        }}
+                        style={{
+                          background: 'var(--accent-gradient)',
+                          color: '#ffffff',
+                          border: 'none',
+                          borderRadius: 10,
+                          padding: '8px 14px',
+                          fontSize: 13,
+                          fontWeight: 600,
+                          cursor: isLoading || !canRenderScene ? 'not-allowed' : 'pointer',
+                          opacity: isLoading || !canRenderScene ? 0.6 : 1,
+                        }}
+                      >
+                        ✨ Render this scene
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <SceneFields scene={scene} changedFields={sceneChanges} />
+                    {onRenderScene && (
+                      <button
+                        type="button"
+                        onClick={() => setSceneDraft(scene)}
+                        style={{
+                          alignSelf: 'flex-start',
+                          background: 'var(--accent-light)',
+                          color: 'var(--accent)',
+                          border: 'none',
+                          borderRadius: 10,
+                          padding: '8px 14px',
+                          fontSize: 13,
+                          fontWeight: 600,
+                          cursor: 'pointer',
+                        }}
+                      >
+                        ✏️ Edit scene fields
+                      </button>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+
+            {/* Final prompt editor - renders the edited prompt as-is (Step 3 only) */}
+            {onRenderPrompt && (
+              <div className="review-panel-prompt-section">
+                {isEditingPrompt ? (
+                  <>
+                    <h3 className="review-panel-prompt-title">
+                      <span style={{ color: 'var(--accent)', fontSize: 18 }}>🎯</span>
+                      <span>Final Prompt</span>
+                    </h3>
+                    <textarea
+                      value={editedPrompt}
+                      onChange={(event) => setEditedPrompt(event.target.value)}
+                      aria-label="Edit the final prompt"
+                      style={{
+                        background: 'var(--input-bg)',
+                        color: 'var(--text)',
+                        borderRadius: 12,
+                        padding: '12px 14px',
+                        border: '1px solid var(--input-border)',
+                        minHeight: 160,
+                        resize: 'vertical',
+                        fontSize: 14,
+                        fontFamily: 'inherit',
+                        lineHeight: 1.6,
+                        width: '100%',
+                        boxSizing: 'border-box',
+                      }}
+                    />
+                    <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+                      <button
+                        type="button"
+                        onClick={() => setIsEditingPrompt(false)}
+                        style={{
+                          background: 'transparent',
+                          color: 'var(--muted)',
+                          border: '1px solid var(--panel-border)',
+                          borderRadius: 10,
+                          padding: '8px 14px',
+                          fontSize: 13,
+                          cursor: 'pointer',
+                        }}
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        disabled={isLoading || editedPrompt.trim().length < 3}
+                        onClick={() => {
+                          onRenderPrompt(editedPrompt.trim());
+                          setIsEditingPrompt(false);
+                        }}
+                        style={{
+                          background: 'var(--accent-gradient)',
+                          color: '#ffffff',
+                          border: 'none',
+                          borderRadius: 10,
+                          padding: '8px 14px',
+                          fontSize: 13,
+                          fontWeight: 600,
+                          cursor: isLoading || editedPrompt.trim().length < 3 ? 'not-allowed' : 'pointer',
+                          opacity: isLoading || editedPrompt.trim().length < 3 ? 0.6 : 1,
+                        }}
+                      >
+                        ✨ Render this prompt
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditedPrompt(result.prompt2 || result.prompt1);
+                      setIsEditingPrompt(true);
+                    }}
+                    style={{
+                      alignSelf: 'flex-start',
+                      background: 'var(--accent-light)',
+                      color: 'var(--accent)',
+                      border: 'none',
+                      borderRadius: 10,
+                      padding: '8px 14px',
+                      fontSize: 13,
+                      fontWeight: 600,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    ✏️ Edit final prompt
+                  </button>
+                )}
+              </div>
+            )}
+
+            {/* Copy editor - re-typesets the text overlay on the clean renders */}
+            {onEditCopy && result.textOverlay && result.cleanOutputImageKeys && (
+              <div className="review-panel-prompt-section">
+                {isEditingCopy ? (
+                  <>
+                    <h3 className="review-panel-prompt-title">
+                      <span style={{ color: 'var(--accent)', fontSize: 18 }}>🔤</span>
+                      <span>Copy</span>
+                    </h3>
+                    <TextOverlayFields
+                      value={copyDraft}
+                      onChange={setCopyDraft}
+                      fonts={fonts}
+                      idPrefix="review-copy"
+                    />
+                    <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+                      <button
+                        type="button"
+                        onClick={() => setIsEditingCopy(false)}
+                        style={{
+                          background: 'transparent',
+                          color: 'var(--muted)',
+                          border: '1px solid var(--panel-border)',
+                          borderRadius: 10,
+                          padding: '8px 14px',
+                          fontSize: 13,
+                          cursor: 'pointer',
+                        }}
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="button"
+                        disabled={isLoading || !copyDraft.headline.trim()}
+                        onClick={() => {
+                          const textOverlay = fromTextOverlayDraft(copyDraft, result.textOverlay);
+                          if (!textOverlay) return;
+                          onEditCopy(textOverlay);
+                          setIsEditingCopy(false);
+                        }}
+                        style={{
+                          background: 'var(--accent-gradient)',
+                          color: '#ffffff',
+                          border: 'none',
+                          borderRadius: 10,
+                          padding: '8px 14px',
+                          fontSize: 13,
+                          fontWeight: 600,
+                          cursor: isLoading || !copyDraft.headline.trim() ? 'not-allowed' : 'pointer',
+                          opacity: isLoading || !copyDraft.headline.trim() ? 0.6 : 1,
+                        }}
+                      >
+                        🔤 Apply copy
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setCopyDraft(toTextOverlayDraft(result.textOverlay));
+                      setIsEditingCopy(true);
+                    }}
+                    style={{
+                      alignSelf: 'flex-start',
+                      background: 'var(--accent-light)',
+                      color: 'var(--accent)',
+                      border: 'none',
+                      borderRadius: 10,
+                      padding: '8px 14px',
+                      fontSize: 13,
+                      fontWeight: 600,
+                      cursor: 'pointer',
+                    }}
+                  >
+                    🔤 Edit copy
+                  </button>
+                )}
+                {copyError && (
+                  <p style={{ margin: 0, fontSize: 13, color: 'var(--error)', lineHeight: 1.5 }}>
+                    {copyError}
+                  </p>
+                )}
+              </div>
+            )}
+          </>
           )}
         </div>
           </div>
 
       <ImageLightbox
-        imageUrl={result.outputImage}
+        imageUrl={selectedOutput}
         isOpen={isLightboxOpen}
         onClose={() => setIsLightboxOpen(false)}
-        alt="Generated image - Full resolution"
+        alt={altTextOr(selectedAltText, 'Generated image - Full resolution')}
+        description={selectedAltText?.description}
       />
 
       {sourceLightboxImage && (
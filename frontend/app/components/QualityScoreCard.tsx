@@ -0,0 +1,53 @@
+"use client";
+
+import { MAX_QUALITY_SCORE, OutputQualityScore, QUALITY_CRITERIA } from '../constants/qualityScore';
+
+type QualityScoreCardProps = {
+  score: OutputQualityScore;
+};
+
+const scoreColor = (score: number) =>
+  score >= 4 ? 'var(--success)' : score >= 3 ? 'var(--warning)' : 'var(--error)';
+
+/**
+ * Quality judge verdict for one output: a score bar and rationale per criterion
+ */
+export const QualityScoreCard = ({ score }: QualityScoreCardProps) => (
+  <div className="review-panel-prompt-box" style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+    <p style={{ margin: 0, fontSize: 14, fontWeight: 600, color: 'var(--text)' }}>
+      Overall {score.overall.toFixed(1)} / {MAX_QUALITY_SCORE}
+    </p>
+    {QUALITY_CRITERIA.map(({ id, label }) => {
+      const criterion = score[id];
+      return (
+        <div key={id} style={{ display: 'flex', flexDirection: 'column', gap: 4 }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8, fontSize: 13 }}>
+            <span style={{ fontWeight: 600, color: 'var(--text-secondary)' }}>{label}</span>
+            <span style={{ fontWeight: 600, color: scoreColor(criterion.score) }}>
+              {criterion.score} / {MAX_QUALITY_SCORE}
+            </span>
+          </div>
+          <div
+            role="meter"
+            aria-label={label}
+            aria-valuemin={1}
+            aria-valuemax={MAX_QUALITY_SCORE}
+            aria-valuenow={criterion.score}
+            style={{ height: 6, borderRadius: 3, background: 'var(--panel-border)', overflow: 'hidden' }}
+          >
+            <div
+              style={{
+                width: `${(criterion.score / MAX_QUALITY_SCORE) * 100}%`,
+                height: '100%',
+                background: scoreColor(criterion.score),
+              }}
+            />
+          </div>
+          <p style={{ margin: 0, fontSize: 13, color: 'var(--muted)', lineHeight: 1.5 }}>
+            {criterion.rationale}
+          </p>
+        </div>
+      );
+    })}
+  </div>
+);
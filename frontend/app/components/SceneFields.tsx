@@ -0,0 +1,93 @@
+"use client";
+
+import { CSSProperties } from 'react';
+import {
+  MAX_SCENE_FIELD_LENGTH,
+  SCENE_FIELDS,
+  SceneDescription,
+  SceneField,
+} from '../constants/sceneDescription';
+
+type SceneFieldsProps = {
+  scene: SceneDescription;
+  // Fields Step 2 rewrote, marked as edited
+  changedFields?: SceneField[];
+  // Fields are editable when set
+  onChange?: (scene: SceneDescription) => void;
+  // Keeps textarea ids unique when the fields are rendered more than once
+  idPrefix?: string;
+};
+
+const labelTextStyle: CSSProperties = {
+  fontSize: 13,
+  fontWeight: 600,
+  color: 'var(--text)',
+  lineHeight: 1.4,
+};
+
+const textareaStyle: CSSProperties = {
+  background: 'var(--input-bg)',
+  color: 'var(--text)',
+  borderRadius: 12,
+  padding: '10px 14px',
+  border: '1px solid var(--input-border)',
+  minHeight: 64,
+  resize: 'vertical',
+  fontSize: 14,
+  fontFamily: 'inherit',
+  lineHeight: 1.5,
+  width: '100%',
+  boxSizing: 'border-box',
+};
+
+const EditedBadge = () => (
+  <span style={{ marginLeft: 6, fontSize: 11, fontWeight: 600, color: 'var(--accent)' }}>edited</span>
+);
+
+/**
+ * Field-level scene description behind a prompt, read-only or editable one field at a time
+ */
+export const SceneFields = ({ scene, changedFields = [], onChange, idPrefix = 'scene' }: SceneFieldsProps) => {
+  if (onChange) {
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+        {SCENE_FIELDS.map(({ id, label }) => (
+          <label
+            key={id}
+            htmlFor={`${idPrefix}-${id}`}
+            style={{ display: 'flex', flexDirection: 'column', gap: 6 }}
+          >
+            <span style={labelTextStyle}>
+              {label}
+              {changedFields.includes(id) && <EditedBadge />}
+            </span>
+            <textarea
+              id={`${idPrefix}-${id}`}
+              value={scene[id]}
+              maxLength={MAX_SCENE_FIELD_LENGTH}
+              onChange={(event) => onChange({ ...scene, [id]: event.target.value })}
+              placeholder="Leave empty if it does not apply"
+              style={textareaStyle}
+            />
+          </label>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <dl className="review-panel-prompt-box" style={{ margin: 0, display: 'grid', gap: 8 }}>
+      {SCENE_FIELDS.filter(({ id }) => scene[id].trim()).map(({ id, label }) => (
+        <div key={id}>
+          <dt style={labelTextStyle}>
+            {label}
+            {changedFields.includes(id) && <EditedBadge />}
+          </dt>
+          <dd style={{ margin: 0, fontSize: 14, lineHeight: 1.6, color: 'var(--text-secondary)' }}>
+            {scene[id]}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
@@ -0,0 +1,70 @@
+"use client";
+
+import { SelfCorrectionReport } from '../constants/selfCorrection';
+import { thumbnailUrl } from '../constants/thumbnails';
+import { MAX_QUALITY_SCORE } from '../constants/qualityScore';
+
+type SelfCorrectionAttemptsProps = {
+  report: SelfCorrectionReport;
+};
+
+/**
+ * Audit trail of the auto-retry loop: every attempt with its score and prompt
+ */
+export const SelfCorrectionAttempts = ({ report }: SelfCorrectionAttemptsProps) => (
+  <div className="review-panel-prompt-box" style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+    <p style={{ margin: 0, fontSize: 13, color: 'var(--muted)' }}>
+      {report.accepted
+        ? `Attempt ${report.selectedAttempt} reached ${report.threshold} / ${MAX_QUALITY_SCORE}.`
+        : `No attempt reached ${report.threshold} / ${MAX_QUALITY_SCORE}; showing the best one (attempt ${report.selectedAttempt}).`}
+    </p>
+    {report.attempts.map((attempt) => {
+      const isSelected = attempt.attempt === report.selectedAttempt;
+      return (
+        <div
+          key={attempt.attempt}
+          style={{
+            display: 'flex',
+            gap: 12,
+            padding: 8,
+            borderRadius: 10,
+            border: isSelected ? '1px solid var(--accent)' : '1px solid var(--panel-border)',
+          }}
+        >
+          <a href={attempt.outputImage} target="_blank" rel="noopener noreferrer" style={{ flexShrink: 0 }}>
+            <img
+              src={thumbnailUrl(attempt.thumbnails, 'small', attempt.outputImage)}
+              alt={`Attempt ${attempt.attempt}`}
+              style={{ width: 72, height: 72, objectFit: 'cover', borderRadius: 8, display: 'block' }}
+            />
+          </a>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 4, minWidth: 0 }}>
+            <p style={{ margin: 0, fontSize: 13, fontWeight: 600, color: 'var(--text)' }}>
+              Attempt {attempt.attempt}
+              {' · '}
+              {attempt.qualityScore
+                ? `${attempt.qualityScore.overall.toFixed(1)} / ${MAX_QUALITY_SCORE}`
+                : 'not scored'}
+              {isSelected && <span style={{ color: 'var(--accent)' }}> · selected</span>}
+            </p>
+            <p
+              title={attempt.prompt2}
+              style={{
+                margin: 0,
+                fontSize: 12,
+                color: 'var(--text-secondary)',
+                lineHeight: 1.5,
+                display: '-webkit-box',
+                WebkitLineClamp: 3,
+                WebkitBoxOrient: 'vertical',
+                overflow: 'hidden',
+              }}
+            >
+              {attempt.prompt2}
+            </p>
+          </div>
+        </div>
+      );
+    })}
+  </div>
+);
@@ -2,7 +2,10 @@
 
 import { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import { HistoryItem } from '../hooks/useImageHistory';
+import { ImageFlowProgressEvent } from '../hooks/useImageFlow';
 import { ImageLightbox } from './ImageLightbox';
+import { thumbnailUrl } from '../constants/thumbnails';
+import { altTextOr } from '../constants/altText';
 
 type StudioGalleryProps = {
   history: HistoryItem[];
@@ -11,9 +14,13 @@ type StudioGalleryProps = {
   onRegenerate?: (item: HistoryItem) => void;
   isLoading?: boolean;
   progressLabel?: string | null;
+  progressEvents?: ImageFlowProgressEvent[];
   generatingAspectRatio?: string | null;
 };
 
+const MAX_VISIBLE_PROGRESS_EVENTS = 4; // Keep the placeholder compact on small tiles
+const PACK_THUMBNAIL_HEIGHT_PX = 32; // Height of each render in a channel pack strip
+
 const MIN_ROW_HEIGHT_PX = 250; // Minimum row height
 const MAX_ROW_HEIGHT_PX = 500; // Maximum row height to prevent too tall rows
 const BASE_ROW_HEIGHT_PX = 300; // Base height for initial render
@@ -49,6 +56,7 @@ export const StudioGallery = ({
   onRegenerate,
   isLoading = false,
   progressLabel,
+  progressEvents = [],
   generatingAspectRatio = null,
 }: StudioGalleryProps) => {
   const [lightboxImage, setLightboxImage] = useState<string | null>(null);
@@ -587,6 +595,41 @@ export const StudioGallery = ({
                             >
                               {progressLabel || 'Generating...'}
                             </div>
+                            {/* Live pipeline events streamed from the backend */}
+                            {progressEvents.length > 0 && (
+                              <ol
+                                aria-live="polite"
+                                style={{
+                                  listStyle: 'none',
+                                  margin: 0,
+                                  padding: '0 16px',
+                                  display: 'flex',
+                                  flexDirection: 'column',
+                                  gap: 4,
+                                  maxWidth: '100%',
+                                  boxSizing: 'border-box',
+                                }}
+                              >
+                                {progressEvents.slice(-MAX_VISIBLE_PROGRESS_EVENTS).map((event) => (
+                                  <li
+                                    key={event.id}
+                                    style={{
+                                      fontSize: 11,
+                                      color: 'var(--muted)',
+                                      textAlign: 'center',
+                                      whiteSpace: 'nowrap',
+                                      overflow: 'hidden',
+                                      textOverflow: 'ellipsis',
+                                      animation: 'fadeInUp 0.3s ease both',
+                                    }}
+                                    title={event.detail}
+                                  >
+                                    <span style={{ fontWeight: 600 }}>✓ {event.label}</span>
+                                    {event.detail && <span>: {event.detail}</span>}
+                                  </li>
+                                ))}
+                              </ol>
+                            )}
                             {item.aspectRatio && (
                               <div
                                 style={{
@@ -620,8 +663,11 @@ export const StudioGallery = ({
                             
                             {/* Actual Image - Fill container perfectly (like justifiedgrid.html) */}
                             <img
-                              src={item.outputImage}
-                              alt={item.userPrompt ? `AI-generated marketing image: ${item.userPrompt.substring(0, 100)}` : 'AI-generated marketing image'}
+                              src={thumbnailUrl(item.outputThumbnails?.[0], 'medium', item.outputImage)}
+                              alt={altTextOr(
+                                item.outputAltTexts?.[0],
+                                item.userPrompt ? `AI-generated marketing image: ${item.userPrompt.substring(0, 100)}` : 'AI-generated marketing image',
+                              )}
                               title={item.userPrompt || 'Generated marketing image'}
                               style={{
                                 // ✅ Like justifiedgrid.html: normal flow, image determines container height
@@ -659,6 +705,71 @@ export const StudioGallery = ({
                           </>
                         )}
 
+                        {/* Channel pack strip - every aspect ratio of the pack side by side */}
+                        {!isGenerating && (item.renders?.length ?? 0) > 1 && (
+                          <div
+                            style={{
+                              position: 'absolute',
+                              top: 10,
+                              left: 10,
+                              zIndex: 11,
+                              display: 'flex',
+                              alignItems: 'flex-end',
+                              gap: 4,
+                              padding: 4,
+                              borderRadius: 8,
+                              background: 'rgba(0, 0, 0, 0.6)',
+                              pointerEvents: 'none',
+                            }}
+                            title={`Channel pack: ${item.renders?.map((render) => render.aspectRatio).join(', ')}`}
+                          >
+                            {item.renders?.map((render) => (
+                              <div
+                                key={render.outputImageKey}
+                                style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 2 }}
+                              >
+                                <img
+                                  src={thumbnailUrl(render.thumbnails, 'small', render.outputImage)}
+                                  alt={altTextOr(render.altText, `${render.aspectRatio} render`)}
+                                  loading="lazy"
+                                  style={{
+                                    height: PACK_THUMBNAIL_HEIGHT_PX,
+                                    width: PACK_THUMBNAIL_HEIGHT_PX * (parseAspectRatio(render.aspectRatio) ?? 1),
+                                    objectFit: 'cover',
+                                    borderRadius: 4,
+                                    display: 'block',
+                                  }}
+                                />
+                                <span style={{ color: '#ffffff', fontSize: 9, fontWeight: 600 }}>
+                                  {render.aspectRatio}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {/* Variant count badge */}
+                        {!isGenerating && !item.renders && (item.outputImages?.length ?? 0) > 1 && (
+                          <div
+                            style={{
+                              position: 'absolute',
+                              top: 10,
+                              left: 10,
+                              zIndex: 11,
+                              padding: '4px 8px',
+                              borderRadius: 6,
+                              background: 'rgba(0, 0, 0, 0.6)',
+                              color: '#ffffff',
+                              fontSize: 11,
+                              fontWeight: 600,
+                              pointerEvents: 'none',
+                            }}
+                            title={`${item.outputImages?.length} variants`}
+                          >
+                            ×{item.outputImages?.length}
+                          </div>
+                        )}
+
                         {/* Hover Overlay with Actions */}
                         {!isGenerating && (
                           <div
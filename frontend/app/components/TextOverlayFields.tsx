@@ -0,0 +1,132 @@
+"use client";
+
+import { CSSProperties, FocusEvent } from 'react';
+import {
+  TEXT_OVERLAY_LAYOUTS,
+  TEXT_OVERLAY_LAYOUT_LABELS,
+  TextOverlayDraft,
+  TextOverlayLayout,
+} from '../constants/textOverlay';
+import { FontOption } from '../hooks/useFonts';
+
+type TextOverlayFieldsProps = {
+  value: TextOverlayDraft;
+  onChange: (value: TextOverlayDraft) => void;
+  fonts: FontOption[];
+  // Keeps input ids unique when the fields are rendered more than once
+  idPrefix: string;
+};
+
+const labelStyle: CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 6,
+};
+
+const labelTextStyle: CSSProperties = {
+  fontSize: 13,
+  fontWeight: 600,
+  color: 'var(--text)',
+  lineHeight: 1.4,
+};
+
+const inputStyle: CSSProperties = {
+  background: 'var(--input-bg)',
+  color: 'var(--text)',
+  borderRadius: 12,
+  padding: '10px 14px',
+  border: '1px solid var(--input-border)',
+  fontSize: 14,
+  fontFamily: 'inherit',
+  outline: 'none',
+  width: '100%',
+  boxSizing: 'border-box',
+};
+
+const handleFocus = (e: FocusEvent<HTMLInputElement | HTMLSelectElement>) => {
+  e.currentTarget.style.borderColor = 'var(--input-border-focus)';
+  e.currentTarget.style.boxShadow = `0 0 0 3px var(--input-shadow)`;
+};
+
+const handleBlur = (e: FocusEvent<HTMLInputElement | HTMLSelectElement>) => {
+  e.currentTarget.style.borderColor = 'var(--input-border)';
+  e.currentTarget.style.boxShadow = 'none';
+};
+
+/**
+ * Headline, subheadline and CTA copy typeset onto the outputs by the backend
+ */
+export const TextOverlayFields = ({ value, onChange, fonts, idPrefix }: TextOverlayFieldsProps) => {
+  const update = (patch: Partial<TextOverlayDraft>) => onChange({ ...value, ...patch });
+  const hasCopy = value.headline.trim().length > 0;
+
+  const textFields: Array<{ field: 'headline' | 'subheadline' | 'cta'; label: string; placeholder: string }> = [
+    { field: 'headline', label: 'Headline', placeholder: 'Summer sale' },
+    { field: 'subheadline', label: 'Subheadline', placeholder: 'Everything 30% off this weekend' },
+    { field: 'cta', label: 'Call to action', placeholder: 'Shop now' },
+  ];
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
+      {textFields.map(({ field, label, placeholder }) => (
+        <label key={field} htmlFor={`${idPrefix}-${field}`} style={labelStyle}>
+          <span style={labelTextStyle}>{label}</span>
+          <input
+            id={`${idPrefix}-${field}`}
+            type="text"
+            value={value[field]}
+            onChange={(event) => update({ [field]: event.target.value })}
+            placeholder={placeholder}
+            // Subheadline and CTA only apply alongside a headline
+            disabled={field !== 'headline' && !hasCopy}
+            style={inputStyle}
+            onFocus={handleFocus}
+            onBlur={handleBlur}
+          />
+        </label>
+      ))}
+
+      {hasCopy && (
+        <div style={{ display: 'flex', gap: 10 }}>
+          <label htmlFor={`${idPrefix}-layout`} style={{ ...labelStyle, flex: 1 }}>
+            <span style={labelTextStyle}>Layout</span>
+            <select
+              id={`${idPrefix}-layout`}
+              value={value.layout}
+              onChange={(event) => update({ layout: event.target.value as TextOverlayLayout })}
+              style={{ ...inputStyle, cursor: 'pointer' }}
+              onFocus={handleFocus}
+              onBlur={handleBlur}
+            >
+              {TEXT_OVERLAY_LAYOUTS.map((layout) => (
+                <option key={layout} value={layout}>
+                  {TEXT_OVERLAY_LAYOUT_LABELS[layout]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {fonts.length > 0 && (
+            <label htmlFor={`${idPrefix}-font`} style={{ ...labelStyle, flex: 1 }}>
+              <span style={labelTextStyle}>Font</span>
+              <select
+                id={`${idPrefix}-font`}
+                value={value.font}
+                onChange={(event) => update({ font: event.target.value })}
+                style={{ ...inputStyle, cursor: 'pointer' }}
+                onFocus={handleFocus}
+                onBlur={handleBlur}
+              >
+                <option value="">Default</option>
+                {fonts.map((font) => (
+                  <option key={font.file} value={font.file}>
+                    {font.description}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -11,6 +11,8 @@ type UploadCardProps = {
   description: string;
   file?: File;
   files?: File[];
+  // Already stored assets (e.g. restored from history), shown when no new file was dropped
+  storedUrls?: string[];
   onDrop: (files: File[]) => void;
   accept?: Record<string, string[]>;
   multiple?: boolean;
@@ -22,6 +24,7 @@ export const UploadCard = ({
   description,
   file,
   files,
+  storedUrls,
   onDrop,
   accept = { 'image/*': [] },
   multiple,
@@ -63,6 +66,14 @@ export const UploadCard = ({
     };
   }, [previews]);
 
+  // WHY: Stored assets are previewed straight from storage; new files take precedence
+  const previewItems = useMemo(() => {
+    if (previews.length > 0) {
+      return previews.map((preview, index) => ({ src: previewUrls[index] || '', name: preview.name }));
+    }
+    return (storedUrls ?? []).map((url, index) => ({ src: url, name: `Stored image ${index + 1}` }));
+  }, [previews, previewUrls, storedUrls]);
+
   return (
     <div
       {...getRootProps()}
@@ -163,7 +174,7 @@ export const UploadCard = ({
           {description}
         </p>
       </div>
-      {previews.length > 0 && (
+      {previewItems.length > 0 && (
         <div
           style={{
             display: 'flex',
@@ -173,7 +184,7 @@ export const UploadCard = ({
             flex: '0 0 auto',
           }}
         >
-          {previews.map((preview, index) => (
+          {previewItems.map((preview, index) => (
               <div
                 key={`${preview.name}-${index}`}
                 style={{
@@ -206,7 +217,7 @@ export const UploadCard = ({
                 }}
               >
                 <Image
-                src={previewUrls[index] || ''}
+                src={preview.src}
                 alt={`${label} preview ${index + 1}: ${preview.name}`}
                 title={preview.name}
                   fill
@@ -222,17 +233,17 @@ export const UploadCard = ({
       {/* This ensures the lightbox appears on top of all page content, not just within the form */}
       {isMounted &&
         selectedPreviewIndex !== null &&
-        previewUrls[selectedPreviewIndex] &&
+        previewItems[selectedPreviewIndex]?.src &&
         createPortal(
           <ImageLightbox
-            imageUrl={previewUrls[selectedPreviewIndex]}
+            imageUrl={previewItems[selectedPreviewIndex].src}
             isOpen={selectedPreviewIndex !== null}
             onClose={() => setSelectedPreviewIndex(null)}
-            alt={previews[selectedPreviewIndex]?.name || 'Image preview'}
+            alt={previewItems[selectedPreviewIndex]?.name || 'Image preview'}
           />,
           document.body
       )}
-      {previews.length === 0 && (
+      {previewItems.length === 0 && (
         <div
           style={{
             flex: 1,
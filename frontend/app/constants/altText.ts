@@ -0,0 +1,9 @@
+// Mirrors backend/src/types/altText.ts
+export type ImageAltText = {
+  altText: string; // For the alt attribute
+  description: string; // Longer description, exposed via aria-describedby
+};
+
+// Results created before alt text existed (or whose vision call failed) keep a generic label
+export const altTextOr = (altText: ImageAltText | null | undefined, fallback: string): string =>
+  altText?.altText ?? fallback;
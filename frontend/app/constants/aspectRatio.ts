@@ -15,3 +15,6 @@ export type AspectRatio = (typeof ASPECT_RATIO_OPTIONS)[number];
 
 export const DEFAULT_ASPECT_RATIO: AspectRatio = '1:1';
 
+
+export const isAspectRatio = (value: string): value is AspectRatio =>
+  (ASPECT_RATIO_OPTIONS as readonly string[]).includes(value);
@@ -0,0 +1,25 @@
+// Mirrors backend/src/types/experiment.ts
+export type ExperimentArmAssignment = {
+  experimentId: string;
+  armId: string;
+  armName: string;
+  role: 'imageUnderstand' | 'promptEditor';
+};
+
+export const EXPERIMENT_RATINGS = [1, 2, 3, 4, 5] as const;
+
+const USER_ID_STORAGE_KEY = 'image-flow-user-id';
+
+// Anonymous id sent as X-User-Id so running experiments keep this browser on the same arm
+export const getExperimentUserId = (): string | null => {
+  try {
+    const stored = localStorage.getItem(USER_ID_STORAGE_KEY);
+    if (stored) return stored;
+    const userId = crypto.randomUUID();
+    localStorage.setItem(USER_ID_STORAGE_KEY, userId);
+    return userId;
+  } catch (error) {
+    console.error('Failed to load the experiment user id:', error);
+    return null;
+  }
+};
@@ -0,0 +1,11 @@
+// Mirrors backend/src/constants/imageFlowMode.ts
+export const IMAGE_FLOW_MODES = ['reconstruct', 'edit'] as const;
+
+export type ImageFlowMode = (typeof IMAGE_FLOW_MODES)[number];
+
+export const DEFAULT_IMAGE_FLOW_MODE: ImageFlowMode = 'reconstruct';
+
+export const IMAGE_FLOW_MODE_LABELS: Record<ImageFlowMode, string> = {
+  reconstruct: 'Reconstruct from text',
+  edit: 'Edit the original',
+};
@@ -0,0 +1,26 @@
+// Mirrors backend/src/types/logoOverlay.ts
+export const LOGO_POSITIONS = [
+  'top-left',
+  'top-right',
+  'bottom-left',
+  'bottom-right',
+  'center',
+] as const;
+
+export type LogoPosition = (typeof LOGO_POSITIONS)[number];
+
+// Omitted fields fall back to the backend defaults
+export type LogoOverlay = {
+  position: LogoPosition;
+  scale?: number;
+  opacity?: number;
+  margin?: number;
+};
+
+export const LOGO_POSITION_LABELS: Record<LogoPosition, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right',
+  center: 'Center',
+};
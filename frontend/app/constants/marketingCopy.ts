@@ -0,0 +1,26 @@
+// Mirrors backend/src/constants/copyChannels.ts and backend/src/types/marketingCopy.ts
+export const COPY_CHANNELS = [
+  { id: 'instagram', label: 'Instagram', characterLimit: 2200 },
+  { id: 'facebook', label: 'Facebook ad', characterLimit: 125 },
+  { id: 'linkedin', label: 'LinkedIn', characterLimit: 3000 },
+  { id: 'x', label: 'X', characterLimit: 280 },
+  { id: 'google-ads', label: 'Google Ads', characterLimit: 90 },
+] as const;
+
+export type CopyChannelId = (typeof COPY_CHANNELS)[number]['id'];
+
+export type MarketingCopyRequest = {
+  channels?: CopyChannelId[]; // Every channel when omitted
+  variantCount?: number; // 1-3, defaults to 2
+};
+
+export type MarketingCopyVariant = {
+  headline: string;
+  body: string;
+  cta: string;
+  hashtags: string[];
+  channels: Array<{ channel: CopyChannelId; text: string; characterLimit: number }>;
+};
+
+export const copyChannelLabel = (id: CopyChannelId): string =>
+  COPY_CHANNELS.find((channel) => channel.id === id)?.label ?? id;
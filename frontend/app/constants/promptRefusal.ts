@@ -0,0 +1,29 @@
+// Mirrors backend/src/types/promptGeneration.ts
+export type PromptStatus = 'generated' | 'refused' | 'partial';
+
+export type RefusalReason =
+  | 'content_policy'
+  | 'real_person'
+  | 'copyright'
+  | 'unreadable_image'
+  | 'unclear_instructions'
+  | 'other';
+
+// A prompt step that wrote a usable prompt but left something out
+export type PromptWarning = {
+  step: 'reconstruct' | 'edit';
+  refusalReason: RefusalReason;
+};
+
+// What the user can change to get past each kind of refusal
+const REFUSAL_GUIDANCE: Record<RefusalReason, string> = {
+  content_policy: 'The image or instructions touch on content the model will not describe. Remove explicit, violent or hateful elements and try again.',
+  real_person: 'The model will not identify or recreate a real, recognisable person. Use an image of a model you have rights to, or describe the person generically.',
+  copyright: 'Trademarked characters, logos or artwork cannot be recreated. Swap them for original designs or ask for a generic equivalent.',
+  unreadable_image: 'The image could not be read. Upload a sharper, well-lit image that is not blank or heavily cropped.',
+  unclear_instructions: 'The instructions were unclear. Describe the change you want more concretely, one edit at a time.',
+  other: 'The model declined this request. Try a different image or rephrase the instructions.',
+};
+
+export const refusalGuidance = (reason: RefusalReason | null | undefined): string | null =>
+  reason ? REFUSAL_GUIDANCE[reason] ?? REFUSAL_GUIDANCE.other : null;
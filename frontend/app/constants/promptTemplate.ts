@@ -0,0 +1,38 @@
+// Mirrors backend/src/types/promptTemplate.ts
+export type PromptTemplateRole = 'imageUnderstand' | 'promptEditor';
+
+export type PromptTemplateVersion = {
+  version: number;
+  content: string;
+  note?: string;
+  createdAt: string;
+};
+
+export type PromptTemplate = {
+  id: string;
+  name: string;
+  role: PromptTemplateRole;
+  versions: PromptTemplateVersion[]; // Oldest first; the last entry is the latest version
+  createdAt: string;
+  updatedAt: string;
+  archivedAt?: string; // Archived templates are left out of the list but still resolve by id
+};
+
+// Template version a run used, or the version activated for a role
+export type PromptTemplateUsage = {
+  id: string;
+  name: string;
+  version: number;
+};
+
+export type PromptTemplateUsages = Partial<Record<PromptTemplateRole, PromptTemplateUsage>>;
+
+// Omitting a role uses the activated template, or the env system prompt; omitting version uses the latest
+export type PromptTemplateSelection = Partial<
+  Record<PromptTemplateRole, { id: string; version?: number }>
+>;
+
+export const PROMPT_TEMPLATE_ROLES: { id: PromptTemplateRole; label: string }[] = [
+  { id: 'imageUnderstand', label: 'Step 1 system prompt' },
+  { id: 'promptEditor', label: 'Step 2 system prompt' },
+];
@@ -0,0 +1,21 @@
+// Mirrors backend/src/types/qualityScore.ts
+export type QualityCriterion = 'instructionAdherence' | 'identityPreservation' | 'artifacts' | 'brandFit';
+
+export type CriterionScore = {
+  score: number; // 1 (poor) to 5 (excellent)
+  rationale: string;
+};
+
+export type OutputQualityScore = Record<QualityCriterion, CriterionScore> & {
+  overall: number; // Mean of the criteria, one decimal
+};
+
+export const MAX_QUALITY_SCORE = 5;
+
+export const QUALITY_CRITERIA: { id: QualityCriterion; label: string }[] = [
+  { id: 'instructionAdherence', label: 'Instruction adherence' },
+  { id: 'identityPreservation', label: 'Identity preservation' },
+  // Higher is cleaner
+  { id: 'artifacts', label: 'Free of artifacts' },
+  { id: 'brandFit', label: 'Brand fit' },
+];
@@ -0,0 +1,28 @@
+// Mirrors backend/src/constants/outputFormat.ts and backend/src/types/rendition.ts
+export const OUTPUT_FORMATS = ['png', 'jpeg', 'webp', 'avif'] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export type RenditionRequest = {
+  format: OutputFormat;
+  width?: number; // Never upscaled past the output size
+  quality?: number; // JPEG, WebP and AVIF only
+};
+
+export type Rendition = {
+  format: OutputFormat;
+  width: number;
+  height: number;
+  quality?: number;
+  key: string;
+  url: string;
+};
+
+// Common delivery encodings offered as toggles in the form
+export const RENDITION_OPTIONS: ReadonlyArray<{ id: string; label: string; request: RenditionRequest }> = [
+  { id: 'webp-640', label: 'WebP 640px', request: { format: 'webp', width: 640, quality: 80 } },
+  { id: 'webp-1280', label: 'WebP 1280px', request: { format: 'webp', width: 1280, quality: 80 } },
+  { id: 'jpeg-1080', label: 'JPEG 1080px', request: { format: 'jpeg', width: 1080, quality: 85 } },
+  { id: 'avif', label: 'AVIF', request: { format: 'avif', quality: 60 } },
+  { id: 'png', label: 'PNG', request: { format: 'png' } },
+];
@@ -0,0 +1,29 @@
+// Mirrors backend/src/types/sceneDescription.ts
+export type SceneField =
+  | 'subjects'
+  | 'identity'
+  | 'pose'
+  | 'clothing'
+  | 'background'
+  | 'lighting'
+  | 'mood'
+  | 'camera'
+  | 'style';
+
+// Empty strings mark fields that do not apply to the image
+export type SceneDescription = Record<SceneField, string>;
+
+export const MAX_SCENE_FIELD_LENGTH = 2000;
+
+// Same order the backend renders the fields into the prompt
+export const SCENE_FIELDS: { id: SceneField; label: string }[] = [
+  { id: 'subjects', label: 'Subjects' },
+  { id: 'identity', label: 'Identity' },
+  { id: 'pose', label: 'Pose' },
+  { id: 'clothing', label: 'Clothing' },
+  { id: 'background', label: 'Background' },
+  { id: 'lighting', label: 'Lighting' },
+  { id: 'mood', label: 'Mood' },
+  { id: 'camera', label: 'Camera' },
+  { id: 'style', label: 'Style' },
+];
@@ -0,0 +1,27 @@
+import { ImageThumbnails } from './thumbnails';
+import { OutputQualityScore } from './qualityScore';
+
+// Mirrors backend/src/types/selfCorrection.ts
+export type SelfCorrectionRequest = {
+  threshold: number; // Overall quality score (1–5) that stops the retries
+  maxAttempts?: number; // Renders in total, including the first (backend default 3)
+};
+
+export type SelfCorrectionAttempt = {
+  attempt: number; // 1-based; attempt 1 is the regular render
+  prompt2: string;
+  outputImage: string;
+  outputImageKey: string;
+  thumbnails?: ImageThumbnails;
+  qualityScore: OutputQualityScore | null;
+};
+
+export type SelfCorrectionReport = {
+  threshold: number;
+  maxAttempts: number;
+  attempts: SelfCorrectionAttempt[];
+  selectedAttempt: number; // Attempt the result's outputs come from
+  accepted: boolean; // Whether the selected attempt reached the threshold
+};
+
+export const SELF_CORRECTION_THRESHOLDS = [3, 3.5, 4, 4.5] as const;
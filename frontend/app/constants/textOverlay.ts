@@ -0,0 +1,64 @@
+// Mirrors backend/src/constants/textOverlayLayouts.ts and backend/src/types/textOverlay.ts
+export const TEXT_OVERLAY_LAYOUTS = ['bottom-band', 'top-band', 'centered'] as const;
+
+export type TextOverlayLayout = (typeof TEXT_OVERLAY_LAYOUTS)[number];
+
+export const TEXT_OVERLAY_LAYOUT_LABELS: Record<TextOverlayLayout, string> = {
+  'bottom-band': 'Bottom band',
+  'top-band': 'Top band',
+  centered: 'Centered',
+};
+
+// Omitted fields fall back to the backend defaults
+export type TextOverlay = {
+  headline: string;
+  subheadline?: string;
+  cta?: string;
+  font?: string; // File name from GET /api/fonts
+  layout?: TextOverlayLayout;
+  textColor?: string;
+  accentColor?: string;
+};
+
+// Form state; every field is a plain string so inputs stay controlled
+export type TextOverlayDraft = {
+  headline: string;
+  subheadline: string;
+  cta: string;
+  font: string;
+  layout: TextOverlayLayout;
+};
+
+export const EMPTY_TEXT_OVERLAY_DRAFT: TextOverlayDraft = {
+  headline: '',
+  subheadline: '',
+  cta: '',
+  font: '',
+  layout: 'bottom-band',
+};
+
+export const toTextOverlayDraft = (overlay?: TextOverlay): TextOverlayDraft => ({
+  headline: overlay?.headline ?? '',
+  subheadline: overlay?.subheadline ?? '',
+  cta: overlay?.cta ?? '',
+  font: overlay?.font ?? '',
+  layout: overlay?.layout ?? EMPTY_TEXT_OVERLAY_DRAFT.layout,
+});
+
+// No headline means no overlay; colors of the previous overlay are kept
+export const fromTextOverlayDraft = (
+  draft: TextOverlayDraft,
+  previous?: TextOverlay,
+): TextOverlay | undefined => {
+  const headline = draft.headline.trim();
+  if (!headline) return undefined;
+
+  return {
+    ...previous,
+    headline,
+    subheadline: draft.subheadline.trim() || undefined,
+    cta: draft.cta.trim() || undefined,
+    font: draft.font || undefined,
+    layout: draft.layout,
+  };
+};
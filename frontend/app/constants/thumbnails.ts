@@ -0,0 +1,18 @@
+// Mirrors backend/src/types/thumbnail.ts
+export type ThumbnailSize = 'small' | 'medium';
+
+export type Thumbnail = {
+  width: number;
+  height: number;
+  thumbnailKey: string;
+  thumbnailUrl: string;
+};
+
+export type ImageThumbnails = Record<ThumbnailSize, Thumbnail>;
+
+// Galleries show a preview and fall back to the full image for results created before thumbnails existed
+export const thumbnailUrl = (
+  thumbnails: ImageThumbnails | null | undefined,
+  size: ThumbnailSize,
+  fallback: string,
+): string => thumbnails?.[size]?.thumbnailUrl ?? fallback;
@@ -0,0 +1,6 @@
+// Mirrors the backend MAX_VARIANT_COUNT default
+export const VARIANT_COUNT_OPTIONS = [1, 2, 3, 4] as const;
+
+export type VariantCount = (typeof VARIANT_COUNT_OPTIONS)[number];
+
+export const DEFAULT_VARIANT_COUNT: VariantCount = 1;
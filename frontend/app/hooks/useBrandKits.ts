@@ -0,0 +1,56 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+// Mirrors the backend BrandKit entity
+export type BrandKit = {
+  id: string;
+  name: string;
+  palette: string[];
+  styleDescriptors: string[];
+  doRules: string[];
+  dontRules: string[];
+  referenceAssetKeys: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * Loads the available brand kits once on mount
+ */
+export const useBrandKits = () => {
+  const [brandKits, setBrandKits] = useState<BrandKit[]>([]);
+  const [brandKitsError, setBrandKitsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const loadBrandKits = async () => {
+      try {
+        const response = await fetch('/api/brand-kits');
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || 'Failed to load brand kits');
+        }
+        const data = (await response.json()) as { brandKits: BrandKit[] };
+        if (isActive) {
+          setBrandKits(data.brandKits);
+        }
+      } catch (err) {
+        console.error('Failed to load brand kits:', err);
+        if (isActive) {
+          setBrandKitsError(
+            err instanceof Error ? err.message : 'Failed to load brand kits',
+          );
+        }
+      }
+    };
+
+    loadBrandKits();
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  return { brandKits, brandKitsError };
+};
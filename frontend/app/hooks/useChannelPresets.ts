@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { AspectRatio } from '../constants/aspectRatio';
+
+// Mirrors backend/src/constants/channelPresets.ts
+export type ChannelPreset = {
+  id: string;
+  channel: string;
+  aspectRatio: AspectRatio;
+  width: number;
+  height: number;
+  outputFormat: 'png' | 'jpeg' | 'webp';
+  promptSuffix?: string;
+};
+
+/**
+ * Loads the server-side channel preset catalog once on mount
+ */
+export const useChannelPresets = () => {
+  const [presets, setPresets] = useState<ChannelPreset[]>([]);
+  const [presetsError, setPresetsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const loadPresets = async () => {
+      try {
+        const response = await fetch('/api/presets');
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || 'Failed to load channel presets');
+        }
+        const data = (await response.json()) as { presets: ChannelPreset[] };
+        if (isActive) {
+          setPresets(data.presets);
+        }
+      } catch (err) {
+        console.error('Failed to load channel presets:', err);
+        if (isActive) {
+          setPresetsError(
+            err instanceof Error ? err.message : 'Failed to load channel presets',
+          );
+        }
+      }
+    };
+
+    loadPresets();
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  return { presets, presetsError };
+};
@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useState } from 'react';
+import { PromptStatus, RefusalReason } from '../constants/promptRefusal';
+import { SceneDescription } from '../constants/sceneDescription';
+
+export type DescribeImageResult = {
+  prompt1: string | null;
+  isPromptGenerated: boolean;
+  status: PromptStatus;
+  refusalReason: RefusalReason | null; // Set for refused and partial descriptions
+  refusal: string | null;
+  scene?: SceneDescription | null; // Field-level description prompt1 was rendered from
+};
+
+/**
+ * Runs Step 1 only: returns the reconstructed description of an image
+ * without generating or storing anything.
+ */
+export const useDescribeImage = () => {
+  const [isDescribing, setIsDescribing] = useState(false);
+  const [description, setDescription] = useState<DescribeImageResult | null>(null);
+  const [describeError, setDescribeError] = useState<string | null>(null);
+
+  // Accepts a new file or the storage key/URL of an already stored asset
+  const describeImage = useCallback(async (image: File | string) => {
+    setIsDescribing(true);
+    setDescribeError(null);
+    setDescription(null);
+
+    try {
+      const formData = new FormData();
+      if (typeof image === 'string') {
+        formData.append('imageUrl', image);
+      } else {
+        formData.append('image', image);
+      }
+
+      const response = await fetch('/api/prompts/reconstruct', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const message = await response.text();
+        throw new Error(message || 'Image description failed');
+      }
+
+      setDescription((await response.json()) as DescribeImageResult);
+    } catch (err) {
+      setDescribeError(
+        err instanceof Error
+          ? err.message
+          : 'Unexpected error while describing image',
+      );
+    } finally {
+      setIsDescribing(false);
+    }
+  }, []);
+
+  const clearDescription = useCallback(() => {
+    setDescription(null);
+    setDescribeError(null);
+  }, []);
+
+  return {
+    describeImage,
+    isDescribing,
+    description,
+    describeError,
+    clearDescription,
+  };
+};
@@ -0,0 +1,47 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+
+// Mirrors FontInfo in backend/src/services/textOverlayService.ts
+export type FontOption = {
+  file: string;
+  description: string;
+};
+
+/**
+ * Loads the fonts available to text overlays once on mount
+ */
+export const useFonts = () => {
+  const [fonts, setFonts] = useState<FontOption[]>([]);
+  const [fontsError, setFontsError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const loadFonts = async () => {
+      try {
+        const response = await fetch('/api/fonts');
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || 'Failed to load fonts');
+        }
+        const data = (await response.json()) as { fonts: FontOption[] };
+        if (isActive) {
+          setFonts(data.fonts);
+        }
+      } catch (err) {
+        console.error('Failed to load fonts:', err);
+        if (isActive) {
+          setFontsError(err instanceof Error ? err.message : 'Failed to load fonts');
+        }
+      }
+    };
+
+    loadFonts();
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  return { fonts, fontsError };
+};
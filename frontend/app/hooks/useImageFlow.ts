@@ -1,7 +1,34 @@
 "use client";
 
-import { useCallback, useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { AspectRatio } from '../constants/aspectRatio';
+import { VariantCount } from '../constants/variants';
+import { ImageFlowMode } from '../constants/imageFlowMode';
+import { LogoOverlay } from '../constants/logoOverlay';
+import { TextOverlay } from '../constants/textOverlay';
+import { Rendition, RenditionRequest } from '../constants/renditions';
+import { ImageThumbnails } from '../constants/thumbnails';
+import { ImageAltText } from '../constants/altText';
+import { OutputQualityScore } from '../constants/qualityScore';
+import { SelfCorrectionReport, SelfCorrectionRequest } from '../constants/selfCorrection';
+import { PromptWarning, RefusalReason } from '../constants/promptRefusal';
+import { SCENE_FIELDS, SceneDescription, SceneField } from '../constants/sceneDescription';
+import { PromptTemplateSelection, PromptTemplateUsages } from '../constants/promptTemplate';
+import { ExperimentArmAssignment, getExperimentUserId } from '../constants/experiment';
+import { MarketingCopyRequest, MarketingCopyVariant } from '../constants/marketingCopy';
+
+// One render of a multi-aspect-ratio channel pack
+export type ImageFlowRender = {
+  aspectRatio: AspectRatio;
+  outputImage: string;
+  outputImageKey: string;
+  cleanOutputImage?: string; // Render without the logo or copy
+  cleanOutputImageKey?: string;
+  renditions?: Rendition[];
+  thumbnails?: ImageThumbnails;
+  altText?: ImageAltText;
+  qualityScore?: OutputQualityScore;
+};
 
 export type ImageFlowResult = {
   baseImage: string; // URL (for backward compatibility)
@@ -10,63 +37,361 @@ export type ImageFlowResult = {
   referenceImageKeys?: string[]; // S3 keys
   prompt1: string;
   prompt2: string;
-  outputImage: string; // URL (for backward compatibility)
+  scene1?: SceneDescription; // Structured description prompt1 was rendered from
+  scene2?: SceneDescription; // Scene prompt2 was rendered from; missing after a self-corrected revision
+  sceneChanges?: SceneField[]; // Fields Step 2 rewrote
+  outputImage: string; // URL of the first variant (for backward compatibility)
   outputImageKey?: string; // S3 key
+  outputImages?: string[]; // URLs of every variant
+  outputImageKeys?: string[]; // S3 keys of every variant
+  cleanOutputImages?: string[]; // Variants without the logo or copy, set when either was applied
+  cleanOutputImageKeys?: string[];
+  outputRenditions?: Rendition[][]; // Requested renditions of each variant, same order as outputImages
+  baseImageThumbnails?: ImageThumbnails; // Gallery previews; the full images are only loaded in the lightbox
+  referenceImageThumbnails?: Array<ImageThumbnails | null>;
+  outputThumbnails?: Array<ImageThumbnails | null>; // Same order as outputImages
+  outputAltTexts?: Array<ImageAltText | null>; // Accessibility text per variant, same order as outputImages
+  outputQualityScores?: Array<OutputQualityScore | null>; // Quality judge verdict per variant, same order as outputImages
+  renders?: ImageFlowRender[]; // Set for channel packs, one render per aspect ratio
   step2Executed?: boolean; // Indicates if Step 2 (prompt editing) was executed
+  mode?: ImageFlowMode; // Missing on results created before edit mode existed
+  preset?: string; // Channel preset id the outputs were sized for
+  brandKitId?: string; // Brand kit applied in Step 2
+  logo?: LogoOverlay; // Logo composited onto outputImages
+  textOverlay?: TextOverlay; // Copy typeset onto outputImages; editable without regenerating
+  marketingCopyVariants?: MarketingCopyVariant[]; // Captions, headlines and hashtags written for the image
+  selfCorrection?: SelfCorrectionReport; // Every judged attempt when auto-retry was on
+  promptWarnings?: PromptWarning[]; // Prompt steps that left part of the image or instructions out
+  promptTemplates?: PromptTemplateUsages; // Template version per prompt step; missing roles used the env prompt
+  experimentArms?: ExperimentArmAssignment[]; // Experiment arms that picked the templates
+  jobId?: string; // Job that produced the result; experiment runs are rated by it
+};
+
+export type ImageFlowStep = 'reconstruct' | 'edit' | 'generate';
+
+type ImageFlowJob = {
+  id: string;
+  status: 'queued' | 'running' | 'succeeded' | 'failed';
+  step: ImageFlowStep | null;
+  result: (ImageFlowResult & { error?: string; refusalReason?: RefusalReason }) | null;
+  error: string | null;
+};
+
+// Mirrors the backend ImageFlowEventRecord union streamed from /jobs/:id/events
+type ImageFlowServerEvent = { id: number; timestamp: string } & (
+  | { type: 'step'; step: ImageFlowStep }
+  | { type: 'uploads.stored'; baseImage: string; referenceImages: string[] }
+  | { type: 'prompt1.ready'; prompt1: string; scene?: SceneDescription }
+  | { type: 'prompt2.skipped'; prompt2: string }
+  | { type: 'prompt2.ready'; prompt2: string; scene?: SceneDescription; changedFields?: SceneField[] }
+  | { type: 'generation.fallback'; from: string; to: string; reason: string }
+  | { type: 'marketingCopy.ready'; variantCount: number }
+  | { type: 'selfCorrection.retry'; attempt: number; maxAttempts: number; previousScore: number; threshold: number }
+  | {
+      type: 'output.uploaded';
+      variantIndex: number;
+      variantCount: number;
+      aspectRatio?: AspectRatio;
+      outputImage: string;
+      outputImageKey: string;
+      cleanOutputImage?: string;
+      cleanOutputImageKey?: string;
+      renditions?: Rendition[];
+      thumbnails?: ImageThumbnails;
+      altText?: ImageAltText;
+      qualityScore?: OutputQualityScore;
+    }
+  | { type: 'job.succeeded'; result: ImageFlowResult }
+  | { type: 'job.failed'; error: string; result?: { refusalReason?: RefusalReason } | null }
+);
+
+export type ImageFlowProgressEvent = {
+  id: number;
+  label: string;
+  detail?: string;
 };
 
 type SubmitPayload = {
-  baseImage: File;
+  baseImage: File | null;
   referenceImages: File[];
+  // Storage keys or public URLs of already stored assets, loaded server-side instead of re-uploaded
+  baseImageUrl?: string;
+  referenceImageUrls?: string[];
+  userPrompt: string;
+  aspectRatio: AspectRatio;
+  // Channel pack: renders the final prompt once per ratio (takes precedence over aspectRatio)
+  aspectRatios?: AspectRatio[];
+  // Channel preset id; fixes the ratio, output size and format server-side
+  preset?: string;
+  mode: ImageFlowMode;
+  brandKitId?: string;
+  // System prompt templates for Step 1 and Step 2; roles left out use the active template
+  promptTemplates?: PromptTemplateSelection;
+  // Composites the configured logo; the clean render is kept too
+  logo?: LogoOverlay;
+  // Typesets headline/subheadline/CTA copy; the clean render is kept too
+  textOverlay?: TextOverlay;
+  // Extra formats/widths written for every output
+  renditions?: RenditionRequest[];
+  // Writes marketing copy from the final prompt alongside the image
+  marketingCopy?: MarketingCopyRequest;
+  // Re-renders with a revised prompt while the quality score is below the threshold (single output only)
+  selfCorrection?: SelfCorrectionRequest;
+  variantCount: VariantCount;
+};
+
+// Step 3 only: render an edited final prompt (or edited scene fields) against the stored source images
+export type RenderPayload = {
+  // Exactly one of prompt and scene; the backend renders the scene into the prompt
+  prompt?: string;
+  scene?: SceneDescription;
+  prompt1?: string;
+  baseImageKey: string;
+  referenceImageKeys?: string[];
   userPrompt: string;
   aspectRatio: AspectRatio;
+  // Channel pack: renders the final prompt once per ratio (takes precedence over aspectRatio)
+  aspectRatios?: AspectRatio[];
+  // Channel preset id; fixes the ratio, output size and format server-side
+  preset?: string;
+  logo?: LogoOverlay;
+  textOverlay?: TextOverlay;
+  renditions?: RenditionRequest[];
+  mode: ImageFlowMode;
+  variantCount: VariantCount;
 };
 
 type UseImageFlowOptions = {
   onSuccess?: (result: ImageFlowResult, userPrompt: string, aspectRatio: AspectRatio) => void;
 };
 
+const STEP_LABELS: Record<ImageFlowStep, string> = {
+  reconstruct: 'Reconstructing prompt',
+  edit: 'Applying your edits',
+  generate: 'Generating image',
+};
+
+/**
+ * Turn a backend event into a user-facing progress line (null for terminal events)
+ */
+const describeEvent = (event: ImageFlowServerEvent): ImageFlowProgressEvent | null => {
+  switch (event.type) {
+    case 'step':
+      return { id: event.id, label: STEP_LABELS[event.step] };
+    case 'uploads.stored':
+      return {
+        id: event.id,
+        label: 'Uploads stored',
+        detail: `${1 + event.referenceImages.length} image(s) saved`,
+      };
+    case 'prompt1.ready':
+      return { id: event.id, label: 'Step 1 prompt ready', detail: event.prompt1 };
+    case 'prompt2.skipped':
+      return { id: event.id, label: 'Step 2 skipped', detail: 'No instructions given, using the Step 1 prompt' };
+    case 'prompt2.ready':
+      if (event.changedFields) {
+        const changed = SCENE_FIELDS.filter(({ id }) => event.changedFields?.includes(id));
+        return {
+          id: event.id,
+          label: 'Step 2 scene updated',
+          detail: changed.length > 0
+            ? `Changed: ${changed.map(({ label }) => label).join(', ')}`
+            : 'No fields changed',
+        };
+      }
+      return { id: event.id, label: 'Step 2 prompt ready', detail: event.prompt2 };
+    case 'generation.fallback':
+      return { id: event.id, label: 'Switched to fal.ai', detail: event.reason };
+    case 'marketingCopy.ready':
+      return { id: event.id, label: 'Marketing copy ready', detail: `${event.variantCount} variant(s) written` };
+    case 'selfCorrection.retry':
+      return {
+        id: event.id,
+        label: `Retrying (attempt ${event.attempt} of ${event.maxAttempts})`,
+        detail: `Quality score ${event.previousScore} / 5 is below ${event.threshold}`,
+      };
+    case 'output.uploaded': {
+      const detail = event.qualityScore ? { detail: `Quality score ${event.qualityScore.overall} / 5` } : {};
+      if (event.aspectRatio) {
+        return { id: event.id, label: `${event.aspectRatio} render uploaded`, ...detail };
+      }
+      return {
+        id: event.id,
+        label: event.variantCount > 1
+          ? `Variant ${event.variantIndex + 1} of ${event.variantCount} uploaded`
+          : 'Image uploaded',
+        ...detail,
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+// Failed job whose prompt step refused; the reason picks the guidance shown to the user
+class ImageFlowRefusalError extends Error {
+  constructor(message: string, readonly refusalReason: RefusalReason) {
+    super(message);
+  }
+}
+
+const jobFailure = (message: string, refusalReason?: RefusalReason): Error =>
+  refusalReason ? new ImageFlowRefusalError(message, refusalReason) : new Error(message);
+
+// Consecutive stream errors after which the job status is polled instead
+const MAX_STREAM_ERRORS = 3;
+const JOB_POLL_INTERVAL_MS = 3000;
+// Longest a job is followed, so a stream that never settles cannot keep the UI loading
+const JOB_TIMEOUT_MS = 15 * 60 * 1000;
+
+const fetchJob = async (jobId: string): Promise<ImageFlowJob> => {
+  const response = await fetch(`/api/image-flow/jobs/${encodeURIComponent(jobId)}`);
+  if (!response.ok) {
+    const message = await response.text();
+    throw new Error(message || 'Failed to fetch image flow status');
+  }
+  return (await response.json()) as ImageFlowJob;
+};
+
+/**
+ * Follow a job's SSE stream until it settles. EventSource reconnects on its own
+ * (resuming via Last-Event-ID); if the stream is closed or keeps failing we poll
+ * the job status instead. Jobs that have not settled after JOB_TIMEOUT_MS are
+ * rejected.
+ */
+const waitForJob = (
+  jobId: string,
+  onProgress: (event: ImageFlowProgressEvent) => void,
+): Promise<ImageFlowResult> =>
+  new Promise((resolve, reject) => {
+    const source = new EventSource(`/api/image-flow/jobs/${encodeURIComponent(jobId)}/events`);
+    let streamErrors = 0;
+    let pollTimer: ReturnType<typeof setTimeout> | undefined;
+    let settled = false;
+
+    const settle = (finish: () => void) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      source.close();
+      clearTimeout(pollTimer);
+      clearTimeout(timeout);
+      finish();
+    };
+    const timeout = setTimeout(
+      () => settle(() => reject(new Error('Timed out waiting for the image flow to finish'))),
+      JOB_TIMEOUT_MS,
+    );
+
+    const poll = async () => {
+      try {
+        const job = await fetchJob(jobId);
+        const { result } = job;
+        if (job.status === 'succeeded' && result) {
+          settle(() => resolve(result));
+        } else if (job.status === 'succeeded' || job.status === 'failed') {
+          settle(() =>
+            reject(
+              jobFailure(
+                job.error || result?.error || 'Image flow failed',
+                result?.refusalReason,
+              ),
+            ),
+          );
+        } else if (!settled) {
+          pollTimer = setTimeout(poll, JOB_POLL_INTERVAL_MS);
+        }
+      } catch (err) {
+        settle(() => reject(err));
+      }
+    };
+
+    source.onmessage = (message) => {
+      streamErrors = 0;
+      const event = JSON.parse(message.data) as ImageFlowServerEvent;
+      if (event.type === 'job.succeeded') {
+        settle(() => resolve(event.result));
+        return;
+      }
+      if (event.type === 'job.failed') {
+        settle(() =>
+          reject(jobFailure(event.error || 'Image flow failed', event.result?.refusalReason)),
+        );
+        return;
+      }
+
+      const progress = describeEvent(event);
+      if (progress) {
+        onProgress(progress);
+      }
+    };
+
+    source.onerror = () => {
+      streamErrors += 1;
+      if (source.readyState !== EventSource.CLOSED && streamErrors < MAX_STREAM_ERRORS) {
+        return; // Browser is reconnecting
+      }
+
+      source.close();
+      void poll();
+    };
+  });
+
 export const useImageFlow = (options?: UseImageFlowOptions) => {
   const [isLoading, setIsLoading] = useState(false);
   const [progressLabel, setProgressLabel] = useState<string | null>(null);
+  const [progressEvents, setProgressEvents] = useState<ImageFlowProgressEvent[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [refusalReason, setRefusalReason] = useState<RefusalReason | null>(null);
   const [result, setResult] = useState<ImageFlowResult | null>(null);
 
-  const runFlow = useCallback(async (payload: SubmitPayload) => {
+  // Latest callbacks, so jobs that settle after a re-render don't call a stale onSuccess
+  const optionsRef = useRef(options);
+  useEffect(() => {
+    optionsRef.current = options;
+  }, [options]);
+
+  /**
+   * Submit a job, follow its events until it settles and report the result
+   */
+  const executeJob = useCallback(async (
+    submit: () => Promise<Response>,
+    userPrompt: string,
+    aspectRatio: AspectRatio,
+  ) => {
     setIsLoading(true);
     setError(null);
+    setRefusalReason(null);
     setResult(null);
+    setProgressEvents([]);
 
     try {
-      setProgressLabel('Uploading assets');
-      const formData = new FormData();
-      formData.append('baseImage', payload.baseImage);
-      payload.referenceImages.forEach((file, index) =>
-        formData.append(`referenceImages`, file, file.name ?? `reference-${index}`),
-      );
-      formData.append('userPrompt', payload.userPrompt);
-      formData.append('aspectRatio', payload.aspectRatio);
-
-      setProgressLabel('Orchestrating prompt pipeline');
-      const response = await fetch('/api/image-flow', {
-        method: 'POST',
-        body: formData,
-      });
+      const response = await submit();
 
       if (!response.ok) {
         const message = await response.text();
         throw new Error(message || 'Image flow failed');
       }
 
-      const data = (await response.json()) as ImageFlowResult;
+      // The backend queues the pipeline and returns a job ID; follow its live events until it settles
+      const { jobId } = (await response.json()) as { jobId: string };
+      setProgressLabel('Queued');
+
+      const outcome = await waitForJob(jobId, (event) => {
+        setProgressLabel(event.label);
+        setProgressEvents((prev) => [...prev, event]);
+      });
+      const data: ImageFlowResult = { ...outcome, jobId };
       setResult(data);
       setProgressLabel('Complete');
-      
+
       // Call success callback if provided (for history saving)
-      if (options?.onSuccess) {
-        options.onSuccess(data, payload.userPrompt, payload.aspectRatio);
+      if (optionsRef.current?.onSuccess) {
+        optionsRef.current.onSuccess(data, userPrompt, aspectRatio);
       }
     } catch (err) {
+      setRefusalReason(err instanceof ImageFlowRefusalError ? err.refusalReason : null);
       setError(
         err instanceof Error
           ? err.message
@@ -77,12 +402,89 @@ export const useImageFlow = (options?: UseImageFlowOptions) => {
     }
   }, []);
 
+  const runFlow = useCallback((payload: SubmitPayload) => {
+    setProgressLabel('Uploading assets');
+    const formData = new FormData();
+    if (payload.baseImage) {
+      formData.append('baseImage', payload.baseImage);
+    } else if (payload.baseImageUrl) {
+      formData.append('baseImageUrl', payload.baseImageUrl);
+    }
+    payload.referenceImages.forEach((file, index) =>
+      formData.append(`referenceImages`, file, file.name ?? `reference-${index}`),
+    );
+    payload.referenceImageUrls?.forEach((value) =>
+      formData.append('referenceImageUrls', value),
+    );
+    formData.append('userPrompt', payload.userPrompt);
+    formData.append('aspectRatio', payload.aspectRatio);
+    payload.aspectRatios?.forEach((ratio) => formData.append('aspectRatios', ratio));
+    if (payload.preset) {
+      formData.append('preset', payload.preset);
+    }
+    if (payload.brandKitId) {
+      formData.append('brandKitId', payload.brandKitId);
+    }
+    if (payload.promptTemplates && Object.keys(payload.promptTemplates).length > 0) {
+      formData.append('promptTemplates', JSON.stringify(payload.promptTemplates));
+    }
+    if (payload.logo) {
+      formData.append('logo', JSON.stringify(payload.logo));
+    }
+    if (payload.textOverlay) {
+      formData.append('textOverlay', JSON.stringify(payload.textOverlay));
+    }
+    if (payload.renditions?.length) {
+      formData.append('renditions', JSON.stringify(payload.renditions));
+    }
+    if (payload.marketingCopy) {
+      formData.append('marketingCopy', JSON.stringify(payload.marketingCopy));
+    }
+    if (payload.selfCorrection) {
+      formData.append('selfCorrection', JSON.stringify(payload.selfCorrection));
+    }
+    formData.append('mode', payload.mode);
+    formData.append('variantCount', String(payload.variantCount));
+
+    return executeJob(
+      () => {
+        const userId = getExperimentUserId();
+        return fetch('/api/image-flow', {
+          method: 'POST',
+          headers: userId ? { 'x-user-id': userId } : undefined,
+          body: formData,
+        });
+      },
+      payload.userPrompt,
+      payload.aspectRatios?.[0] ?? payload.aspectRatio,
+    );
+  }, [executeJob]);
+
+  const renderPrompt = useCallback((payload: RenderPayload) => {
+    setProgressLabel('Submitting prompt');
+    const { userPrompt, ...body } = payload;
+
+    return executeJob(
+      () => fetch('/api/image-flow/render', {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      }),
+      userPrompt,
+      payload.aspectRatios?.[0] ?? payload.aspectRatio,
+    );
+  }, [executeJob]);
+
   return {
     runFlow,
+    renderPrompt,
     isLoading,
     progressLabel,
+    progressEvents,
     error,
+    refusalReason,
     result,
   };
 };
-
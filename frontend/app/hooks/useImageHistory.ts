@@ -12,6 +12,7 @@ export type HistoryItem = ImageFlowResult & {
   baseImageKey?: string;
   referenceImageKeys?: string[];
   outputImageKey?: string;
+  outputImageKeys?: string[];
 };
 
 const STORAGE_KEY = 'image-flow-history';
@@ -58,6 +59,9 @@ export const useImageHistory = () => {
         baseImageKey: result.baseImageKey,
         referenceImageKeys: result.referenceImageKeys,
         outputImageKey: result.outputImageKey,
+        // Keep the whole variant set; older results only carry a single output
+        outputImages: result.outputImages ?? [result.outputImage],
+        outputImageKeys: result.outputImageKeys,
       };
 
       setHistory((prev) => {
@@ -81,6 +85,18 @@ export const useImageHistory = () => {
     [saveHistory],
   );
 
+  // Replace fields of an item, e.g. outputs re-rendered with edited copy
+  const updateHistoryItem = useCallback(
+    (id: string, patch: Partial<ImageFlowResult>) => {
+      setHistory((prev) => {
+        const updated = prev.map((item) => (item.id === id ? { ...item, ...patch } : item));
+        saveHistory(updated);
+        return updated;
+      });
+    },
+    [saveHistory],
+  );
+
   // Clear all history
   const clearHistory = useCallback(() => {
     localStorage.removeItem(STORAGE_KEY);
@@ -91,6 +107,7 @@ export const useImageHistory = () => {
     history,
     addToHistory,
     removeFromHistory,
+    updateHistoryItem,
     clearHistory,
   };
 };
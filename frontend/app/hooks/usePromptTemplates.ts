@@ -0,0 +1,49 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { PromptTemplate, PromptTemplateUsages } from '../constants/promptTemplate';
+
+/**
+ * Loads the prompt template library and the active version per role once on mount
+ */
+export const usePromptTemplates = () => {
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [activePromptTemplates, setActivePromptTemplates] = useState<PromptTemplateUsages>({});
+  const [promptTemplatesError, setPromptTemplatesError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isActive = true;
+
+    const loadPromptTemplates = async () => {
+      try {
+        const response = await fetch('/api/prompt-templates');
+        if (!response.ok) {
+          const message = await response.text();
+          throw new Error(message || 'Failed to load prompt templates');
+        }
+        const data = (await response.json()) as {
+          promptTemplates: PromptTemplate[];
+          active: PromptTemplateUsages;
+        };
+        if (isActive) {
+          setPromptTemplates(data.promptTemplates);
+          setActivePromptTemplates(data.active);
+        }
+      } catch (err) {
+        console.error('Failed to load prompt templates:', err);
+        if (isActive) {
+          setPromptTemplatesError(
+            err instanceof Error ? err.message : 'Failed to load prompt templates',
+          );
+        }
+      }
+    };
+
+    loadPromptTemplates();
+    return () => {
+      isActive = false;
+    };
+  }, []);
+
+  return { promptTemplates, activePromptTemplates, promptTemplatesError };
+};
@@ -0,0 +1,109 @@
+"use client";
+
+import { useCallback, useState } from 'react';
+import { ImageFlowResult } from './useImageFlow';
+import { TextOverlay } from '../constants/textOverlay';
+import { Rendition } from '../constants/renditions';
+import { ImageThumbnails } from '../constants/thumbnails';
+import { ImageAltText } from '../constants/altText';
+
+// Mirrors ImageOverlayResult in backend/src/types/imageFlow.ts
+type ImageOverlayResponse = {
+  outputImage: string;
+  outputImageKey: string;
+  cleanOutputImage: string;
+  cleanOutputImageKey: string;
+  textOverlay: TextOverlay;
+  renditions?: Rendition[];
+  thumbnails?: ImageThumbnails;
+  altText?: ImageAltText;
+};
+
+/**
+ * Re-applies edited copy to the clean renders of a result without regenerating them
+ */
+export const useTextOverlay = () => {
+  const [isApplyingCopy, setIsApplyingCopy] = useState(false);
+  const [copyError, setCopyError] = useState<string | null>(null);
+
+  const applyTextOverlay = useCallback(
+    async (
+      result: ImageFlowResult,
+      textOverlay: TextOverlay,
+    ): Promise<Partial<ImageFlowResult> | null> => {
+      const cleanKeys = result.cleanOutputImageKeys ?? [];
+      if (cleanKeys.length === 0) {
+        setCopyError('This result has no clean render to re-apply copy to.');
+        return null;
+      }
+
+      // Rebuild the same renditions from the new copy
+      const renditions = result.outputRenditions?.[0]?.map(({ format, width, quality }) => ({
+        format,
+        width,
+        quality,
+      }));
+
+      setIsApplyingCopy(true);
+      setCopyError(null);
+      try {
+        const outputs = await Promise.all(
+          cleanKeys.map(async (cleanImageKey) => {
+            const response = await fetch('/api/image-flow/overlay', {
+              method: 'POST',
+              headers: {
+                'content-type': 'application/json',
+              },
+              body: JSON.stringify({
+                cleanImageKey,
+                textOverlay,
+                logo: result.logo,
+                renditions: renditions?.length ? renditions : undefined,
+              }),
+            });
+            if (!response.ok) {
+              const message = await response.text();
+              throw new Error(message || 'Failed to apply the copy');
+            }
+            return (await response.json()) as ImageOverlayResponse;
+          }),
+        );
+
+        return {
+          outputImage: outputs[0].outputImage,
+          outputImageKey: outputs[0].outputImageKey,
+          outputImages: outputs.map((output) => output.outputImage),
+          outputImageKeys: outputs.map((output) => output.outputImageKey),
+          textOverlay: outputs[0].textOverlay,
+          outputThumbnails: outputs.map((output) => output.thumbnails ?? null),
+          outputAltTexts: outputs.map((output) => output.altText ?? null),
+          ...(renditions?.length
+            ? { outputRenditions: outputs.map((output) => output.renditions ?? []) }
+            : {}),
+          // Pack renders line up with the clean renders one to one
+          ...(result.renders
+            ? {
+                renders: result.renders.map((render, index) => ({
+                  ...render,
+                  outputImage: outputs[index]?.outputImage ?? render.outputImage,
+                  outputImageKey: outputs[index]?.outputImageKey ?? render.outputImageKey,
+                  renditions: outputs[index]?.renditions ?? render.renditions,
+                  thumbnails: outputs[index]?.thumbnails,
+                  altText: outputs[index]?.altText,
+                })),
+              }
+            : {}),
+        };
+      } catch (err) {
+        console.error('Failed to apply copy:', err);
+        setCopyError(err instanceof Error ? err.message : 'Failed to apply the copy');
+        return null;
+      } finally {
+        setIsApplyingCopy(false);
+      }
+    },
+    [],
+  );
+
+  return { applyTextOverlay, isApplyingCopy, copyError };
+};
@@ -15,31 +15,134 @@ function getTimeAgo(timestamp: number): string {
 import { UploadCard } from './components/UploadCard';
 import { PromptReviewPanel } from './components/PromptReviewPanel';
 import { StudioGallery } from './components/StudioGallery';
-import { useImageFlow } from './hooks/useImageFlow';
+import { RenderPayload, useImageFlow } from './hooks/useImageFlow';
+import { useDescribeImage } from './hooks/useDescribeImage';
+import { ChannelPreset, useChannelPresets } from './hooks/useChannelPresets';
+import { useBrandKits } from './hooks/useBrandKits';
+import { usePromptTemplates } from './hooks/usePromptTemplates';
+import { useFonts } from './hooks/useFonts';
+import { useTextOverlay } from './hooks/useTextOverlay';
+import { TextOverlayFields } from './components/TextOverlayFields';
 import { useImageHistory, HistoryItem } from './hooks/useImageHistory';
 import {
   ASPECT_RATIO_OPTIONS,
   DEFAULT_ASPECT_RATIO,
   AspectRatio,
+  isAspectRatio,
 } from './constants/aspectRatio';
+import {
+  VARIANT_COUNT_OPTIONS,
+  DEFAULT_VARIANT_COUNT,
+  VariantCount,
+} from './constants/variants';
+import {
+  IMAGE_FLOW_MODES,
+  IMAGE_FLOW_MODE_LABELS,
+  DEFAULT_IMAGE_FLOW_MODE,
+  ImageFlowMode,
+} from './constants/imageFlowMode';
+import {
+  LOGO_POSITIONS,
+  LOGO_POSITION_LABELS,
+  LogoPosition,
+} from './constants/logoOverlay';
+import {
+  EMPTY_TEXT_OVERLAY_DRAFT,
+  TextOverlay,
+  TextOverlayDraft,
+  fromTextOverlayDraft,
+  toTextOverlayDraft,
+} from './constants/textOverlay';
+import { RENDITION_OPTIONS } from './constants/renditions';
+import { COPY_CHANNELS, CopyChannelId } from './constants/marketingCopy';
+import { SELF_CORRECTION_THRESHOLDS } from './constants/selfCorrection';
+import { refusalGuidance } from './constants/promptRefusal';
+import {
+  PROMPT_TEMPLATE_ROLES,
+  PromptTemplateRole,
+  PromptTemplateSelection,
+} from './constants/promptTemplate';
+
+type StoredAsset = {
+  key?: string;
+  url: string;
+};
+
+const storedAssetRef = (asset: StoredAsset) => asset.key || asset.url;
+
+// Presets share the aspect ratio selector; their option values carry this prefix
+const PRESET_OPTION_PREFIX = 'preset:';
+
+/**
+ * Ratio to re-run a history item with. Preset items are recorded with their pixel
+ * size (e.g. 1080:1920), so their ratio comes from the preset; if it is not loaded
+ * or no longer exists, the default ratio is used instead.
+ */
+const historyAspectRatio = (item: HistoryItem, itemPreset?: ChannelPreset): AspectRatio => {
+  if (itemPreset) {
+    return itemPreset.aspectRatio;
+  }
+  return isAspectRatio(item.aspectRatio) ? item.aspectRatio : DEFAULT_ASPECT_RATIO;
+};
 
 export default function HomePage() {
   const [baseImage, setBaseImage] = useState<File | null>(null);
   const [referenceImages, setReferenceImages] = useState<File[]>([]);
+  // Assets restored from history; sent by key so they are not uploaded again
+  const [storedBaseImage, setStoredBaseImage] = useState<StoredAsset | null>(null);
+  const [storedReferenceImages, setStoredReferenceImages] = useState<StoredAsset[]>([]);
   const [userPrompt, setUserPrompt] = useState('');
   const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
+  const [variantCount, setVariantCount] = useState<VariantCount>(DEFAULT_VARIANT_COUNT);
+  const [mode, setMode] = useState<ImageFlowMode>(DEFAULT_IMAGE_FLOW_MODE);
+  // Channel pack: when any ratio is picked, the final prompt is rendered once per ratio
+  const [packAspectRatios, setPackAspectRatios] = useState<AspectRatio[]>([]);
+  const [preset, setPreset] = useState<string | null>(null);
+  const [brandKitId, setBrandKitId] = useState('');
+  const [promptTemplateSelection, setPromptTemplateSelection] = useState<PromptTemplateSelection>({});
+  const [logoPosition, setLogoPosition] = useState<LogoPosition | ''>('');
+  const [textOverlayDraft, setTextOverlayDraft] = useState<TextOverlayDraft>(EMPTY_TEXT_OVERLAY_DRAFT);
+  const [renditionIds, setRenditionIds] = useState<string[]>([]);
+  // Marketing copy is only written when at least one channel is picked
+  const [copyChannels, setCopyChannels] = useState<CopyChannelId[]>([]);
+  // Auto-retry renders whose quality score falls below this threshold (off when null)
+  const [selfCorrectionThreshold, setSelfCorrectionThreshold] = useState<number | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [selectedHistoryItem, setSelectedHistoryItem] = useState<HistoryItem | null>(null);
 
-  const { history, addToHistory, removeFromHistory, clearHistory } = useImageHistory();
-  const { runFlow, isLoading, progressLabel, error, result } = useImageFlow({
+  const { history, addToHistory, removeFromHistory, updateHistoryItem, clearHistory } =
+    useImageHistory();
+  const { presets } = useChannelPresets();
+  const { brandKits } = useBrandKits();
+  const { promptTemplates, activePromptTemplates } = usePromptTemplates();
+  const { fonts } = useFonts();
+  const { applyTextOverlay, isApplyingCopy, copyError } = useTextOverlay();
+  const {
+    runFlow,
+    renderPrompt,
+    isLoading,
+    progressLabel,
+    progressEvents,
+    error,
+    refusalReason,
+    result,
+  } = useImageFlow({
     onSuccess: (result, userPrompt, aspectRatio) => {
-      addToHistory(result, userPrompt, aspectRatio);
+      // Preset outputs are cropped to an exact size; record its real ratio for the gallery layout
+      const resultPreset = presets.find((item) => item.id === result.preset);
+      addToHistory(
+        result,
+        userPrompt,
+        resultPreset ? `${resultPreset.width}:${resultPreset.height}` : aspectRatio,
+      );
       // Don't auto-show the result - user must click on gallery item
       setSelectedHistoryItem(null);
     },
   });
 
+  const { describeImage, isDescribing, description, describeError, clearDescription } =
+    useDescribeImage();
+
   const formOverlayRef = useRef<HTMLDivElement>(null);
 
   // Dynamically track form panel height and update CSS variable
@@ -99,9 +202,50 @@ export default function HomePage() {
     };
   }, []);
 
+  const hasBaseImage = !!baseImage || !!storedBaseImage;
+  const isPack = packAspectRatios.length > 0;
+  // The retry loop judges a single output
+  const canSelfCorrect = !isPack && variantCount === 1;
+
+  const handleAspectRatioChange = (value: string) => {
+    if (value.startsWith(PRESET_OPTION_PREFIX)) {
+      const selected = presets.find((item) => item.id === value.slice(PRESET_OPTION_PREFIX.length));
+      if (!selected) return;
+      setPreset(selected.id);
+      setAspectRatio(selected.aspectRatio);
+      // A preset fixes the output size, so it replaces any channel pack
+      setPackAspectRatios([]);
+      return;
+    }
+    setPreset(null);
+    setAspectRatio(value as AspectRatio);
+  };
+
+  const togglePackAspectRatio = (ratio: AspectRatio) => {
+    setPreset(null);
+    // Keep the pack in ASPECT_RATIO_OPTIONS order so renders line up predictably
+    setPackAspectRatios((prev) =>
+      ASPECT_RATIO_OPTIONS.filter((option) =>
+        option === ratio ? !prev.includes(option) : prev.includes(option),
+      ),
+    );
+  };
+
+  const toggleRendition = (id: string) => {
+    setRenditionIds((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id],
+    );
+  };
+
+  const toggleCopyChannel = (id: CopyChannelId) => {
+    setCopyChannels((prev) =>
+      prev.includes(id) ? prev.filter((item) => item !== id) : [...prev, id],
+    );
+  };
+
   const handleSubmit = (event: FormEvent) => {
     event.preventDefault();
-    if (!baseImage) {
+    if (!hasBaseImage) {
       alert('Please upload a base image to kick off the flow.');
       return;
     }
@@ -109,11 +253,84 @@ export default function HomePage() {
     runFlow({
       baseImage,
       referenceImages,
+      baseImageUrl: storedBaseImage ? storedAssetRef(storedBaseImage) : undefined,
+      referenceImageUrls: storedReferenceImages.map(storedAssetRef),
       userPrompt: userPrompt.trim() || '', // Send empty string if no user prompt provided
       aspectRatio,
+      aspectRatios: isPack ? packAspectRatios : undefined,
+      preset: preset ?? undefined,
+      mode,
+      brandKitId: brandKitId || undefined,
+      promptTemplates: promptTemplateSelection,
+      logo: logoPosition ? { position: logoPosition } : undefined,
+      textOverlay: fromTextOverlayDraft(textOverlayDraft),
+      renditions: RENDITION_OPTIONS
+        .filter((option) => renditionIds.includes(option.id))
+        .map((option) => option.request),
+      marketingCopy: copyChannels.length > 0 ? { channels: copyChannels } : undefined,
+      selfCorrection: canSelfCorrect && selfCorrectionThreshold
+        ? { threshold: selfCorrectionThreshold }
+        : undefined,
+      // A pack renders one output per ratio
+      variantCount: isPack ? 1 : variantCount,
     });
   };
 
+  // An empty id falls back to the template activated for the role
+  const handlePromptTemplateChange = (role: PromptTemplateRole, id: string) => {
+    setPromptTemplateSelection((prev) => {
+      const next = { ...prev };
+      if (id) {
+        next[role] = { id };
+      } else {
+        delete next[role];
+      }
+      return next;
+    });
+  };
+
+  const handleDescribeOnly = () => {
+    const image = baseImage ?? (storedBaseImage ? storedAssetRef(storedBaseImage) : null);
+    if (!image) {
+      alert('Please upload a base image to describe.');
+      return;
+    }
+    // Step 1 only - no image generation cost
+    describeImage(image);
+  };
+
+  // Render an edited final prompt or scene against the item's stored source images (Step 3 only)
+  const handleRenderPrompt = (item: HistoryItem, edit: Pick<RenderPayload, 'prompt' | 'scene'>) => {
+    if (!item.baseImageKey) {
+      alert('This history item has no stored base image to render against.');
+      return;
+    }
+    const itemPreset = presets.find((entry) => entry.id === item.preset);
+    renderPrompt({
+      ...edit,
+      prompt1: item.prompt1,
+      baseImageKey: item.baseImageKey,
+      referenceImageKeys: item.referenceImageKeys,
+      userPrompt: item.userPrompt,
+      aspectRatio: historyAspectRatio(item, itemPreset),
+      aspectRatios: item.renders?.map((render) => render.aspectRatio),
+      preset: item.preset,
+      logo: item.logo,
+      textOverlay: item.textOverlay,
+      mode: item.mode ?? DEFAULT_IMAGE_FLOW_MODE,
+      variantCount: (item.renders ? 1 : item.outputImages?.length ?? 1) as VariantCount,
+    });
+    setSelectedHistoryItem(null);
+  };
+
+  // Re-typeset edited copy on the item's clean renders (no generation)
+  const handleEditCopy = async (item: HistoryItem, textOverlay: TextOverlay) => {
+    const patch = await applyTextOverlay(item, textOverlay);
+    if (!patch) return;
+    updateHistoryItem(item.id, patch);
+    setSelectedHistoryItem({ ...item, ...patch });
+  };
+
   const handleSelectHistoryItem = (item: HistoryItem) => {
     // Display the selected history item in the review panel
     setSelectedHistoryItem(item);
@@ -125,108 +342,50 @@ export default function HomePage() {
     }, 100);
   };
 
-  // Helper function to convert S3 key or URL to File object using proxy endpoint
-  const keyOrUrlToFile = async (keyOrUrl: string | undefined, filename: string, isKey: boolean = false): Promise<File> => {
-    if (!keyOrUrl) {
-      throw new Error('No key or URL provided');
-    }
+  const handleRegenerate = (item: HistoryItem) => {
+    // Restore the generation parameters from history item
+    setUserPrompt(item.userPrompt);
+    const itemPreset = presets.find((entry) => entry.id === item.preset);
+    setPreset(itemPreset?.id ?? null);
+    setAspectRatio(historyAspectRatio(item, itemPreset));
+    setVariantCount((item.renders ? 1 : item.outputImages?.length ?? 1) as VariantCount);
+    setPackAspectRatios(item.renders?.map((render) => render.aspectRatio) ?? []);
+    setMode(item.mode ?? DEFAULT_IMAGE_FLOW_MODE);
+    setBrandKitId(item.brandKitId ?? '');
+    // Pin the exact template versions the item was generated with
+    setPromptTemplateSelection(
+      Object.fromEntries(
+        Object.entries(item.promptTemplates ?? {}).map(([role, { id, version }]) => [
+          role,
+          { id, version },
+        ]),
+      ),
+    );
+    setLogoPosition(item.logo?.position ?? '');
+    setTextOverlayDraft(toTextOverlayDraft(item.textOverlay));
+    setCopyChannels(item.marketingCopyVariants?.[0]?.channels.map((entry) => entry.channel) ?? []);
+    setSelfCorrectionThreshold(item.selfCorrection?.threshold ?? null);
 
-    try {
-      // Use our proxy endpoint to fetch the image (bypasses CORS)
-      // Prefer key over URL for efficiency
-      const queryParam = isKey ? `key=${encodeURIComponent(keyOrUrl)}` : `url=${encodeURIComponent(keyOrUrl)}`;
-      const proxyUrl = `/api/image-proxy?${queryParam}`;
-      const response = await fetch(proxyUrl);
+    // Reuse the stored source images by key (falling back to URL) instead of downloading and re-uploading them
+    setBaseImage(null);
+    setStoredBaseImage(
+      item.baseImage || item.baseImageKey
+        ? { key: item.baseImageKey, url: item.baseImage }
+        : null,
+    );
+    setReferenceImages([]);
+    setStoredReferenceImages(
+      (item.referenceImages || []).map((url, index) => ({
+        key: item.referenceImageKeys?.[index],
+        url,
+      })),
+    );
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new Error(`Failed to fetch image via proxy: ${response.status} ${errorText}`);
-      }
-
-      const blob = await response.blob();
-      const contentType = blob.type || 'image/jpeg';
-      
-      // Extract file extension from content type if needed
-      const extension = contentType.split('/')[1] || 'jpg';
-      const finalFilename = filename.endsWith(`.${extension}`) 
-        ? filename 
-        : `${filename.replace(/\.[^/.]+$/, '')}.${extension}`;
-
-      const file = new File([blob], finalFilename, {
-        type: contentType,
-        lastModified: Date.now(),
-      });
-
-      return file;
-    } catch (error) {
-      console.error('Error converting key/URL to File via proxy:', error);
-      throw error;
-    }
-  };
-
-  const handleRegenerate = async (item: HistoryItem) => {
-    try {
-      // Restore the generation parameters from history item
-      setUserPrompt(item.userPrompt);
-      setAspectRatio(item.aspectRatio as AspectRatio);
-      
-      // Restore base image - prefer key over URL
-      if (item.baseImageKey || item.baseImage) {
-        try {
-          const keyOrUrl = item.baseImageKey || item.baseImage;
-          const isKey = !!item.baseImageKey;
-          console.log('Restoring base image from:', isKey ? `key: ${keyOrUrl}` : `url: ${keyOrUrl}`);
-          const baseFile = await keyOrUrlToFile(keyOrUrl, 'base-image.jpg', isKey);
-          console.log('Base image restored:', baseFile.name, baseFile.size, 'bytes');
-          setBaseImage(baseFile);
-        } catch (error) {
-          console.error('Failed to restore base image:', error);
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error('Error details:', errorMessage);
-          // Don't show alert, just log - user can still manually upload
-          // The form will work without the images pre-loaded
-        }
-      } else {
-        setBaseImage(null);
-      }
-      
-      // Restore reference images - prefer keys over URLs
-      const referenceKeys = item.referenceImageKeys || [];
-      const referenceUrls = item.referenceImages || [];
-      
-      if (referenceKeys.length > 0 || referenceUrls.length > 0) {
-        try {
-          const itemsToRestore = referenceKeys.length > 0 
-            ? referenceKeys.map((key, index) => ({ value: key, isKey: true, index }))
-            : referenceUrls.map((url, index) => ({ value: url, isKey: false, index }));
-          
-          console.log('Restoring reference images:', itemsToRestore.length, 'items');
-          const referenceFiles = await Promise.all(
-            itemsToRestore.map(({ value, isKey, index }) => 
-              keyOrUrlToFile(value, `reference-image-${index}.jpg`, isKey)
-            )
-          );
-          console.log('Reference images restored:', referenceFiles.length, 'files');
-          setReferenceImages(referenceFiles);
-        } catch (error) {
-          console.error('Failed to restore reference images:', error);
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error('Error details:', errorMessage);
-          // Don't show alert, just log - user can still manually upload
-          // The form will work without the images pre-loaded
-        }
-      } else {
-        setReferenceImages([]);
-      }
-      
-      // Scroll to form
-      setTimeout(() => {
-        const form = document.querySelector('.form-overlay');
-        form?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
-      }, 100);
-    } catch (error) {
-      console.error('Error in handleRegenerate:', error);
-    }
+    // Scroll to form
+    setTimeout(() => {
+      const form = document.querySelector('.form-overlay');
+      form?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }, 100);
   };
 
   return (
@@ -265,7 +424,8 @@ export default function HomePage() {
             onRegenerate={handleRegenerate}
             isLoading={isLoading}
             progressLabel={progressLabel}
-            generatingAspectRatio={isLoading ? aspectRatio : null}
+            progressEvents={progressEvents}
+            generatingAspectRatio={isLoading ? packAspectRatios[0] ?? aspectRatio : null}
           />
         )}
       </div>
@@ -306,11 +466,15 @@ export default function HomePage() {
           {/* Upload Card 1 - Base image */}
           <div className="form-upload-base" style={{ display: 'flex', flexDirection: 'column' }}>
           <UploadCard
-              key={baseImage ? `base-${baseImage.name}-${baseImage.size}` : 'base-empty'}
+              key={baseImage ? `base-${baseImage.name}-${baseImage.size}` : storedBaseImage ? `base-${storedBaseImage.url}` : 'base-empty'}
             label="Base image"
             description="This is the visual we will analyze and preserve."
               file={baseImage || undefined}
-            onDrop={(files) => setBaseImage(files[0])}
+              storedUrls={storedBaseImage ? [storedBaseImage.url] : undefined}
+            onDrop={(files) => {
+              setBaseImage(files[0]);
+              setStoredBaseImage(null);
+            }}
               aria-label="Upload base image for AI analysis"
           />
           </div>
@@ -318,11 +482,15 @@ export default function HomePage() {
           {/* Upload Card 2 - Reference images */}
           <div className="form-upload-ref" style={{ display: 'flex', flexDirection: 'column' }}>
           <UploadCard
-              key={`ref-${referenceImages.length}-${referenceImages.map(f => f.name).join('-')}`}
+              key={`ref-${referenceImages.length}-${referenceImages.map(f => f.name).join('-')}-${storedReferenceImages.length}`}
             label="Reference images (optional)"
             description="Use these only when you want to inject a very specific pose, outfit, or object."
             files={referenceImages}
-            onDrop={(files) => setReferenceImages(files.slice(0, 2))}
+              storedUrls={storedReferenceImages.map((asset) => asset.url)}
+            onDrop={(files) => {
+              setReferenceImages(files.slice(0, 2));
+              setStoredReferenceImages([]);
+            }}
             multiple
               aria-label="Upload reference images for style guidance"
           />
@@ -416,14 +584,15 @@ export default function HomePage() {
                   display: 'block',
                 }}
               >
-                Aspect ratio
+                Aspect ratio / channel
               </span>
             <select
               id="aspect-ratio-select"
               name="aspect-ratio"
-              value={aspectRatio}
-              onChange={(event) => setAspectRatio(event.target.value as AspectRatio)}
-              aria-label="Select image aspect ratio"
+              value={preset ? `${PRESET_OPTION_PREFIX}${preset}` : aspectRatio}
+              disabled={isPack}
+              onChange={(event) => handleAspectRatioChange(event.target.value)}
+              aria-label="Select image aspect ratio or channel preset"
               style={{
                   background: 'var(--input-bg)',
                 color: 'var(--text)',
@@ -446,22 +615,568 @@ export default function HomePage() {
                   e.currentTarget.style.boxShadow = 'none';
               }}
             >
-              {ASPECT_RATIO_OPTIONS.map((ratio) => (
-                <option key={ratio} value={ratio}>
-                  {ratio}
-                </option>
-              ))}
+              <optgroup label="Aspect ratios">
+                {ASPECT_RATIO_OPTIONS.map((ratio) => (
+                  <option key={ratio} value={ratio}>
+                    {ratio}
+                  </option>
+                ))}
+              </optgroup>
+              {presets.length > 0 && (
+                <optgroup label="Channel presets">
+                  {presets.map((item) => (
+                    <option key={item.id} value={`${PRESET_OPTION_PREFIX}${item.id}`}>
+                      {item.channel} ({item.width}×{item.height})
+                    </option>
+                  ))}
+                </optgroup>
+              )}
             </select>
           </label>
 
+            {/* Channel pack - render the same final prompt in several aspect ratios */}
+            <div
+              role="group"
+              aria-labelledby="channel-pack-label"
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+              }}
+            >
+              <span
+                id="channel-pack-label"
+                style={{
+                  fontSize: 14,
+                  fontWeight: 600,
+                  color: 'var(--text)',
+                  marginBottom: 0,
+                  lineHeight: 1.4,
+                  display: 'block',
+                }}
+              >
+                Channel pack (optional)
+              </span>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                {ASPECT_RATIO_OPTIONS.map((ratio) => {
+                  const isSelected = packAspectRatios.includes(ratio);
+                  return (
+                    <button
+                      key={ratio}
+                      type="button"
+                      aria-pressed={isSelected}
+                      onClick={() => togglePackAspectRatio(ratio)}
+                      style={{
+                        background: isSelected ? 'var(--accent)' : 'var(--input-bg)',
+                        color: isSelected ? '#ffffff' : 'var(--text)',
+                        border: isSelected ? '1px solid var(--accent)' : '1px solid var(--input-border)',
+                        borderRadius: 8,
+                        padding: '4px 8px',
+                        fontSize: 12,
+                        fontWeight: 600,
+                        fontFamily: 'inherit',
+                        cursor: 'pointer',
+                        transition: 'all 0.2s ease',
+                      }}
+                    >
+                      {ratio}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Renditions - extra formats and widths stored for every output */}
+            <div
+              role="group"
+              aria-labelledby="renditions-label"
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+              }}
+            >
+              <span
+                id="renditions-label"
+                style={{
+                  fontSize: 14,
+                  fontWeight: 600,
+                  color: 'var(--text)',
+                  marginBottom: 0,
+                  lineHeight: 1.4,
+                  display: 'block',
+                }}
+              >
+                Renditions (optional)
+              </span>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                {RENDITION_OPTIONS.map((option) => {
+                  const isSelected = renditionIds.includes(option.id);
+                  return (
+                    <button
+                      key={option.id}
+                      type="button"
+                      aria-pressed={isSelected}
+                      onClick={() => toggleRendition(option.id)}
+                      style={{
+                        background: isSelected ? 'var(--accent)' : 'var(--input-bg)',
+                        color: isSelected ? '#ffffff' : 'var(--text)',
+                        border: isSelected ? '1px solid var(--accent)' : '1px solid var(--input-border)',
+                        borderRadius: 8,
+                        padding: '4px 8px',
+                        fontSize: 12,
+                        fontWeight: 600,
+                        fontFamily: 'inherit',
+                        cursor: 'pointer',
+                        transition: 'all 0.2s ease',
+                      }}
+                    >
+                      {option.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Marketing copy - captions, headlines and hashtags per channel */}
+            <div
+              role="group"
+              aria-labelledby="marketing-copy-label"
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+              }}
+            >
+              <span
+                id="marketing-copy-label"
+                style={{
+                  fontSize: 14,
+                  fontWeight: 600,
+                  color: 'var(--text)',
+                  marginBottom: 0,
+                  lineHeight: 1.4,
+                  display: 'block',
+                }}
+              >
+                Marketing copy (optional)
+              </span>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6 }}>
+                {COPY_CHANNELS.map((channel) => {
+                  const isSelected = copyChannels.includes(channel.id);
+                  return (
+                    <button
+                      key={channel.id}
+                      type="button"
+                      aria-pressed={isSelected}
+                      title={`Up to ${channel.characterLimit} characters`}
+                      onClick={() => toggleCopyChannel(channel.id)}
+                      style={{
+                        background: isSelected ? 'var(--accent)' : 'var(--input-bg)',
+                        color: isSelected ? '#ffffff' : 'var(--text)',
+                        border: isSelected ? '1px solid var(--accent)' : '1px solid var(--input-border)',
+                        borderRadius: 8,
+                        padding: '4px 8px',
+                        fontSize: 12,
+                        fontWeight: 600,
+                        fontFamily: 'inherit',
+                        cursor: 'pointer',
+                        transition: 'all 0.2s ease',
+                      }}
+                    >
+                      {channel.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Variants - how many options to render from the final prompt */}
+            <label
+              htmlFor="variant-count-select"
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+              }}
+            >
+              <span
+                style={{
+                  fontSize: 14,
+                  fontWeight: 600,
+                  color: 'var(--text)',
+                  marginBottom: 0,
+                  lineHeight: 1.4,
+                  display: 'block',
+                }}
+              >
+                Variants
+              </span>
+              <select
+                id="variant-count-select"
+                name="variant-count"
+                value={isPack ? 1 : variantCount}
+                disabled={isPack}
+                title={isPack ? 'Channel packs render one image per aspect ratio' : undefined}
+                onChange={(event) => setVariantCount(Number(event.target.value) as VariantCount)}
+                aria-label="Select how many image variants to generate"
+                style={{
+                  background: 'var(--input-bg)',
+                  color: 'var(--text)',
+                  borderRadius: 12,
+                  padding: '10px 14px',
+                  border: '1px solid var(--input-border)',
+                  fontSize: 14,
+                  fontFamily: 'inherit',
+                  cursor: 'pointer',
+                  outline: 'none',
+                  width: '100%',
+                  boxSizing: 'border-box',
+                }}
+                onFocus={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--input-border-focus)';
+                  e.currentTarget.style.boxShadow = `0 0 0 3px var(--input-shadow)`;
+                }}
+                onBlur={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--input-border)';
+                  e.currentTarget.style.boxShadow = 'none';
+                }}
+              >
+                {VARIANT_COUNT_OPTIONS.map((count) => (
+                  <option key={count} value={count}>
+                    {count === 1 ? '1 image' : `${count} images`}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {/* Self-correction - re-render while the quality judge scores below the threshold */}
+            <label
+              htmlFor="self-correction-select"
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+              }}
+            >
+              <span
+                style={{
+                  fontSize: 14,
+                  fontWeight: 600,
+                  color: 'var(--text)',
+                  marginBottom: 0,
+                  lineHeight: 1.4,
+                  display: 'block',
+                }}
+              >
+                Auto-retry weak renders
+              </span>
+              <select
+                id="self-correction-select"
+                name="self-correction"
+                value={canSelfCorrect ? selfCorrectionThreshold ?? '' : ''}
+                disabled={!canSelfCorrect}
+                title={canSelfCorrect ? undefined : 'Auto-retry works on a single image'}
+                onChange={(event) =>
+                  setSelfCorrectionThreshold(event.target.value ? Number(event.target.value) : null)
+                }
+                aria-label="Select the quality score below which renders are retried"
+                style={{
+                  background: 'var(--input-bg)',
+                  color: 'var(--text)',
+                  borderRadius: 12,
+                  padding: '10px 14px',
+                  border: '1px solid var(--input-border)',
+                  fontSize: 14,
+                  fontFamily: 'inherit',
+                  cursor: 'pointer',
+                  outline: 'none',
+                  width: '100%',
+                  boxSizing: 'border-box',
+                }}
+                onFocus={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--input-border-focus)';
+                  e.currentTarget.style.boxShadow = `0 0 0 3px var(--input-shadow)`;
+                }}
+                onBlur={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--input-border)';
+                  e.currentTarget.style.boxShadow = 'none';
+                }}
+              >
+                <option value="">Off</option>
+                {SELF_CORRECTION_THRESHOLDS.map((threshold) => (
+                  <option key={threshold} value={threshold}>
+                    Retry below {threshold} / 5
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {/* Mode - render from the prompt alone or edit the uploaded images directly */}
+            <label
+              htmlFor="flow-mode-select"
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+              }}
+            >
+              <span
+                style={{
+                  fontSize: 14,
+                  fontWeight: 600,
+                  color: 'var(--text)',
+                  marginBottom: 0,
+                  lineHeight: 1.4,
+                  display: 'block',
+                }}
+              >
+                Mode
+              </span>
+              <select
+                id="flow-mode-select"
+                name="mode"
+                value={mode}
+                onChange={(event) => setMode(event.target.value as ImageFlowMode)}
+                aria-label="Choose whether to reconstruct the image from text or edit the original"
+                style={{
+                  background: 'var(--input-bg)',
+                  color: 'var(--text)',
+                  borderRadius: 12,
+                  padding: '10px 14px',
+                  border: '1px solid var(--input-border)',
+                  fontSize: 14,
+                  fontFamily: 'inherit',
+                  cursor: 'pointer',
+                  outline: 'none',
+                  width: '100%',
+                  boxSizing: 'border-box',
+                }}
+                onFocus={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--input-border-focus)';
+                  e.currentTarget.style.boxShadow = `0 0 0 3px var(--input-shadow)`;
+                }}
+                onBlur={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--input-border)';
+                  e.currentTarget.style.boxShadow = 'none';
+                }}
+              >
+                {IMAGE_FLOW_MODES.map((option) => (
+                  <option key={option} value={option}>
+                    {IMAGE_FLOW_MODE_LABELS[option]}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {/* Brand kit - palette, style and do/don't rules applied in Step 2 */}
+            {brandKits.length > 0 && (
+              <label
+                htmlFor="brand-kit-select"
+                style={{
+                  display: 'flex',
+                  flexDirection: 'column',
+                  gap: 8,
+                }}
+              >
+                <span
+                  style={{
+                    fontSize: 14,
+                    fontWeight: 600,
+                    color: 'var(--text)',
+                    marginBottom: 0,
+                    lineHeight: 1.4,
+                    display: 'block',
+                  }}
+                >
+                  Brand kit
+                </span>
+                <select
+                  id="brand-kit-select"
+                  name="brand-kit"
+                  value={brandKitId}
+                  onChange={(event) => setBrandKitId(event.target.value)}
+                  aria-label="Select a brand kit to apply"
+                  style={{
+                    background: 'var(--input-bg)',
+                    color: 'var(--text)',
+                    borderRadius: 12,
+                    padding: '10px 14px',
+                    border: '1px solid var(--input-border)',
+                    fontSize: 14,
+                    fontFamily: 'inherit',
+                    cursor: 'pointer',
+                    outline: 'none',
+                    width: '100%',
+                    boxSizing: 'border-box',
+                  }}
+                  onFocus={(e) => {
+                    e.currentTarget.style.borderColor = 'var(--input-border-focus)';
+                    e.currentTarget.style.boxShadow = `0 0 0 3px var(--input-shadow)`;
+                  }}
+                  onBlur={(e) => {
+                    e.currentTarget.style.borderColor = 'var(--input-border)';
+                    e.currentTarget.style.boxShadow = 'none';
+                  }}
+                >
+                  <option value="">No brand kit</option>
+                  {brandKits.map((kit) => (
+                    <option key={kit.id} value={kit.id}>
+                      {kit.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {/* System prompt templates - pick a version per request instead of the active one */}
+            {PROMPT_TEMPLATE_ROLES.map(({ id: role, label }) => {
+              const options = promptTemplates.filter((template) => template.role === role);
+              if (options.length === 0) return null;
+              const active = activePromptTemplates[role];
+              const selected = promptTemplateSelection[role];
+              return (
+                <label
+                  key={role}
+                  htmlFor={`prompt-template-${role}`}
+                  style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: 8,
+                  }}
+                >
+                  <span
+                    style={{
+                      fontSize: 14,
+                      fontWeight: 600,
+                      color: 'var(--text)',
+                      marginBottom: 0,
+                      lineHeight: 1.4,
+                      display: 'block',
+                    }}
+                  >
+                    {label}
+                  </span>
+                  <select
+                    id={`prompt-template-${role}`}
+                    name={`prompt-template-${role}`}
+                    value={selected?.id ?? ''}
+                    onChange={(event) => handlePromptTemplateChange(role, event.target.value)}
+                    style={{
+                      background: 'var(--input-bg)',
+                      color: 'var(--text)',
+                      borderRadius: 12,
+                      padding: '10px 14px',
+                      border: '1px solid var(--input-border)',
+                      fontSize: 14,
+                      fontFamily: 'inherit',
+                      cursor: 'pointer',
+                      outline: 'none',
+                      width: '100%',
+                      boxSizing: 'border-box',
+                    }}
+                    onFocus={(e) => {
+                      e.currentTarget.style.borderColor = 'var(--input-border-focus)';
+                      e.currentTarget.style.boxShadow = `0 0 0 3px var(--input-shadow)`;
+                    }}
+                    onBlur={(e) => {
+                      e.currentTarget.style.borderColor = 'var(--input-border)';
+                      e.currentTarget.style.boxShadow = 'none';
+                    }}
+                  >
+                    <option value="">
+                      Default ({active ? `${active.name} · v${active.version}` : 'built-in prompt'})
+                    </option>
+                    {options.map((template) => {
+                      // A restored history item pins the version it was generated with
+                      const version = selected?.id === template.id && selected.version
+                        ? selected.version
+                        : template.versions[template.versions.length - 1]?.version;
+                      return (
+                        <option key={template.id} value={template.id}>
+                          {template.name} · v{version}
+                        </option>
+                      );
+                    })}
+                  </select>
+                </label>
+              );
+            })}
+
+            {/* Logo - composited onto every output; the clean render is stored too */}
+            <label
+              htmlFor="logo-position-select"
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                gap: 8,
+              }}
+            >
+              <span
+                style={{
+                  fontSize: 14,
+                  fontWeight: 600,
+                  color: 'var(--text)',
+                  marginBottom: 0,
+                  lineHeight: 1.4,
+                  display: 'block',
+                }}
+              >
+                Logo
+              </span>
+              <select
+                id="logo-position-select"
+                name="logo-position"
+                value={logoPosition}
+                onChange={(event) => setLogoPosition(event.target.value as LogoPosition | '')}
+                aria-label="Select where to place the logo"
+                style={{
+                  background: 'var(--input-bg)',
+                  color: 'var(--text)',
+                  borderRadius: 12,
+                  padding: '10px 14px',
+                  border: '1px solid var(--input-border)',
+                  fontSize: 14,
+                  fontFamily: 'inherit',
+                  cursor: 'pointer',
+                  outline: 'none',
+                  width: '100%',
+                  boxSizing: 'border-box',
+                }}
+                onFocus={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--input-border-focus)';
+                  e.currentTarget.style.boxShadow = `0 0 0 3px var(--input-shadow)`;
+                }}
+                onBlur={(e) => {
+                  e.currentTarget.style.borderColor = 'var(--input-border)';
+                  e.currentTarget.style.boxShadow = 'none';
+                }}
+              >
+                <option value="">No logo</option>
+                {LOGO_POSITIONS.map((position) => (
+                  <option key={position} value={position}>
+                    {LOGO_POSITION_LABELS[position]}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            {/* Marketing copy - typeset by the backend after generation */}
+            <TextOverlayFields
+              value={textOverlayDraft}
+              onChange={setTextOverlayDraft}
+              fonts={fonts}
+              idPrefix="text-overlay"
+            />
+
             {/* Button - Bottom */}
           <button
             type="submit"
-              disabled={isLoading || !baseImage}
+              disabled={isLoading || !hasBaseImage}
             aria-label={isLoading ? `Generating image: ${progressLabel || 'Processing...'}` : 'Generate marketing image'}
             aria-busy={isLoading}
             style={{
-                background: isLoading || !baseImage
+                background: isLoading || !hasBaseImage
                   ? 'var(--muted-light)'
                   : 'var(--accent-gradient)',
               color: '#ffffff',
@@ -470,31 +1185,31 @@ export default function HomePage() {
               border: 'none',
                 fontSize: 15,
                 fontWeight: 600,
-                cursor: isLoading || !baseImage ? 'not-allowed' : 'pointer',
+                cursor: isLoading || !hasBaseImage ? 'not-allowed' : 'pointer',
                 transition: 'all 0.2s ease',
                 display: 'flex',
                 alignItems: 'center',
                 justifyContent: 'center',
                 gap: 8,
-                boxShadow: isLoading || !baseImage
+                boxShadow: isLoading || !hasBaseImage
                   ? 'none'
                   : '0 4px 12px rgba(99, 102, 241, 0.3)',
                 whiteSpace: 'nowrap',
-                opacity: isLoading || !baseImage ? 0.6 : 1,
+                opacity: isLoading || !hasBaseImage ? 0.6 : 1,
                 width: '100%',
                 marginTop: 'auto',
                 minHeight: '52px',
                 flex: 1,
               }}
               onMouseEnter={(e) => {
-                if (!isLoading && baseImage) {
+                if (!isLoading && hasBaseImage) {
                   e.currentTarget.style.transform = 'translateY(-1px)';
                   e.currentTarget.style.boxShadow = '0 6px 16px rgba(99, 102, 241, 0.4)';
                 }
               }}
               onMouseLeave={(e) => {
                 e.currentTarget.style.transform = 'translateY(0)';
-                e.currentTarget.style.boxShadow = isLoading || !baseImage
+                e.currentTarget.style.boxShadow = isLoading || !hasBaseImage
                   ? 'none'
                   : '0 4px 12px rgba(99, 102, 241, 0.3)';
             }}
@@ -531,8 +1246,104 @@ export default function HomePage() {
                 </>
               )}
           </button>
+
+            {/* Describe only - runs Step 1 without generating an image */}
+            <button
+              type="button"
+              onClick={handleDescribeOnly}
+              disabled={isDescribing || isLoading || !hasBaseImage}
+              aria-busy={isDescribing}
+              aria-label="Describe the base image without generating a new one"
+              style={{
+                background: 'var(--input-bg)',
+                color: 'var(--text)',
+                padding: '10px 20px',
+                borderRadius: 12,
+                border: '1px solid var(--input-border)',
+                fontSize: 14,
+                fontWeight: 600,
+                cursor: isDescribing || isLoading || !hasBaseImage ? 'not-allowed' : 'pointer',
+                opacity: isDescribing || isLoading || !hasBaseImage ? 0.6 : 1,
+                transition: 'all 0.2s ease',
+                width: '100%',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              {isDescribing ? 'Describing...' : '📝 Describe only'}
+            </button>
           </div>
 
+          {(description || describeError) && (
+            <div
+              role="status"
+              style={{
+                background: 'var(--input-bg)',
+                border: '1px solid var(--input-border)',
+                borderRadius: 12,
+                padding: '14px 18px',
+                color: describeError || !description?.isPromptGenerated ? 'var(--error)' : 'var(--text)',
+                fontSize: 14,
+                display: 'flex',
+                alignItems: 'flex-start',
+                gap: 10,
+                gridColumn: '1 / -1',
+                marginTop: 4,
+              }}
+            >
+              <span style={{ fontSize: 18, flexShrink: 0 }}>📝</span>
+              <p
+                style={{
+                  margin: 0,
+                  lineHeight: 1.5,
+                  flex: 1,
+                  maxHeight: 160,
+                  overflowY: 'auto',
+                  whiteSpace: 'pre-wrap',
+                }}
+              >
+                {describeError ?? description?.prompt1 ?? `Description refused: ${description?.refusal}`}
+                {!describeError && refusalGuidance(description?.refusalReason) && (
+                  <span style={{ display: 'block', marginTop: 8, color: 'var(--muted)' }}>
+                    {description?.status === 'partial' ? 'Part of the image was left out. ' : ''}
+                    {refusalGuidance(description?.refusalReason)}
+                  </span>
+                )}
+              </p>
+              {description?.prompt1 && (
+                <button
+                  type="button"
+                  onClick={() => navigator.clipboard.writeText(description.prompt1 ?? '')}
+                  style={{
+                    background: 'transparent',
+                    border: '1px solid var(--input-border)',
+                    borderRadius: 8,
+                    padding: '4px 10px',
+                    fontSize: 12,
+                    cursor: 'pointer',
+                    color: 'var(--text)',
+                  }}
+                >
+                  Copy
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={clearDescription}
+                aria-label="Dismiss description"
+                style={{
+                  background: 'transparent',
+                  border: 'none',
+                  fontSize: 18,
+                  lineHeight: 1,
+                  cursor: 'pointer',
+                  color: 'var(--muted)',
+                }}
+              >
+                ×
+              </button>
+            </div>
+          )}
+
           {error && (
             <div
               style={{
@@ -550,7 +1361,14 @@ export default function HomePage() {
               }}
             >
               <span style={{ fontSize: 18, flexShrink: 0 }}>⚠️</span>
-              <span style={{ lineHeight: 1.5, flex: 1 }}>{error}</span>
+              <span style={{ lineHeight: 1.5, flex: 1 }}>
+                {error}
+                {refusalReason && (
+                  <span style={{ display: 'block', marginTop: 6, color: 'var(--text-secondary)' }}>
+                    {refusalGuidance(refusalReason)}
+                  </span>
+                )}
+              </span>
             </div>
           )}
         </form>
@@ -592,8 +1410,21 @@ export default function HomePage() {
           >
             <PromptReviewPanel
               result={selectedHistoryItem}
-              isLoading={false}
+              isLoading={isLoading || isApplyingCopy}
               onClose={() => setSelectedHistoryItem(null)}
+              onRenderPrompt={
+                selectedHistoryItem.baseImageKey
+                  ? (prompt) => handleRenderPrompt(selectedHistoryItem, { prompt })
+                  : undefined
+              }
+              onRenderScene={
+                selectedHistoryItem.baseImageKey
+                  ? (scene) => handleRenderPrompt(selectedHistoryItem, { scene })
+                  : undefined
+              }
+              onEditCopy={(textOverlay) => handleEditCopy(selectedHistoryItem, textOverlay)}
+              copyError={copyError}
+              fonts={fonts}
             />
           </div>
         </div>